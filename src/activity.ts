@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import { ActivityEvent, ActivityKind, ActivitySource, ActivitySourceConfig } from './types';
+
+const SOURCE_KINDS: Record<ActivitySource, ActivityKind> = {
+  textEdit: 'typing',
+  save: 'typing',
+  notebook: 'typing',
+  selection: 'reading',
+  editorSwitch: 'reading',
+  scroll: 'reading',
+  debug: 'running',
+  terminal: 'running',
+  windowFocus: 'focus'
+};
+
+/**
+ * Collects weighted activity signals from the editor, debugger, terminal and notebooks
+ */
+export class ActivityTracker implements vscode.Disposable {
+  private onDidRecordActivityEmitter = new vscode.EventEmitter<ActivityEvent>();
+  readonly onDidRecordActivity = this.onDidRecordActivityEmitter.event;
+
+  private lastEvent: ActivityEvent | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private getSources: () => Record<ActivitySource, ActivitySourceConfig>,
+    private getIdleThresholdMs: () => number
+  ) {
+    this.disposables.push(this.onDidRecordActivityEmitter);
+    this.registerListeners();
+  }
+
+  /**
+   * Last recorded activity event
+   */
+  getLastEvent(): ActivityEvent | undefined {
+    return this.lastEvent;
+  }
+
+  /**
+   * Record an activity signal. A weight below 1 makes the event count as if it
+   * happened earlier, so low-weight signals keep the user "active" for less time
+   */
+  record(source: ActivitySource): void {
+    const sourceConfig = this.getSources()[source];
+    if (!sourceConfig.enabled || sourceConfig.weight <= 0) {
+      return;
+    }
+
+    const timestamp = Date.now();
+    const event: ActivityEvent = {
+      source,
+      kind: SOURCE_KINDS[source],
+      timestamp,
+      effectiveAt: timestamp - (1 - sourceConfig.weight) * this.getIdleThresholdMs()
+    };
+
+    this.lastEvent = event;
+    this.onDidRecordActivityEmitter.fire(event);
+  }
+
+  /**
+   * Subscribe to all supported activity sources
+   */
+  private registerListeners(): void {
+    // Editor
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(event => {
+        // Output channels and other non-file documents change on their own
+        if (event.contentChanges.length > 0 && event.document.uri.scheme !== 'output') {
+          this.record('textEdit');
+        }
+      }),
+      vscode.window.onDidChangeTextEditorSelection(() => this.record('selection')),
+      vscode.window.onDidChangeActiveTextEditor(() => this.record('editorSwitch')),
+      vscode.window.onDidChangeTextEditorVisibleRanges(() => this.record('scroll')),
+      vscode.workspace.onDidSaveTextDocument(() => this.record('save'))
+    );
+
+    // Debugging
+    this.disposables.push(
+      vscode.debug.onDidStartDebugSession(() => this.record('debug')),
+      vscode.debug.onDidTerminateDebugSession(() => this.record('debug')),
+      vscode.debug.onDidChangeActiveStackItem(() => this.record('debug')),
+      vscode.debug.onDidChangeBreakpoints(() => this.record('debug'))
+    );
+
+    // Terminal
+    this.disposables.push(
+      vscode.window.onDidChangeTerminalState(() => this.record('terminal')),
+      vscode.window.onDidChangeActiveTerminal(() => this.record('terminal')),
+      vscode.window.onDidStartTerminalShellExecution(() => this.record('terminal')),
+      vscode.window.onDidEndTerminalShellExecution(() => this.record('terminal'))
+    );
+
+    // Notebooks
+    this.disposables.push(
+      vscode.workspace.onDidChangeNotebookDocument(() => this.record('notebook')),
+      vscode.window.onDidChangeNotebookEditorSelection(() => this.record('notebook')),
+      vscode.window.onDidChangeActiveNotebookEditor(() => this.record('notebook'))
+    );
+
+    // Window focus
+    this.disposables.push(
+      vscode.window.onDidChangeWindowState(state => {
+        if (state.focused) {
+          this.record('windowFocus');
+        }
+      })
+    );
+  }
+
+  /**
+   * Dispose of all listeners
+   */
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
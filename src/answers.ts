@@ -0,0 +1,110 @@
+import { QuestionDefinition, QuestionRole, SurveyAnswers } from './types';
+import { QuestionSchema } from './questions';
+
+/**
+ * Helpers for finding specific answers in survey results by question role
+ */
+export class AnswerExtractor {
+  /**
+   * Answer to the "what is blocking you" question
+   */
+  static findBlocker(survey: SurveyAnswers): string | undefined {
+    return this.findByRole(survey, 'blocker');
+  }
+
+  /**
+   * Answer to the "who can help" question
+   */
+  static findTeammate(survey: SurveyAnswers): string | undefined {
+    return this.findByRole(survey, 'helper');
+  }
+
+  /**
+   * Answer to the "what task are you working on" question
+   */
+  static findTask(survey: SurveyAnswers): string | undefined {
+    return this.findByRole(survey, 'task');
+  }
+
+  /**
+   * Answer to the "next step" question
+   */
+  static findNextStep(survey: SurveyAnswers): string | undefined {
+    return this.findByRole(survey, 'next_step');
+  }
+
+  /**
+   * Answer to the "how is your mood" question
+   */
+  static findMood(survey: SurveyAnswers): string | undefined {
+    return this.findByRole(survey, 'mood');
+  }
+
+  /**
+   * Answer to the "how much time will it take" question
+   */
+  static findEstimate(survey: SurveyAnswers): string | undefined {
+    return this.findByRole(survey, 'estimate');
+  }
+
+  /**
+   * Check whether an answer carries no information ("don't know", skipped, empty)
+   */
+  static isEmptyAnswer(answer: string | undefined): boolean {
+    if (!answer) {
+      return true;
+    }
+
+    const normalized = answer.trim().toLowerCase();
+    return normalized.length === 0 ||
+      normalized === 'don\'t know' ||
+      normalized === 'не знаю' ||
+      normalized === '(пропущено)' ||
+      normalized === '(skipped)';
+  }
+
+  /**
+   * Check whether a question's skip rule matches the answers given so far (by question id).
+   * Questions whose earlier question wasn't asked are never skipped
+   */
+  static shouldSkip(question: QuestionDefinition, answersById: Map<string, string>): boolean {
+    const rule = question.skipIf;
+    const answer = rule ? answersById.get(rule.question) : undefined;
+    if (!rule || answer === undefined) {
+      return false;
+    }
+
+    if (rule.empty && this.isEmptyAnswer(answer)) {
+      return true;
+    }
+
+    const normalized = this.normalizeForMatch(answer);
+    return !!rule.answers?.some(expected => this.normalizeForMatch(expected) === normalized);
+  }
+
+  /**
+   * Role of each question. Surveys saved before questions had roles fall back to the wording
+   */
+  static getRoles(survey: SurveyAnswers): QuestionRole[] {
+    return survey.questionRoles && survey.questionRoles.length === survey.questions.length
+      ? survey.questionRoles
+      : survey.questions.map(question => QuestionSchema.inferRole(question));
+  }
+
+  /**
+   * Find the first meaningful answer to a question with the role
+   */
+  static findByRole(survey: SurveyAnswers, role: QuestionRole): string | undefined {
+    const roles = this.getRoles(survey);
+    for (let i = 0; i < roles.length && i < survey.answers.length; i++) {
+      if (roles[i] === role) {
+        return this.isEmptyAnswer(survey.answers[i]) ? undefined : survey.answers[i].trim();
+      }
+    }
+    return undefined;
+  }
+
+  private static normalizeForMatch(answer: string): string {
+    return answer.trim().toLowerCase().replace(/[.!?\s]+$/u, '');
+  }
+}
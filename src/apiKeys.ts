@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { ApiKeyKind, LlmProviderKind } from './types';
+import { Localization } from './localization';
+
+// Settings level that can hold the legacy key, and where to remove it from
+type SettingsLevel = [vscode.WorkspaceConfiguration, 'globalValue' | 'workspaceValue' | 'workspaceFolderValue', vscode.ConfigurationTarget];
+
+/**
+ * API keys in VS Code secret storage. Keys are cached after loading, so
+ * configuration can be read synchronously; changes from other windows update the cache
+ */
+export class ApiKeyStore {
+  static readonly SET_COMMAND = 'task-nudge.setApiKey';
+
+  private static readonly SECRET_KEYS: Record<ApiKeyKind, string> = {
+    llm: 'taskNudge.apiKey.llm',
+    tts: 'taskNudge.apiKey.tts'
+  };
+
+  // Plain-text setting used by older versions
+  private static readonly LEGACY_SETTING = 'openaiApiKey';
+
+  private static secrets: vscode.SecretStorage | undefined;
+  private static cache: Partial<Record<ApiKeyKind, string>> = {};
+  private static readonly onDidChangeEmitter = new vscode.EventEmitter<ApiKeyKind>();
+
+  /**
+   * Fires when a key is set, cleared or changed from another window
+   */
+  static readonly onDidChange = ApiKeyStore.onDidChangeEmitter.event;
+
+  /**
+   * Read the stored keys and keep them up to date
+   */
+  static async load(context: vscode.ExtensionContext): Promise<void> {
+    this.secrets = context.secrets;
+    context.subscriptions.push(context.secrets.onDidChange(async event => {
+      const kind = (Object.keys(this.SECRET_KEYS) as ApiKeyKind[]).find(k => this.SECRET_KEYS[k] === event.key);
+      if (kind) {
+        await this.read(kind);
+        this.onDidChangeEmitter.fire(kind);
+      }
+    }));
+
+    await Promise.all((Object.keys(this.SECRET_KEYS) as ApiKeyKind[]).map(kind => this.read(kind)));
+  }
+
+  /**
+   * Stored key, or an empty string
+   */
+  static get(kind: ApiKeyKind): string {
+    return this.cache[kind] || '';
+  }
+
+  /**
+   * Key for OpenAI speech: the separate TTS key, or the LLM key when the provider is OpenAI itself
+   */
+  static getVoiceKey(provider: LlmProviderKind): string {
+    return this.get('tts') || (provider === 'openai' ? this.get('llm') : '');
+  }
+
+  static async set(kind: ApiKeyKind, value: string): Promise<void> {
+    if (!this.secrets) {
+      throw new Error('Secret storage is not loaded');
+    }
+    await this.secrets.store(this.SECRET_KEYS[kind], value);
+    this.cache[kind] = value;
+    this.onDidChangeEmitter.fire(kind);
+  }
+
+  static async clear(kind: ApiKeyKind): Promise<void> {
+    if (!this.secrets) {
+      throw new Error('Secret storage is not loaded');
+    }
+    await this.secrets.delete(this.SECRET_KEYS[kind]);
+    delete this.cache[kind];
+    this.onDidChangeEmitter.fire(kind);
+  }
+
+  /**
+   * Move a key from the `taskNudge.openaiApiKey` setting into secret storage and
+   * remove it from every settings level, warning that it may have leaked
+   */
+  static async migrateFromSettings(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('taskNudge');
+    // Most specific first: folders of a multi-root workspace, the workspace, then user settings
+    const levels: SettingsLevel[] = [
+      ...(vscode.workspace.workspaceFolders ?? []).map((folder): SettingsLevel => [
+        vscode.workspace.getConfiguration('taskNudge', folder.uri),
+        'workspaceFolderValue',
+        vscode.ConfigurationTarget.WorkspaceFolder
+      ]),
+      [config, 'workspaceValue', vscode.ConfigurationTarget.Workspace],
+      [config, 'globalValue', vscode.ConfigurationTarget.Global]
+    ];
+
+    const stored = levels
+      .map(([scoped, field, target]) => ({ scoped, field, target, value: scoped.inspect<string>(this.LEGACY_SETTING)?.[field]?.trim() }))
+      .filter(level => level.value);
+    // The most specific level is the one that was in effect
+    const value = stored[0]?.value;
+    if (!value) {
+      return;
+    }
+
+    await this.set('llm', value);
+    for (const { scoped, field, target } of stored) {
+      try {
+        await scoped.update(this.LEGACY_SETTING, undefined, target);
+        console.log(`Moved taskNudge.${this.LEGACY_SETTING} (${field}) to secret storage`);
+      } catch (error) {
+        console.error(`Failed to remove taskNudge.${this.LEGACY_SETTING} from settings:`, error);
+      }
+    }
+
+    // Not awaited: activation waits for the migration, not for the user
+    const replace = Localization.t('Set a new key...');
+    vscode.window.showWarningMessage(
+      Localization.t('Task Nudge moved your API key from settings to secure storage. If your settings are synced or committed to a repository, revoke that key and set a new one.'),
+      replace
+    ).then(choice => {
+      if (choice === replace) {
+        return vscode.commands.executeCommand(this.SET_COMMAND);
+      }
+    }, () => undefined);
+  }
+
+  private static async read(kind: ApiKeyKind): Promise<void> {
+    try {
+      const value = await this.secrets?.get(this.SECRET_KEYS[kind]);
+      if (value) {
+        this.cache[kind] = value;
+      } else {
+        delete this.cache[kind];
+      }
+    } catch (error) {
+      console.error(`Failed to read the ${kind} API key:`, error);
+    }
+  }
+}
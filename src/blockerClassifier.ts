@@ -0,0 +1,115 @@
+import { BlockerClassification, BlockerType, SurveyAnswers } from './types';
+import { AnswerExtractor } from './answers';
+import { OpenAIManager } from './openai';
+
+/**
+ * Suggests a blocker type from the survey answers, with the LLM when it is
+ * configured and with keyword heuristics otherwise
+ */
+export class BlockerClassifier {
+  private static readonly BLOCKER_TYPES: BlockerType[] = ['none', 'waiting_for_person', 'waiting_for_process', 'other'];
+
+  private static readonly NOTHING = /^(?:nothing|none|no|nope|n\/a|na|-|nothing blocks me|nothing is blocking me|all good|ничего|нет|ничто|ничего не блокирует|все ок|всё ок|все хорошо|всё хорошо)$/u;
+
+  private static readonly WAITING = /wait|blocked (?:by|on)|жд[уеаё]|ожида|заблокирован/u;
+
+  // Processes, with the name used as the subject
+  private static readonly PROCESSES: Array<[RegExp, string]> = [
+    [/(?<!\p{L})ci(?!\p{L})|pipeline|пайплайн|github actions|jenkins/u, 'CI pipeline'],
+    [/deploy|деплой|выкатк|release|релиз/u, 'deploy'],
+    [/(?<!\p{L})build|сборк|compil|компиляц/u, 'build'],
+    [/tests? (?:are )?running|test run|test suite|прогон тестов|тесты (?:идут|гоняются|прогоняются)/u, 'test run'],
+    [/staging|стейджинг|стенд/u, 'staging'],
+    [/merge queue|очередь на мерж/u, 'merge queue'],
+    [/migration|миграц/u, 'migration'],
+    [/install|download|скачива|установк/u, 'install']
+  ];
+
+  private static readonly PERSON = /review|ревью|reply|respon|answer from|ответ|approv|апрув|feedback|фидбек|обратн\S* связ|colleague|коллег|teammate|manager|менеджер|тимлид|(?<!\p{L})lead|designer|дизайнер|заказчик|client|customer|(?<!\p{L})qa(?!\p{L})|тестировщик|@\w/u;
+
+  // Name after "waiting for", "from", "жду от"... Starts with a capital letter or @
+  private static readonly PERSON_NAME = /(?<!\p{L})(?:waiting (?:for|on)|blocked (?:by|on)|from|жду(?: ответа| ревью| фидбек)?(?: от)?|от)\s+(@[\w.-]+|[A-ZА-ЯЁ][\p{L}'-]+(?:\s+[A-ZА-ЯЁ][\p{L}'-]+)?)/u;
+
+  /**
+   * Classify with the LLM when it is configured, falling back to the local classifier
+   */
+  static async classify(survey: SurveyAnswers, openaiManager: OpenAIManager): Promise<BlockerClassification> {
+    const local = this.classifyLocally(survey);
+    const blocker = AnswerExtractor.findBlocker(survey);
+    if (!blocker || !openaiManager.isConfigured()) {
+      return local;
+    }
+
+    const response = await openaiManager.classifyBlocker(blocker, AnswerExtractor.findTeammate(survey));
+    return (response && this.parseResponse(response)) || local;
+  }
+
+  /**
+   * Keyword and heuristic classification of the blocker answer
+   */
+  static classifyLocally(survey: SurveyAnswers): BlockerClassification {
+    const blocker = AnswerExtractor.findBlocker(survey);
+    const teammate = AnswerExtractor.findTeammate(survey);
+
+    if (!blocker) {
+      // Not asked or "don't know" - nothing to go on
+      return { type: 'none', confidence: 0.3, source: 'local' };
+    }
+
+    const text = blocker.toLowerCase().replace(/ё/g, 'е').trim();
+    if (this.NOTHING.test(text.replace(/[.!]+$/u, ''))) {
+      return { type: 'none', confidence: 0.9, source: 'local' };
+    }
+
+    const waiting = this.WAITING.test(text);
+    // Names are recognized by their capital letter, so only the sentence start is lowercased
+    const name = (blocker.charAt(0).toLowerCase() + blocker.slice(1)).match(this.PERSON_NAME)?.[1];
+    const process = this.PROCESSES.find(([pattern]) => pattern.test(text))?.[1];
+
+    // A named person wins over a process ("waiting for Alex to review the deploy")
+    if (name && (waiting || this.PERSON.test(text))) {
+      return { type: 'waiting_for_person', confidence: 0.85, subject: name, source: 'local' };
+    }
+    if (process) {
+      return { type: 'waiting_for_process', confidence: waiting ? 0.85 : 0.6, subject: process, source: 'local' };
+    }
+    if (this.PERSON.test(text)) {
+      return { type: 'waiting_for_person', confidence: waiting ? 0.75 : 0.6, subject: name || teammate, source: 'local' };
+    }
+    if (waiting) {
+      return { type: 'waiting_for_person', confidence: 0.5, subject: name || teammate, source: 'local' };
+    }
+
+    return { type: 'other', confidence: 0.5, source: 'local' };
+  }
+
+  /**
+   * Read the LLM's JSON answer. Returns undefined if it isn't a valid classification
+   */
+  static parseResponse(response: string): BlockerClassification | undefined {
+    const json = response.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) {
+      return undefined;
+    }
+
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      return undefined;
+    }
+
+    if (!this.BLOCKER_TYPES.includes(data.type as BlockerType)) {
+      return undefined;
+    }
+
+    const confidence = typeof data.confidence === 'number' && Number.isFinite(data.confidence)
+      ? Math.min(Math.max(data.confidence, 0), 1)
+      : 0.5;
+    const subject = typeof data.subject === 'string' && data.subject.trim() && data.type !== 'none' && data.type !== 'other'
+      ? data.subject.trim()
+      : undefined;
+
+    return { type: data.type as BlockerType, confidence, subject, source: 'llm' };
+  }
+}
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import { ActiveBlocker, BlockerFollowUpConfig, BlockerRecord, BlockerType, SessionState } from './types';
+import { Localization } from './localization';
+
+/**
+ * Tracks what the developer is waiting on, for how long, and when to follow up
+ */
+export class BlockerTracker {
+  private static readonly HISTORY_KEY = 'taskNudge.blockerHistory';
+  private static readonly MAX_HISTORY = 500;
+
+  constructor(private context: vscode.ExtensionContext) {}
+
+  /**
+   * Update the active blocker from a new blocker type. Starts, replaces or ends
+   * the active blocker and records ended blockers in history
+   */
+  async update(
+    state: SessionState,
+    blockerType: BlockerType,
+    subject?: string,
+    description?: string,
+    now: number = Date.now()
+  ): Promise<void> {
+    const active = state.activeBlocker;
+
+    if (blockerType === 'none') {
+      if (active) {
+        await this.endActive(state, 'resolved', now);
+      }
+      return;
+    }
+
+    // Same blocker continues - just refresh the details
+    if (active && active.type === blockerType && (!subject || subject === active.subject)) {
+      active.description = description || active.description;
+      return;
+    }
+
+    if (active) {
+      await this.endActive(state, 'replaced', now);
+    }
+
+    state.activeBlocker = {
+      type: blockerType,
+      subject,
+      description,
+      startedAt: now
+    };
+  }
+
+  /**
+   * Mark the active blocker as resolved
+   */
+  async resolve(state: SessionState, now: number = Date.now()): Promise<BlockerRecord | undefined> {
+    if (!state.activeBlocker) {
+      return undefined;
+    }
+    return this.endActive(state, 'resolved', now);
+  }
+
+  /**
+   * Check whether it is time to suggest a follow-up for the active blocker
+   */
+  shouldFollowUp(state: SessionState, config: BlockerFollowUpConfig, now: number = Date.now()): boolean {
+    const active = state.activeBlocker;
+    if (!config.enabled || !active || active.type !== 'waiting_for_person') {
+      return false;
+    }
+
+    if (now - active.startedAt < config.afterMinutes * 60 * 1000) {
+      return false;
+    }
+
+    return !active.lastFollowUpAt || now - active.lastFollowUpAt >= config.repeatMinutes * 60 * 1000;
+  }
+
+  /**
+   * Remember that a follow-up was suggested
+   */
+  markFollowedUp(state: SessionState, now: number = Date.now()): void {
+    if (state.activeBlocker) {
+      state.activeBlocker.lastFollowUpAt = now;
+    }
+  }
+
+  /**
+   * Get recorded blocker history, newest first
+   */
+  getHistory(): BlockerRecord[] {
+    return [...this.context.workspaceState.get<BlockerRecord[]>(BlockerTracker.HISTORY_KEY, [])].reverse();
+  }
+
+  /**
+   * End the active blocker and store it in history
+   */
+  private async endActive(
+    state: SessionState,
+    resolution: BlockerRecord['resolution'],
+    now: number
+  ): Promise<BlockerRecord | undefined> {
+    const active = state.activeBlocker;
+    if (!active) {
+      return undefined;
+    }
+
+    const record: BlockerRecord = {
+      ...active,
+      endedAt: now,
+      resolution
+    };
+
+    const history = this.context.workspaceState.get<BlockerRecord[]>(BlockerTracker.HISTORY_KEY, []);
+    await this.context.workspaceState.update(
+      BlockerTracker.HISTORY_KEY,
+      [...history, record].slice(-BlockerTracker.MAX_HISTORY)
+    );
+
+    state.activeBlocker = null;
+    return record;
+  }
+
+  /**
+   * Describe who or what the blocker is about
+   */
+  static describeSubject(blocker: ActiveBlocker): string {
+    if (blocker.subject) {
+      return blocker.subject;
+    }
+    switch (blocker.type) {
+      case 'waiting_for_person':
+        return Localization.t('a teammate');
+      case 'waiting_for_process':
+        return Localization.t('a process');
+      default:
+        return blocker.description || Localization.t('a blocker');
+    }
+  }
+
+  /**
+   * Format a duration as "2h 15m" / "45m"
+   */
+  static formatDuration(ms: number): string {
+    const totalMinutes = Math.max(0, Math.round(ms / 60000));
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+
+    if (hours === 0) {
+      return Localization.t('{0}m', minutes);
+    }
+    return minutes === 0 ? Localization.t('{0}h', hours) : Localization.t('{0}h {1}m', hours, minutes);
+  }
+}
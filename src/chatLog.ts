@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { ChatLogEntry, DateRangeFilter } from './types';
+import { JsonlFile } from './jsonl';
+import { HistoryStore } from './history';
+
+/**
+ * Persistent transcript of the sidebar chat
+ */
+export class ChatLogStore {
+  private file: JsonlFile<ChatLogEntry>;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.file = new JsonlFile<ChatLogEntry>(path.join(context.globalStorageUri.fsPath, 'chat.jsonl'));
+  }
+
+  /**
+   * Append a chat message to the transcript
+   */
+  async record(role: ChatLogEntry['role'], content: string): Promise<void> {
+    try {
+      await this.file.append({
+        id: randomUUID(),
+        timestamp: Date.now(),
+        workspace: HistoryStore.getWorkspaceName(),
+        role,
+        content
+      });
+    } catch (error) {
+      console.error('Failed to write chat transcript:', error);
+    }
+  }
+
+  /**
+   * Query chat messages by date range and workspace, oldest first
+   */
+  async query(filter: DateRangeFilter = {}): Promise<ChatLogEntry[]> {
+    let entries: ChatLogEntry[];
+    try {
+      entries = await this.file.readAll();
+    } catch (error) {
+      console.error('Failed to read chat transcript:', error);
+      return [];
+    }
+
+    return entries
+      .filter(entry =>
+        (filter.from === undefined || entry.timestamp >= filter.from) &&
+        (filter.to === undefined || entry.timestamp < filter.to) &&
+        (filter.workspace === undefined || entry.workspace === filter.workspace)
+      )
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Add imported messages, skipping ones that are already in the transcript.
+   * Returns how many were added
+   */
+  async import(entries: ChatLogEntry[]): Promise<number> {
+    return this.file.appendNew(entries, entry => entry.id);
+  }
+}
@@ -0,0 +1,86 @@
+import { LlmUsage } from './types';
+
+/**
+ * Reads a streamed chat completion: server-sent events with one JSON chunk per
+ * `data:` line, ending with `data: [DONE]`. Chunks from the network can split
+ * lines anywhere, so incomplete lines are kept until the rest arrives
+ */
+export class ChatStreamParser {
+  content = '';
+  finishReason: string | undefined;
+  usage: LlmUsage | undefined; // From the last chunk, when requested with stream_options.include_usage
+  done = false;
+
+  private buffer = '';
+
+  /**
+   * Feed decoded text from the response body. Returns the answer text it added
+   */
+  push(chunk: string): string {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+
+    let added = '';
+    for (const line of lines) {
+      added += this.readLine(line);
+    }
+    return added;
+  }
+
+  /**
+   * Read what is left once the body has ended
+   */
+  flush(): string {
+    const rest = this.buffer;
+    this.buffer = '';
+    return this.readLine(rest);
+  }
+
+  /**
+   * Token usage from a completion or the last chunk of a stream
+   */
+  static readUsage(usage: any): LlmUsage | undefined {
+    if (!usage || typeof usage !== 'object') {
+      return undefined;
+    }
+    return {
+      promptTokens: Number(usage.prompt_tokens) || 0,
+      completionTokens: Number(usage.completion_tokens) || 0
+    };
+  }
+
+  private readLine(line: string): string {
+    const trimmed = line.trim();
+    // Blank lines separate events, ":" starts a comment (keep-alives)
+    if (!trimmed.startsWith('data:') || this.done) {
+      return '';
+    }
+
+    const data = trimmed.slice('data:'.length).trim();
+    if (data === '[DONE]') {
+      this.done = true;
+      return '';
+    }
+
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      console.error('Skipping malformed stream event:', data);
+      return '';
+    }
+
+    this.usage = ChatStreamParser.readUsage(event?.usage) ?? this.usage;
+
+    // Azure sends an empty choices list first, with content filter results
+    const choice = event?.choices?.[0];
+    if (choice?.finish_reason) {
+      this.finishReason = choice.finish_reason;
+    }
+
+    const text = typeof choice?.delta?.content === 'string' ? choice.delta.content : '';
+    this.content += text;
+    return text;
+  }
+}
@@ -1,24 +1,66 @@
 import * as vscode from 'vscode';
 import { OpenAIManager } from './openai';
+import { ChatLogStore } from './chatLog';
+import { BlockerClassification, BlockerType, ChatResponse, LlmConfig, LlmErrorAction, SurveyDraft, SurveyForm, SurveyFormResult, TaskContext } from './types';
+import { Localization } from './localization';
+import { DEFAULT_LLM_CONFIG } from './config';
+import { LlmError } from './llmErrors';
+
+interface ChatContext {
+  task: TaskContext | null;
+  blockerType: BlockerType;
+}
+
+type BlockerSuggester = (answers: Record<string, string>) => Promise<BlockerClassification>;
+
+interface PendingSurvey {
+  form: SurveyForm;
+  suggestBlocker?: BlockerSuggester;
+  resolve: (result: SurveyFormResult | undefined) => void;
+}
 
 /**
  * Chat view provider for sidebar panel
  */
 export class ChatViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'task-nudge-chat-view';
+  private static readonly DRAFT_KEY = 'taskNudge.surveyDraft';
+  private static readonly DRAFT_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+  // Messages the webview script translates with t()
+  private static readonly WEBVIEW_STRINGS = [
+    'Check-in · {0} / {1}', 'Back', 'Submit', 'Next', 'Later', 'An answer is required',
+    'You\'ve been waiting on {0}. Is it resolved?', 'Yes, resolved', 'No, still waiting', 'Your answer...',
+    'Yes', 'No', 'Don\'t know', 'Skip', '(skipped)', 'What is blocking your work right now?',
+    'Suggested from your answers: {0} ({1}% confident)', 'Suggesting from your answers...',
+    'Who are you waiting on? e.g. Alex (code review)', 'What are you waiting for? e.g. CI pipeline',
+    'Review your answers', 'Blocker resolved', 'Blocker', 'Edit', 'Chat cleared. Ready for a new conversation!'
+  ];
+
   private view?: vscode.WebviewView;
+  private pendingSurvey?: PendingSurvey;
   private openaiManager: OpenAIManager;
+  private chatAbort?: AbortController; // For the answer being streamed
+  private getChatContext?: () => ChatContext; // For the {{task}} and {{blockerType}} prompt variables
   private chatHistory: Array<{ role: 'user' | 'assistant', content: string, timestamp: Date }> = [];
 
   constructor(
     private readonly extensionUri: vscode.Uri,
-    private context: vscode.ExtensionContext
+    private context: vscode.ExtensionContext,
+    private chatLogStore?: ChatLogStore
   ) {
-    this.openaiManager = new OpenAIManager('');
+    this.openaiManager = new OpenAIManager(DEFAULT_LLM_CONFIG);
+  }
+
+  public updateLlmConfig(llm: LlmConfig): void {
+    this.openaiManager = new OpenAIManager(llm);
   }
 
-  public updateOpenAIKey(apiKey: string): void {
-    this.openaiManager = new OpenAIManager(apiKey);
+  /**
+   * Where the chat prompt gets the current task and blocker from
+   */
+  public setChatContext(getContext: () => ChatContext): void {
+    this.getChatContext = getContext;
   }
 
   public resolveWebviewView(
@@ -44,10 +86,111 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         case 'clearChat':
           await this.clearChat();
           break;
+        case 'stopResponse':
+          this.chatAbort?.abort();
+          break;
+        case 'errorAction':
+          await this.runErrorAction(data.action);
+          break;
+        case 'ready':
+          // The webview is recreated when the view is hidden and shown again
+          await this.postSurvey();
+          break;
+        case 'suggestBlocker':
+          await this.suggestBlocker(data.formId, data.key, data.answers);
+          break;
+        case 'surveyDraft':
+          await this.saveDraft(data.formId, data.step, data.values);
+          break;
+        case 'surveySubmit':
+          await this.finishSurvey(data.formId, {
+            answers: data.answers,
+            blockerResolved: data.blockerResolved,
+            blockerType: data.blockerType,
+            blockerSubject: data.blockerSubject
+          });
+          break;
+        case 'surveyCancel':
+          await this.finishSurvey(data.formId, undefined);
+          break;
       }
     });
   }
 
+  /**
+   * Show the survey as a form in the chat and wait until it is submitted (result)
+   * or put off (undefined). Partial answers are kept as a draft until submitted.
+   * suggestBlocker preselects the blocker type from the answers
+   */
+  public showSurvey(form: SurveyForm, suggestBlocker?: BlockerSuggester): Promise<SurveyFormResult | undefined> {
+    // A newer survey replaces one that was never answered, and so does its draft
+    this.pendingSurvey?.resolve(undefined);
+    const draft = this.context.workspaceState.get<SurveyDraft>(ChatViewProvider.DRAFT_KEY);
+    if (draft && draft.formId !== form.id) {
+      this.context.workspaceState.update(ChatViewProvider.DRAFT_KEY, undefined).then(undefined, error => {
+        console.error('Failed to clear survey draft:', error);
+      });
+    }
+
+    return new Promise(resolve => {
+      this.pendingSurvey = { form, suggestBlocker, resolve };
+      this.postSurvey().catch(error => console.error('Failed to show survey form:', error));
+    });
+  }
+
+  /**
+   * Send the pending survey and its draft to the webview
+   */
+  private async postSurvey(): Promise<void> {
+    if (!this.view || !this.pendingSurvey) {
+      return;
+    }
+
+    const form = this.pendingSurvey.form;
+    const draft = this.context.workspaceState.get<SurveyDraft>(ChatViewProvider.DRAFT_KEY);
+    const usableDraft = draft && draft.formId === form.id && Date.now() - draft.savedAt < ChatViewProvider.DRAFT_MAX_AGE_MS
+      ? draft
+      : undefined;
+
+    await this.view.webview.postMessage({ command: 'showSurvey', form, draft: usableDraft });
+  }
+
+  private async suggestBlocker(formId: string, key: string, answers: Record<string, string>): Promise<void> {
+    const pending = this.pendingSurvey;
+    if (!pending?.suggestBlocker || pending.form.id !== formId) {
+      return;
+    }
+
+    try {
+      const suggestion = await pending.suggestBlocker(answers);
+      await this.view?.webview.postMessage({ command: 'blockerSuggestion', formId, key, suggestion });
+    } catch (error) {
+      console.error('Failed to classify blocker:', error);
+    }
+  }
+
+  private async saveDraft(formId: string, step: number, values: SurveyDraft['values']): Promise<void> {
+    if (this.pendingSurvey?.form.id !== formId) {
+      return;
+    }
+    const draft: SurveyDraft = { formId, savedAt: Date.now(), step, values };
+    await this.context.workspaceState.update(ChatViewProvider.DRAFT_KEY, draft);
+  }
+
+  private async finishSurvey(formId: string, result: SurveyFormResult | undefined): Promise<void> {
+    const pending = this.pendingSurvey;
+    if (!pending || pending.form.id !== formId) {
+      return;
+    }
+
+    this.pendingSurvey = undefined;
+    if (result) {
+      await this.context.workspaceState.update(ChatViewProvider.DRAFT_KEY, undefined);
+    }
+    await this.view?.webview.postMessage({ command: 'hideSurvey' });
+    pending.resolve(result);
+  }
+
   /**
    * Add debug message to chat
    */
@@ -87,6 +230,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
 
     this.chatHistory.push({ role: 'assistant', content: message, timestamp: new Date() });
+    await this.chatLogStore?.record('assistant', message);
 
     await this.view.webview.postMessage({
       command: 'addAssistantMessage',
@@ -121,6 +265,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     // Add user message to history and UI
     this.chatHistory.push({ role: 'user', content: userMessage, timestamp: new Date() });
+    await this.chatLogStore?.record('user', userMessage);
 
     await this.view.webview.postMessage({
       command: 'addUserMessage',
@@ -128,39 +273,122 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       timestamp: new Date().toLocaleTimeString()
     });
 
-    // Generate AI response
+    await this.respond();
+  }
+
+  /**
+   * Answer the last user message in the history
+   */
+  private async respond(): Promise<void> {
+    if (!this.view) {
+      return;
+    }
+
+    // A new question replaces an answer that is still streaming
+    this.chatAbort?.abort();
+    const abort = new AbortController();
+    this.chatAbort = abort;
+
+    // Generate AI response, streaming it into the view
+    const view = this.view;
     try {
-      await this.view.webview.postMessage({ command: 'showTyping' });
+      await view.webview.postMessage({ command: 'showTyping' });
 
-      const aiResponse = await this.generateChatResponse(userMessage);
+      const aiResponse = await this.generateChatResponse(text => {
+        if (!abort.signal.aborted) {
+          view.webview.postMessage({ command: 'assistantDelta', content: text });
+        }
+      }, abort.signal);
 
-      await this.view.webview.postMessage({ command: 'hideTyping' });
-      await this.addAssistantMessage(aiResponse);
+      // Cleared while streaming - nothing to finish
+      if (this.chatAbort !== abort) {
+        return;
+      }
+      await this.finishAssistantMessage(aiResponse);
     } catch (error) {
-      await this.view.webview.postMessage({ command: 'hideTyping' });
-      await this.addAssistantMessage('Sorry, I\'m having connection issues with AI. Please check your API key in settings.');
       console.error('Chat AI response failed:', error);
+      await this.finishAssistantMessage({
+        content: '',
+        truncated: false,
+        stopped: false,
+        error: LlmError.fromException(error).toFailure()
+      });
+    } finally {
+      if (this.chatAbort === abort) {
+        this.chatAbort = undefined;
+      }
+    }
+  }
+
+  /**
+   * Complete the streamed answer in the view and keep it in the history.
+   * An answer stopped before any text arrived is dropped. A failed answer is
+   * replaced by an error with an action; neither goes into the history, so the
+   * model never sees them and the question can be retried
+   */
+  private async finishAssistantMessage(response: ChatResponse): Promise<void> {
+    if (!this.view) {
+      return;
+    }
+
+    const content = response.error ? '' : response.content;
+    if (content) {
+      this.chatHistory.push({ role: 'assistant', content, timestamp: new Date() });
+      await this.chatLogStore?.record('assistant', content);
+    }
+
+    await this.view.webview.postMessage({
+      command: 'endAssistantStream',
+      content,
+      timestamp: new Date().toLocaleTimeString()
+    });
+
+    if (response.error) {
+      await this.view.webview.postMessage({
+        command: 'showChatError',
+        message: response.error.message,
+        action: response.error.action,
+        actionLabel: response.error.actionLabel,
+        timestamp: new Date().toLocaleTimeString()
+      });
+    }
+
+    if (response.truncated) {
+      await this.addSystemMessage(Localization.t('The answer hit the token limit. Raise "maxTokens" for "chat" in the taskNudge.llm.models setting for longer answers.'));
+    }
+  }
+
+  /**
+   * Run the action of a chat error: answer the last question again or open the fix
+   */
+  private async runErrorAction(action: LlmErrorAction): Promise<void> {
+    if (action === 'retry') {
+      if (this.chatHistory[this.chatHistory.length - 1]?.role === 'user') {
+        await this.respond();
+      }
+      return;
+    }
+
+    const command = LlmError.getCommand(action);
+    if (command) {
+      await vscode.commands.executeCommand(...command);
     }
   }
 
   /**
-   * Generate AI response for chat
+   * Generate AI response for chat, passing text on as it arrives
    */
-  private async generateChatResponse(userMessage: string): Promise<string> {
-    // Build context from recent chat history
-    const recentHistory = this.chatHistory.slice(-6);
+  private async generateChatResponse(onDelta: (text: string) => void, signal: AbortSignal): Promise<ChatResponse> {
+    // Build context from recent chat history, which ends with the question
+    const recentHistory = this.chatHistory.slice(-7);
 
+    const context = this.getChatContext?.();
     const messages = [
-      {
-        role: 'system' as const,
-        content: 'You are a friendly developer assistant in the Task Nudge extension. You help with tasks, give advice, and provide support. Answer concisely and to the point in English.'
-      },
-      ...recentHistory.map(msg => ({ role: msg.role, content: msg.content })),
-      { role: 'user' as const, content: userMessage }
+      this.openaiManager.buildChatSystemMessage(context?.task, context?.blockerType),
+      ...recentHistory.map(msg => ({ role: msg.role, content: msg.content }))
     ];
 
-    const response = await this.openaiManager.generateChatResponse(messages);
-    return response || 'Could not generate response. Please try rephrasing your question.';
+    return this.openaiManager.generateChatResponse(messages, onDelta, signal);
   }
 
   /**
@@ -168,6 +396,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
    */
   private async clearChat(): Promise<void> {
     this.chatHistory = [];
+    this.chatAbort?.abort();
+    this.chatAbort = undefined;
     if (this.view) {
       await this.view.webview.postMessage({ command: 'clearMessages' });
     }
@@ -176,7 +406,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
   private getHtmlForWebview(webview: vscode.Webview) {
     return `
     <!DOCTYPE html>
-    <html lang="ru">
+    <html lang="${Localization.getLanguage()}">
     <head>
         <meta charset="UTF-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -235,6 +465,28 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 border: 1px solid var(--vscode-badge-background);
             }
 
+            .error-message {
+                background: var(--vscode-inputValidation-errorBackground);
+                color: var(--vscode-foreground);
+                border: 1px solid var(--vscode-inputValidation-errorBorder);
+                font-size: 12px;
+            }
+
+            .error-action {
+                margin-top: 6px;
+                padding: 2px 8px;
+                background: var(--vscode-button-background);
+                color: var(--vscode-button-foreground);
+                border: none;
+                border-radius: 2px;
+                cursor: pointer;
+                font-size: 12px;
+            }
+
+            .error-action:hover {
+                background: var(--vscode-button-hoverBackground);
+            }
+
             .debug-message {
                 background: var(--vscode-terminal-selectionBackground);
                 color: var(--vscode-terminal-foreground);
@@ -326,7 +578,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 gap: 6px;
             }
 
-            .send-button, .clear-button {
+            .send-button, .clear-button, .stop-button {
                 padding: 6px 12px;
                 border: none;
                 border-radius: 3px;
@@ -343,7 +595,21 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 color: var(--vscode-button-secondaryForeground);
             }
 
-            .send-button:hover, .clear-button:hover {
+            .stop-button {
+                display: none;
+                background: var(--vscode-button-secondaryBackground);
+                color: var(--vscode-button-secondaryForeground);
+            }
+
+            .streaming .send-button {
+                display: none;
+            }
+
+            .streaming .stop-button {
+                display: block;
+            }
+
+            .send-button:hover, .clear-button:hover, .stop-button:hover {
                 opacity: 0.8;
             }
 
@@ -380,29 +646,113 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 font-size: 24px;
                 margin-bottom: 8px;
             }
+
+            .survey-container {
+                display: none;
+                max-height: 60vh;
+                overflow-y: auto;
+                margin-bottom: 8px;
+                padding: 8px;
+                border: 1px solid var(--vscode-focusBorder);
+                border-radius: 6px;
+                background: var(--vscode-editor-background);
+                font-size: 13px;
+            }
+
+            .survey-container.visible {
+                display: block;
+            }
+
+            .survey-progress {
+                font-size: 11px;
+                opacity: 0.7;
+                margin-bottom: 4px;
+            }
+
+            .survey-question {
+                font-weight: bold;
+                margin-bottom: 8px;
+            }
+
+            .survey-chips {
+                display: flex;
+                flex-wrap: wrap;
+                gap: 4px;
+                margin: 6px 0;
+            }
+
+            .survey-chip {
+                padding: 3px 10px;
+                border: 1px solid var(--vscode-button-border, var(--vscode-panel-border));
+                border-radius: 12px;
+                background: var(--vscode-button-secondaryBackground);
+                color: var(--vscode-button-secondaryForeground);
+                cursor: pointer;
+                font-family: inherit;
+                font-size: 12px;
+            }
+
+            .survey-chip.selected {
+                background: var(--vscode-button-background);
+                color: var(--vscode-button-foreground);
+            }
+
+            .survey-scale-labels {
+                display: flex;
+                justify-content: space-between;
+                font-size: 11px;
+                opacity: 0.7;
+            }
+
+            .survey-review-item {
+                display: flex;
+                justify-content: space-between;
+                gap: 8px;
+                padding: 4px 0;
+                border-bottom: 1px solid var(--vscode-widget-border);
+            }
+
+            .survey-review-answer {
+                opacity: 0.8;
+            }
+
+            .survey-edit {
+                color: var(--vscode-textLink-foreground);
+                cursor: pointer;
+                white-space: nowrap;
+            }
+
+            .survey-error {
+                color: var(--vscode-errorForeground);
+                font-size: 12px;
+                min-height: 16px;
+            }
         </style>
     </head>
     <body>
         <div class="chat-container" id="chatContainer">
             <div class="intro-message">
                 <div class="icon">🤖</div>
-                <div>Hello! I'm your AI assistant.</div>
-                <div>Ask questions about tasks and get advice!</div>
+                <div>${Localization.t('Hello! I\'m your AI assistant.')}</div>
+                <div>${Localization.t('Ask questions about tasks and get advice!')}</div>
                 <div style="margin-top: 8px; font-size: 11px; opacity: 0.8;">
-                    Chat activates after the first Task Nudge survey
+                    ${Localization.t('Chat activates after the first Task Nudge survey')}
                 </div>
             </div>
         </div>
 
+        <div class="survey-container" id="surveyContainer"></div>
+
         <div class="typing-indicator" id="typingIndicator">
-            AI is typing...
+            ${Localization.t('AI is typing...')}
         </div>
 
-        <div class="input-container">
-            <textarea class="message-input" id="messageInput" placeholder="Type a message..."></textarea>
+        <div class="input-container" id="inputContainer">
+            <textarea class="message-input" id="messageInput" placeholder="${Localization.t('Type a message...')}"></textarea>
             <div class="button-row">
-                <button class="send-button" id="sendButton">Send</button>
-                <button class="clear-button" id="clearButton">Clear</button>
+                <button class="send-button" id="sendButton">${Localization.t('Send')}</button>
+                <button class="stop-button" id="stopButton">${Localization.t('Stop')}</button>
+                <button class="clear-button" id="clearButton">${Localization.t('Clear')}</button>
             </div>
         </div>
 
@@ -412,12 +762,22 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             const messageInput = document.getElementById('messageInput');
             const sendButton = document.getElementById('sendButton');
             const clearButton = document.getElementById('clearButton');
+            const stopButton = document.getElementById('stopButton');
+            const inputContainer = document.getElementById('inputContainer');
             const typingIndicator = document.getElementById('typingIndicator');
+            let streamingMessage = null; // Assistant message receiving streamed text
+
+            // Messages in the UI language, keyed by the English text
+            const STRINGS = ${Localization.forWebview(ChatViewProvider.WEBVIEW_STRINGS)};
+            function t(message, ...args) {
+                const text = STRINGS[message] || message;
+                return text.replace(/\\{(\\d+)\\}/g, (placeholder, index) => index < args.length ? String(args[index]) : placeholder);
+            }
 
             // Send message function
             function sendMessage() {
                 const text = messageInput.value.trim();
-                if (!text) return;
+                if (!text || inputContainer.classList.contains('streaming')) return;
 
                 vscode.postMessage({
                     command: 'sendMessage',
@@ -447,6 +807,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 vscode.postMessage({ command: 'clearChat' });
             });
 
+            stopButton.addEventListener('click', () => {
+                vscode.postMessage({ command: 'stopResponse' });
+            });
+
             // Handle messages from extension
             window.addEventListener('message', event => {
                 const message = event.data;
@@ -472,14 +836,470 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                         break;
                     case 'showTyping':
                         typingIndicator.classList.add('visible');
+                        inputContainer.classList.add('streaming');
                         scrollToBottom();
                         break;
+                    case 'assistantDelta':
+                        appendToStream(message.content);
+                        break;
+                    case 'endAssistantStream':
+                        endStream(message.content, message.timestamp);
+                        break;
+                    case 'showChatError':
+                        addErrorMessage(message);
+                        break;
                     case 'hideTyping':
                         typingIndicator.classList.remove('visible');
                         break;
+                    case 'showSurvey':
+                        showSurvey(message.form, message.draft);
+                        break;
+                    case 'hideSurvey':
+                        hideSurvey();
+                        break;
+                    case 'blockerSuggestion':
+                        applyBlockerSuggestion(message);
+                        break;
                 }
             });
 
+            // Check-in survey form
+            const surveyContainer = document.getElementById('surveyContainer');
+            const DONT_KNOW = "Don't know";
+            const SKIPPED = '(skipped)';
+            // Answers are saved in English, like the quick pick answers
+            const FIXED_ANSWERS = [DONT_KNOW, SKIPPED, 'Yes', 'No'];
+            let survey = null;
+            let draftTimer = null;
+
+            function showSurvey(form, draft) {
+                survey = {
+                    form: form,
+                    values: draft ? draft.values : {},
+                    step: draft ? draft.step : 0,
+                    error: '',
+                    suggestion: null,
+                    suggestionKey: null
+                };
+                // Prefill defaults that the draft doesn't override
+                for (const question of form.questions) {
+                    if (survey.values[question.id] === undefined && question.default !== undefined) {
+                        survey.values[question.id] = defaultValue(question);
+                    }
+                }
+                surveyContainer.classList.add('visible');
+                renderSurvey();
+            }
+
+            function hideSurvey() {
+                survey = null;
+                surveyContainer.classList.remove('visible');
+                surveyContainer.innerHTML = '';
+            }
+
+            function defaultValue(question) {
+                switch (question.type) {
+                    case 'scale': return question.default + '/5';
+                    case 'yesno': return question.default ? 'Yes' : 'No';
+                    case 'multi': return Array.isArray(question.default) ? question.default : [question.default];
+                    default: return String(question.default);
+                }
+            }
+
+            function isEmptyAnswer(answer) {
+                const normalized = (answer || '').trim().toLowerCase();
+                return !normalized || normalized === "don't know" || normalized === 'не знаю' ||
+                    normalized === '(пропущено)' || normalized === SKIPPED;
+            }
+
+            function normalizeForMatch(answer) {
+                return answer.trim().toLowerCase().replace(/[.!?\\s]+$/u, '');
+            }
+
+            // Answer text as it is saved, or undefined if nothing was entered
+            function answerFor(question) {
+                const value = survey.values[question.id];
+                if (value === undefined) {
+                    return undefined;
+                }
+                if (Array.isArray(value)) {
+                    return value.length > 0 ? value.join(', ') : undefined;
+                }
+                return value.trim() ? value.trim() : undefined;
+            }
+
+            // Same rule as the extension: skip when the earlier answer matches
+            function isSkipped(question, given) {
+                const rule = question.skipIf;
+                const answer = rule ? given[rule.question] : undefined;
+                if (!rule || answer === undefined) {
+                    return false;
+                }
+                if (rule.empty && isEmptyAnswer(answer)) {
+                    return true;
+                }
+                return (rule.answers || []).some(expected => normalizeForMatch(expected) === normalizeForMatch(answer));
+            }
+
+            function surveySteps() {
+                const steps = [];
+                const given = {};
+                if (survey.form.activeBlocker) {
+                    steps.push({ kind: 'resolved' });
+                }
+                for (const question of survey.form.questions) {
+                    if (isSkipped(question, given)) {
+                        continue;
+                    }
+                    given[question.id] = answerFor(question) || SKIPPED;
+                    steps.push({ kind: 'question', question: question });
+                }
+                // An unresolved blocker carries over, so there's nothing to ask
+                if (!survey.form.activeBlocker || survey.values.$resolved !== 'no') {
+                    steps.push({ kind: 'blocker' });
+                }
+                steps.push({ kind: 'review' });
+                return steps;
+            }
+
+            function setValue(key, value, rerender) {
+                survey.values[key] = value;
+                survey.error = '';
+                clearTimeout(draftTimer);
+                draftTimer = setTimeout(saveDraft, rerender ? 0 : 500);
+                if (rerender) {
+                    renderSurvey();
+                }
+            }
+
+            function saveDraft() {
+                if (survey) {
+                    vscode.postMessage({ command: 'surveyDraft', formId: survey.form.id, step: survey.step, values: survey.values });
+                }
+            }
+
+            function goTo(step) {
+                survey.step = step;
+                survey.error = '';
+                saveDraft();
+                renderSurvey();
+            }
+
+            function element(tag, className, text) {
+                const node = document.createElement(tag);
+                if (className) {
+                    node.className = className;
+                }
+                if (text !== undefined) {
+                    node.textContent = text;
+                }
+                return node;
+            }
+
+            function chip(label, selected, onClick, title) {
+                const button = element('button', 'survey-chip' + (selected ? ' selected' : ''), label);
+                if (title) {
+                    button.title = title;
+                }
+                button.addEventListener('click', onClick);
+                return button;
+            }
+
+            function button(label, className, onClick) {
+                const node = element('button', className, label);
+                node.addEventListener('click', onClick);
+                return node;
+            }
+
+            function isStepComplete(step) {
+                if (step.kind === 'resolved') {
+                    return survey.values.$resolved !== undefined;
+                }
+                if (step.kind === 'question' && step.question.required) {
+                    const answer = answerFor(step.question);
+                    return answer !== undefined && !isEmptyAnswer(answer);
+                }
+                return true;
+            }
+
+            function renderSurvey() {
+                if (!survey) {
+                    return;
+                }
+
+                const steps = surveySteps();
+                survey.step = Math.min(Math.max(survey.step, 0), steps.length - 1);
+                const step = steps[survey.step];
+
+                surveyContainer.innerHTML = '';
+                surveyContainer.appendChild(element('div', 'survey-progress',
+                    t('Check-in · {0} / {1}', survey.step + 1, steps.length)));
+
+                if (step.kind === 'blocker' || step.kind === 'review') {
+                    requestBlockerSuggestion(steps);
+                }
+
+                if (step.kind === 'resolved') {
+                    renderResolvedStep();
+                } else if (step.kind === 'question') {
+                    renderQuestionStep(step.question);
+                } else if (step.kind === 'blocker') {
+                    renderBlockerStep(steps);
+                } else {
+                    renderReviewStep(steps);
+                }
+
+                surveyContainer.appendChild(element('div', 'survey-error', survey.error));
+
+                const buttons = element('div', 'button-row');
+                if (survey.step > 0) {
+                    buttons.appendChild(button(t('Back'), 'clear-button', () => goTo(survey.step - 1)));
+                }
+                if (step.kind === 'review') {
+                    buttons.appendChild(button(t('Submit'), 'send-button', submitSurvey));
+                } else {
+                    buttons.appendChild(button(t('Next'), 'send-button', () => {
+                        if (!isStepComplete(step)) {
+                            survey.error = t('An answer is required');
+                            renderSurvey();
+                            return;
+                        }
+                        goTo(survey.step + 1);
+                    }));
+                }
+                buttons.appendChild(button(t('Later'), 'clear-button', () => {
+                    saveDraft();
+                    vscode.postMessage({ command: 'surveyCancel', formId: survey.form.id });
+                }));
+                surveyContainer.appendChild(buttons);
+            }
+
+            function renderResolvedStep() {
+                surveyContainer.appendChild(element('div', 'survey-question',
+                    t("You've been waiting on {0}. Is it resolved?", survey.form.activeBlocker)));
+                const chips = element('div', 'survey-chips');
+                chips.appendChild(chip(t('Yes, resolved'), survey.values.$resolved === 'yes', () => setValue('$resolved', 'yes', true)));
+                chips.appendChild(chip(t('No, still waiting'), survey.values.$resolved === 'no', () => setValue('$resolved', 'no', true)));
+                surveyContainer.appendChild(chips);
+            }
+
+            function renderQuestionStep(question) {
+                surveyContainer.appendChild(element('div', 'survey-question', question.text + (question.required ? ' *' : '')));
+                const value = survey.values[question.id];
+                const chips = element('div', 'survey-chips');
+
+                if (question.type === 'text') {
+                    const input = element('textarea', 'message-input');
+                    input.placeholder = t('Your answer...');
+                    input.value = typeof value === 'string' && value !== DONT_KNOW && value !== SKIPPED ? value : '';
+                    input.addEventListener('input', () => setValue(question.id, input.value, false));
+                    input.addEventListener('keydown', (e) => {
+                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                            e.preventDefault();
+                            goTo(survey.step + 1);
+                        }
+                    });
+                    surveyContainer.appendChild(input);
+                    setTimeout(() => input.focus(), 0);
+                    if (!question.required) {
+                        chips.appendChild(chip('🤷 ' + t(DONT_KNOW), value === DONT_KNOW, () => setValue(question.id, DONT_KNOW, true)));
+                    }
+                } else if (question.type === 'scale') {
+                    for (let score = 1; score <= 5; score++) {
+                        const answer = score + '/5';
+                        chips.appendChild(chip(String(score), value === answer, () => setValue(question.id, answer, true)));
+                    }
+                } else if (question.type === 'single') {
+                    for (const option of question.options || []) {
+                        chips.appendChild(chip(option, value === option, () => setValue(question.id, option, true)));
+                    }
+                } else if (question.type === 'multi') {
+                    const picked = Array.isArray(value) ? value : [];
+                    for (const option of question.options || []) {
+                        const selected = picked.includes(option);
+                        chips.appendChild(chip(option, selected, () => setValue(question.id,
+                            selected ? picked.filter(item => item !== option) : picked.concat([option]), true)));
+                    }
+                } else if (question.type === 'yesno') {
+                    chips.appendChild(chip(t('Yes'), value === 'Yes', () => setValue(question.id, 'Yes', true)));
+                    chips.appendChild(chip(t('No'), value === 'No', () => setValue(question.id, 'No', true)));
+                }
+
+                if (!question.required && question.type !== 'multi') {
+                    chips.appendChild(chip(t('Skip'), value === SKIPPED, () => setValue(question.id, SKIPPED, true)));
+                }
+                surveyContainer.appendChild(chips);
+
+                if (question.type === 'scale' && (question.lowLabel || question.highLabel)) {
+                    const labels = element('div', 'survey-scale-labels');
+                    labels.appendChild(element('span', '', question.lowLabel || ''));
+                    labels.appendChild(element('span', '', question.highLabel || ''));
+                    surveyContainer.appendChild(labels);
+                }
+            }
+
+            // Ask the extension to classify the blocker whenever the answers change
+            function requestBlockerSuggestion(steps) {
+                const answers = collectAnswers(steps);
+                const key = JSON.stringify(answers);
+                if (key === survey.suggestionKey) {
+                    return;
+                }
+                survey.suggestionKey = key;
+                survey.suggestion = null;
+                vscode.postMessage({ command: 'suggestBlocker', formId: survey.form.id, key: key, answers: answers });
+            }
+
+            function applyBlockerSuggestion(message) {
+                if (!survey || message.formId !== survey.form.id || message.key !== survey.suggestionKey) {
+                    return;
+                }
+                survey.suggestion = message.suggestion;
+                // A choice the user made takes precedence over the suggestion
+                if (survey.values.$blockerManual !== 'yes') {
+                    survey.values.$blockerType = message.suggestion.type;
+                    if (message.suggestion.subject) {
+                        survey.values.$blockerSubject = message.suggestion.subject;
+                    } else {
+                        delete survey.values.$blockerSubject;
+                    }
+                    saveDraft();
+                }
+                renderSurvey();
+            }
+
+            function choiceLabel(blockerType) {
+                const choice = survey.form.blockerChoices.find(c => c.blockerType === blockerType);
+                return choice ? choice.label : blockerType;
+            }
+
+            function renderBlockerStep(steps) {
+                surveyContainer.appendChild(element('div', 'survey-question', t('What is blocking your work right now?')));
+                const blockerType = survey.values.$blockerType;
+                if (survey.suggestion) {
+                    surveyContainer.appendChild(element('div', 'survey-progress', t('Suggested from your answers: {0} ({1}% confident)',
+                        choiceLabel(survey.suggestion.type), Math.round(survey.suggestion.confidence * 100))));
+                } else if (blockerType === undefined) {
+                    surveyContainer.appendChild(element('div', 'survey-progress', t('Suggesting from your answers...')));
+                }
+                const chips = element('div', 'survey-chips');
+                for (const choice of survey.form.blockerChoices) {
+                    chips.appendChild(chip(choice.label, blockerType === choice.blockerType, () => {
+                        survey.values.$blockerManual = 'yes';
+                        setValue('$blockerType', choice.blockerType, true);
+                    }, choice.detail));
+                }
+                surveyContainer.appendChild(chips);
+
+                if (blockerType === 'waiting_for_person' || blockerType === 'waiting_for_process') {
+                    const input = element('input', 'message-input');
+                    input.style.minHeight = '0';
+                    input.placeholder = blockerType === 'waiting_for_person'
+                        ? t('Who are you waiting on? e.g. Alex (code review)')
+                        : t('What are you waiting for? e.g. CI pipeline');
+                    input.value = survey.values.$blockerSubject !== undefined
+                        ? survey.values.$blockerSubject
+                        : blockerType === 'waiting_for_person' ? helperAnswer(steps) : '';
+                    input.addEventListener('input', () => {
+                        survey.values.$blockerManual = 'yes';
+                        setValue('$blockerSubject', input.value, false);
+                    });
+                    surveyContainer.appendChild(input);
+                }
+            }
+
+            // Suggest the "who can help" answer as the person being waited on
+            function helperAnswer(steps) {
+                for (const step of steps) {
+                    if (step.kind === 'question' && step.question.role === 'helper') {
+                        const answer = answerFor(step.question);
+                        return answer && !isEmptyAnswer(answer) ? answer : '';
+                    }
+                }
+                return '';
+            }
+
+            function renderReviewStep(steps) {
+                surveyContainer.appendChild(element('div', 'survey-question', t('Review your answers')));
+                steps.forEach((step, index) => {
+                    let label;
+                    let answer;
+                    if (step.kind === 'resolved') {
+                        label = t('Blocker resolved');
+                        answer = survey.values.$resolved === 'yes' ? t('Yes') : t('No');
+                    } else if (step.kind === 'question') {
+                        label = step.question.text;
+                        answer = answerLabel(answerFor(step.question) || SKIPPED);
+                    } else if (step.kind === 'blocker') {
+                        const type = survey.values.$blockerType;
+                        label = t('Blocker');
+                        answer = type === undefined
+                            ? t('Suggesting from your answers...')
+                            : choiceLabel(type) + (blockerSubject(steps) ? ': ' + blockerSubject(steps) : '');
+                    } else {
+                        return;
+                    }
+
+                    const item = element('div', 'survey-review-item');
+                    const text = element('div');
+                    text.appendChild(element('div', '', label));
+                    text.appendChild(element('div', 'survey-review-answer', answer));
+                    item.appendChild(text);
+                    const edit = element('span', 'survey-edit', t('Edit'));
+                    edit.addEventListener('click', () => goTo(index));
+                    item.appendChild(edit);
+                    surveyContainer.appendChild(item);
+                });
+            }
+
+            function answerLabel(answer) {
+                return FIXED_ANSWERS.includes(answer) ? t(answer) : answer;
+            }
+
+            function blockerSubject(steps) {
+                const type = survey.values.$blockerType;
+                if (type !== 'waiting_for_person' && type !== 'waiting_for_process') {
+                    return undefined;
+                }
+                const subject = survey.values.$blockerSubject !== undefined
+                    ? survey.values.$blockerSubject
+                    : type === 'waiting_for_person' ? helperAnswer(steps) : '';
+                return subject.trim() || undefined;
+            }
+
+            function collectAnswers(steps) {
+                const answers = {};
+                for (const step of steps) {
+                    if (step.kind === 'question') {
+                        answers[step.question.id] = answerFor(step.question) || SKIPPED;
+                    }
+                }
+                return answers;
+            }
+
+            function submitSurvey() {
+                const steps = surveySteps();
+                const incomplete = steps.findIndex(step => !isStepComplete(step));
+                if (incomplete >= 0) {
+                    survey.step = incomplete;
+                    survey.error = t('An answer is required');
+                    renderSurvey();
+                    return;
+                }
+
+                const answers = collectAnswers(steps);
+                const asksBlocker = steps.some(step => step.kind === 'blocker');
+
+                vscode.postMessage({
+                    command: 'surveySubmit',
+                    formId: survey.form.id,
+                    answers: answers,
+                    blockerResolved: survey.form.activeBlocker ? survey.values.$resolved === 'yes' : undefined,
+                    blockerType: asksBlocker ? survey.values.$blockerType : undefined,
+                    blockerSubject: asksBlocker ? blockerSubject(steps) : undefined
+                });
+            }
+
             function addMessage(content, type, timestamp) {
                 const messageDiv = document.createElement('div');
                 messageDiv.className = \`message \${type}-message\`;
@@ -489,14 +1309,67 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 messageDiv.appendChild(contentDiv);
 
                 if (timestamp) {
-                    const timestampDiv = document.createElement('div');
-                    timestampDiv.className = 'timestamp';
-                    timestampDiv.textContent = timestamp;
-                    messageDiv.appendChild(timestampDiv);
+                    addTimestamp(messageDiv, timestamp);
                 }
 
                 chatContainer.appendChild(messageDiv);
                 scrollToBottom();
+                return messageDiv;
+            }
+
+            function addTimestamp(messageDiv, timestamp) {
+                const timestampDiv = document.createElement('div');
+                timestampDiv.className = 'timestamp';
+                timestampDiv.textContent = timestamp;
+                messageDiv.appendChild(timestampDiv);
+            }
+
+            function appendToStream(text) {
+                typingIndicator.classList.remove('visible');
+                if (!streamingMessage) {
+                    streamingMessage = addMessage('', 'assistant');
+                }
+                streamingMessage.firstChild.textContent += text;
+                scrollToBottom();
+            }
+
+            // The final text replaces the streamed one; an empty answer removes the message
+            function endStream(content, timestamp) {
+                typingIndicator.classList.remove('visible');
+                inputContainer.classList.remove('streaming');
+
+                if (!streamingMessage) {
+                    if (content) {
+                        addMessage(content, 'assistant', timestamp);
+                    }
+                    return;
+                }
+
+                if (content) {
+                    streamingMessage.firstChild.textContent = content;
+                    addTimestamp(streamingMessage, timestamp);
+                } else {
+                    streamingMessage.remove();
+                }
+                streamingMessage = null;
+                scrollToBottom();
+            }
+
+            // Failed answer with a button to fix it; the button is gone once used
+            function addErrorMessage(error) {
+                const messageDiv = addMessage('⚠️ ' + error.message, 'error');
+                if (error.action) {
+                    const actionButton = document.createElement('button');
+                    actionButton.className = 'error-action';
+                    actionButton.textContent = error.actionLabel;
+                    actionButton.addEventListener('click', () => {
+                        actionButton.remove();
+                        vscode.postMessage({ command: 'errorAction', action: error.action });
+                    });
+                    messageDiv.appendChild(actionButton);
+                }
+                addTimestamp(messageDiv, error.timestamp);
+                scrollToBottom();
             }
 
             function addCollapsibleMessage(title, content, timestamp) {
@@ -556,7 +1429,11 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             }
 
             function clearMessages() {
-                chatContainer.innerHTML = '<div class="intro-message"><div class="icon">🤖</div><div>Chat cleared. Ready for a new conversation!</div></div>';
+                streamingMessage = null;
+                typingIndicator.classList.remove('visible');
+                inputContainer.classList.remove('streaming');
+                chatContainer.innerHTML = '<div class="intro-message"><div class="icon">🤖</div><div></div></div>';
+                chatContainer.querySelector('.intro-message div:last-child').textContent = t('Chat cleared. Ready for a new conversation!');
             }
 
             function scrollToBottom() {
@@ -565,6 +1442,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
             // Focus input on load
             messageInput.focus();
+
+            // Ask for a survey that may be waiting for this view
+            vscode.postMessage({ command: 'ready' });
         </script>
     </body>
     </html>`;
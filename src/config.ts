@@ -1,5 +1,64 @@
 import * as vscode from 'vscode';
-import { ExtensionConfig } from './types';
+import { ActivitySource, ActivitySourceConfig, ExtensionConfig, LlmConfig, LlmModelSettings, LlmProviderKind, LlmUseCase, ModelPrice, QuestionDefinition, UsageConfig } from './types';
+import { QuestionSchema } from './questions';
+import { ApiKeyStore } from './apiKeys';
+import { StateSchema } from './stateSchema';
+
+// Same as the taskNudge.questions default in package.json
+export const DEFAULT_QUESTIONS: QuestionDefinition[] = [
+  { id: 'task', role: 'task', text: 'What task are you currently working on?', type: 'text', required: true },
+  { id: 'mood', role: 'mood', text: 'How is your mood today?', type: 'scale', lowLabel: 'Awful', highLabel: 'Great' },
+  { id: 'blocker', role: 'blocker', text: 'What is blocking or challenging you right now?', type: 'text' },
+  { id: 'next-step', role: 'next_step', text: 'What is your next planned step?', type: 'text' },
+  {
+    id: 'helper',
+    role: 'helper',
+    text: 'Who can you reach out to for help?',
+    type: 'text',
+    skipIf: { question: 'blocker', answers: ['nothing', 'none', 'no', 'nope', 'n/a', 'ничего', 'нет'] }
+  },
+  { id: 'estimate', role: 'estimate', text: 'How much time do you estimate the current task will take?', type: 'text' }
+];
+
+export const DEFAULT_ACTIVITY_SOURCES: Record<ActivitySource, ActivitySourceConfig> = {
+  textEdit: { enabled: true, weight: 1 },
+  selection: { enabled: true, weight: 0.8 },
+  editorSwitch: { enabled: true, weight: 0.6 },
+  save: { enabled: true, weight: 1 },
+  scroll: { enabled: true, weight: 0.5 },
+  debug: { enabled: true, weight: 1 },
+  terminal: { enabled: true, weight: 1 },
+  notebook: { enabled: true, weight: 1 },
+  windowFocus: { enabled: true, weight: 0.2 }
+};
+
+export const DEFAULT_LLM_MODELS: Record<LlmUseCase, LlmModelSettings> = {
+  opening: { model: 'gpt-3.5-turbo', temperature: 0.7, maxTokens: 150 },
+  analysis: { model: 'gpt-3.5-turbo', temperature: 0.7, maxTokens: 150 },
+  chat: { model: 'gpt-3.5-turbo', temperature: 0.8, maxTokens: 1024 }
+};
+
+// No API key, so AI features stay off until the configuration is loaded
+export const DEFAULT_LLM_CONFIG: LlmConfig = {
+  provider: 'openai',
+  baseUrl: '',
+  apiKey: '',
+  apiVersion: '2024-06-01',
+  models: DEFAULT_LLM_MODELS,
+  timeoutSeconds: 30,
+  maxRetries: 2
+};
+
+// USD per million tokens (characters for speech) of OpenAI models, used unless taskNudge.usage.prices overrides them
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'tts-1': { input: 15, output: 0 },
+  'tts-1-hd': { input: 30, output: 0 }
+};
 
 /**
  * Configuration manager for Task Nudge extension
@@ -12,25 +71,161 @@ export class ConfigManager {
    */
   static getConfig(): ExtensionConfig {
     const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+    const questions = QuestionSchema.normalize(config.get<unknown[]>('questions', DEFAULT_QUESTIONS));
 
     return {
       enabled: config.get('enabled', true),
-      baseIntervalMinutes: config.get('baseIntervalMinutes', 15),
-      maxIntervalMinutes: config.get('maxIntervalMinutes', 60),
-      idleThresholdSeconds: config.get('idleThresholdSeconds', 180),
-      questions: config.get('questions', [
-        'Над какой задачей ты сейчас работаешь?',
-        'Что тебя сейчас блокирует или затрудняет?',
-        'Какой следующий шаг ты планируешь?',
-        'К кому можешь обратиться за помощью?',
-        'Сколько времени, по твоей оценке, займёт текущая задача?'
-      ]),
-      openaiApiKey: config.get('openaiApiKey', ''),
+      baseIntervalMinutes: Math.min(config.get('baseIntervalMinutes', 15), StateSchema.MAX_INTERVAL_MS / 60000),
+      maxIntervalMinutes: Math.min(config.get('maxIntervalMinutes', 60), StateSchema.MAX_INTERVAL_MS / 60000),
+      idleThresholdSeconds: Math.min(config.get('idleThresholdSeconds', 180), StateSchema.MAX_INTERVAL_MS / 1000),
+      questions,
+      llm: this.getLlmConfig(config),
       voiceEnabled: config.get('voiceEnabled', true),
-      voiceLanguage: config.get('voiceLanguage', 'ru')
+      voiceLanguage: config.get('voiceLanguage', 'ru'),
+      uiLanguage: config.get('uiLanguage', 'auto'),
+      workingHours: {
+        enabled: config.get('workingHours.enabled', false),
+        timeZone: config.get('workingHours.timeZone', ''),
+        schedule: config.get('workingHours.schedule', {
+          monday: ['09:00-18:00'],
+          tuesday: ['09:00-18:00'],
+          wednesday: ['09:00-18:00'],
+          thursday: ['09:00-18:00'],
+          friday: ['09:00-18:00']
+        }),
+        lunchBreak: config.get('workingHours.lunchBreak', ''),
+        daysOff: config.get('workingHours.daysOff', []),
+        outsideHours: config.get('workingHours.outsideHours', 'suppress')
+      },
+      morningPlanQuestions: QuestionSchema.normalize(config.get<unknown[]>('morningPlanQuestions', [])),
+      questionSets: QuestionSchema.normalizeSets(config.get<unknown[]>('questionSets', []), questions),
+      endOfDayMinutes: config.get('endOfDayMinutes', 60),
+      surveyMode: config.get('surveyMode', 'form'),
+      activitySources: this.getActivitySources(config),
+      processDetection: {
+        enabled: config.get('processDetection.enabled', true),
+        tasks: config.get('processDetection.tasks', true),
+        terminalCommands: config.get('processDetection.terminalCommands', true),
+        debugSessions: config.get('processDetection.debugSessions', true),
+        longRunningSeconds: config.get('processDetection.longRunningSeconds', 30),
+        mode: config.get('processDetection.mode', 'hold'),
+        maxHoldMinutes: config.get('processDetection.maxHoldMinutes', 60),
+        notifyOnFinish: config.get('processDetection.notifyOnFinish', true)
+      },
+      blockerFollowUp: {
+        enabled: config.get('blockerFollowUp.enabled', true),
+        afterMinutes: config.get('blockerFollowUp.afterMinutes', 120),
+        repeatMinutes: config.get('blockerFollowUp.repeatMinutes', 60)
+      },
+      standup: {
+        polishWithAI: config.get('standup.polishWithAI', false),
+        output: config.get('standup.output', 'ask')
+      },
+      usage: this.getUsageConfig(config),
+      prompts: config.get('prompts', {})
+    };
+  }
+
+  /**
+   * Merge user activity source settings with defaults
+   */
+  private static getActivitySources(config: vscode.WorkspaceConfiguration): Record<ActivitySource, ActivitySourceConfig> {
+    const stored = config.get<Partial<Record<ActivitySource, Partial<ActivitySourceConfig>>>>('activitySources', {});
+    const result = { ...DEFAULT_ACTIVITY_SOURCES };
+
+    for (const source of Object.keys(DEFAULT_ACTIVITY_SOURCES) as ActivitySource[]) {
+      const weight = stored[source]?.weight ?? DEFAULT_ACTIVITY_SOURCES[source].weight;
+      result[source] = {
+        enabled: stored[source]?.enabled ?? DEFAULT_ACTIVITY_SOURCES[source].enabled,
+        weight: Math.min(Math.max(weight, 0), 1)
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * LLM provider settings, with per use case model settings merged over the defaults
+   */
+  private static getLlmConfig(config: vscode.WorkspaceConfiguration): LlmConfig {
+    const stored = config.get<Partial<Record<LlmUseCase, Partial<LlmModelSettings>>>>('llm.models', {});
+    const models = { ...DEFAULT_LLM_MODELS };
+
+    for (const useCase of Object.keys(DEFAULT_LLM_MODELS) as LlmUseCase[]) {
+      const defaults = DEFAULT_LLM_MODELS[useCase];
+      const model = stored[useCase]?.model?.trim();
+      const temperature = stored[useCase]?.temperature ?? defaults.temperature;
+      const maxTokens = stored[useCase]?.maxTokens ?? defaults.maxTokens;
+      models[useCase] = {
+        model: model || defaults.model,
+        temperature: Math.min(Math.max(temperature, 0), 2),
+        maxTokens: Math.max(Math.round(maxTokens), 1)
+      };
+    }
+
+    return {
+      provider: config.get<LlmProviderKind>('llm.provider', DEFAULT_LLM_CONFIG.provider),
+      baseUrl: config.get('llm.baseUrl', DEFAULT_LLM_CONFIG.baseUrl).trim(),
+      apiKey: ApiKeyStore.get('llm'),
+      apiVersion: config.get('llm.apiVersion', DEFAULT_LLM_CONFIG.apiVersion).trim() || DEFAULT_LLM_CONFIG.apiVersion,
+      models,
+      timeoutSeconds: Math.max(config.get('llm.timeoutSeconds', DEFAULT_LLM_CONFIG.timeoutSeconds), 5),
+      maxRetries: Math.min(Math.max(Math.round(config.get('llm.maxRetries', DEFAULT_LLM_CONFIG.maxRetries)), 0), 5)
     };
   }
 
+  /**
+   * Budget caps and model prices, with user prices merged over the defaults
+   */
+  private static getUsageConfig(config: vscode.WorkspaceConfiguration): UsageConfig {
+    const stored = config.get<Record<string, Partial<ModelPrice>>>('usage.prices', {});
+    const prices = { ...DEFAULT_MODEL_PRICES };
+
+    for (const [model, price] of Object.entries(stored)) {
+      const input = Number(price?.input ?? 0);
+      const output = Number(price?.output ?? 0);
+      prices[model.trim()] = {
+        input: Number.isFinite(input) ? Math.max(input, 0) : 0,
+        output: Number.isFinite(output) ? Math.max(output, 0) : 0
+      };
+    }
+
+    return {
+      dailyBudget: Math.max(config.get('usage.dailyBudget', 0), 0),
+      monthlyBudget: Math.max(config.get('usage.monthlyBudget', 0), 0),
+      prices
+    };
+  }
+
+  /**
+   * Rewrite question lists saved as plain strings by older versions into
+   * question objects, at every settings level where they are set
+   */
+  static async migrateQuestionSettings(): Promise<void> {
+    const config = vscode.workspace.getConfiguration(this.CONFIG_SECTION);
+    const targets: Array<['globalValue' | 'workspaceValue' | 'workspaceFolderValue', vscode.ConfigurationTarget]> = [
+      ['globalValue', vscode.ConfigurationTarget.Global],
+      ['workspaceValue', vscode.ConfigurationTarget.Workspace],
+      ['workspaceFolderValue', vscode.ConfigurationTarget.WorkspaceFolder]
+    ];
+
+    for (const key of ['questions', 'morningPlanQuestions']) {
+      const inspected = config.inspect<unknown[]>(key);
+      for (const [field, target] of targets) {
+        const value = inspected?.[field];
+        if (!QuestionSchema.needsMigration(value)) {
+          continue;
+        }
+        try {
+          await config.update(key, QuestionSchema.normalize(value), target);
+          console.log(`Migrated taskNudge.${key} to question objects (${field})`);
+        } catch (error) {
+          console.error(`Failed to migrate taskNudge.${key}:`, error);
+        }
+      }
+    }
+  }
+
   /**
    * Watch for configuration changes
    */
@@ -0,0 +1,438 @@
+import { BlockerClassification, BlockerType, ChatLogEntry, CheckInRecord, ExportBundle, ExportFormat, GitSnapshotRecord } from './types';
+import { HistoryStore } from './history';
+import { StatusBarManager } from './statusBar';
+import { BlockerTracker } from './blockers';
+import { QuestionSchema } from './questions';
+import { Localization } from './localization';
+import { LocalDates } from './dates';
+
+/**
+ * Converts check-ins, chat transcripts and Git snapshots to and from export files
+ */
+export class DataExporter {
+  static readonly BUNDLE_VERSION = 1;
+
+  private static readonly BLOCKER_TYPES: BlockerType[] = ['none', 'waiting_for_person', 'waiting_for_process', 'other'];
+
+  private static readonly CSV_COLUMNS = [
+    'id', 'timestamp', 'date', 'workspace', 'task_id', 'outcome', 'blocker_type', 'blocker_subject', 'blocker_classification', 'interval_minutes', 'estimate_minutes',
+    'git_stuck', 'git_has_changes', 'git_description', 'git_new_files',
+    'questions', 'question_ids', 'question_roles', 'answers', 'opening_message', 'encouragement'
+  ];
+
+  /**
+   * File extension used for the format
+   */
+  static getFileExtension(format: ExportFormat): string {
+    return format === 'markdown' ? 'md' : format;
+  }
+
+  /**
+   * Serialize the bundle in the requested format.
+   * CSV only holds check-ins; the Markdown journal holds check-ins and chat
+   */
+  static serialize(bundle: ExportBundle, format: ExportFormat): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(bundle, null, 2) + '\n';
+      case 'csv':
+        return this.toCsv(bundle.checkIns);
+      case 'markdown':
+        return this.toMarkdown(bundle);
+    }
+  }
+
+  /**
+   * Parse an exported JSON bundle or CSV file. Malformed records are dropped and counted
+   */
+  static parse(content: string, fileName: string): { bundle: ExportBundle; invalid: number } {
+    // Excel and Notepad save UTF-8 with a byte order mark, which would end up in the first CSV column name
+    const text = content.replace(/^\ufeff/, '');
+    if (fileName.toLowerCase().endsWith('.csv')) {
+      return this.parseCsv(text);
+    }
+    return this.parseJson(text);
+  }
+
+  private static toCsv(checkIns: CheckInRecord[]): string {
+    const rows = checkIns.map(record => [
+      record.id,
+      String(record.timestamp),
+      new Date(record.timestamp).toISOString(),
+      record.workspace,
+      record.taskId ?? '',
+      record.outcome ?? 'completed',
+      record.blockerType,
+      record.blockerSubject ?? '',
+      record.blockerClassification ? JSON.stringify(record.blockerClassification) : '',
+      String(Math.round(record.intervalMs / 60000)),
+      record.estimateMinutes !== undefined ? String(record.estimateMinutes) : '',
+      String(record.gitAnalysis.isStuck),
+      String(record.gitAnalysis.hasChanges),
+      record.gitAnalysis.description,
+      JSON.stringify(record.gitAnalysis.newFiles),
+      JSON.stringify(record.questions),
+      record.questionIds ? JSON.stringify(record.questionIds) : '',
+      record.questionRoles ? JSON.stringify(record.questionRoles) : '',
+      JSON.stringify(record.answers),
+      record.openingMessage,
+      record.encouragement
+    ]);
+
+    return [this.CSV_COLUMNS, ...rows]
+      .map(row => row.map(cell => this.escapeCsv(cell)).join(','))
+      .join('\r\n') + '\r\n';
+  }
+
+  private static toMarkdown(bundle: ExportBundle): string {
+    const lines: string[] = [`# ${Localization.t('Task Nudge Journal')}`, ''];
+
+    const range = bundle.from !== undefined || bundle.to !== undefined
+      ? `${bundle.from !== undefined ? LocalDates.dateKey(bundle.from) : '…'} – ${bundle.to !== undefined ? LocalDates.dateKey(bundle.to - 1) : '…'}`
+      : Localization.t('All time');
+    lines.push(`_${range} · ${Localization.t('exported {0}', new Date(bundle.exportedAt).toLocaleString())}_`, '');
+
+    const days = new Map<string, { checkIns: CheckInRecord[]; chat: ChatLogEntry[] }>();
+    const getDay = (timestamp: number) => {
+      const key = LocalDates.dateKey(timestamp);
+      if (!days.has(key)) {
+        days.set(key, { checkIns: [], chat: [] });
+      }
+      return days.get(key)!;
+    };
+    bundle.checkIns.forEach(record => getDay(record.timestamp).checkIns.push(record));
+    bundle.chatMessages.forEach(entry => getDay(entry.timestamp).chat.push(entry));
+
+    if (days.size === 0) {
+      lines.push(Localization.t('No check-ins or chat messages in this range.'), '');
+    }
+
+    for (const [day, entries] of [...days.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`## ${day}`, '');
+
+      for (const record of entries.checkIns) {
+        lines.push(...this.describeCheckIn(record), '');
+      }
+
+      if (entries.chat.length > 0) {
+        lines.push(`### ${Localization.t('Chat')}`, '');
+        for (const entry of entries.chat) {
+          const speaker = entry.role === 'user' ? Localization.t('You') : Localization.t('Assistant');
+          lines.push(`- **${speaker}** (${this.timeOf(entry.timestamp)}): ${entry.content.replace(/\n+/g, ' ')}`);
+        }
+        lines.push('');
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private static describeCheckIn(record: CheckInRecord): string[] {
+    const outcome = record.outcome ?? 'completed';
+    const title = outcome === 'completed' ? Localization.t('Check-in')
+      : outcome === 'snoozed' ? Localization.t('Ping snoozed')
+      : Localization.t('Ping dismissed');
+    const lines = [`### ${this.timeOf(record.timestamp)} · ${title} · ${record.workspace}`, ''];
+
+    if (!HistoryStore.isCompleted(record)) {
+      return lines.slice(0, 1);
+    }
+
+    record.questions.forEach((question, index) => {
+      lines.push(`- **${question}** ${(record.answers[index] ?? '').replace(/\n+/g, ' ')}`.trimEnd());
+    });
+
+    if (record.blockerType !== 'none') {
+      const subject = record.blockerSubject ? ` (${record.blockerSubject})` : '';
+      lines.push(`- ${Localization.t('Blocker: {0}', StatusBarManager.describeBlocker(record.blockerType))}${subject}`);
+    }
+
+    if (record.estimateMinutes !== undefined) {
+      lines.push(`- ${Localization.t('Estimate: {0}', BlockerTracker.formatDuration(record.estimateMinutes * 60000))}`);
+    }
+
+    if (record.gitAnalysis.description) {
+      lines.push(`- Git: ${record.gitAnalysis.isStuck ? '⚠️ ' : ''}${record.gitAnalysis.description}`);
+    }
+
+    if (record.encouragement) {
+      lines.push('', `> ${record.encouragement.replace(/\n+/g, ' ')}`);
+    }
+
+    return lines;
+  }
+
+  private static parseJson(content: string): { bundle: ExportBundle; invalid: number } {
+    let data: Partial<ExportBundle>;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(Localization.t('The file is not valid JSON.'));
+    }
+
+    if (!data || typeof data !== 'object' || typeof data.version !== 'number') {
+      throw new Error(Localization.t('The file is not a Task Nudge export.'));
+    }
+    if (data.version > this.BUNDLE_VERSION) {
+      throw new Error(Localization.t('The export was made by a newer version of Task Nudge (format {0}).', data.version));
+    }
+
+    let invalid = 0;
+    const keep = <T>(items: unknown, normalize: (item: Record<string, unknown>) => T | undefined): T[] => {
+      if (!Array.isArray(items)) {
+        return [];
+      }
+      const result: T[] = [];
+      for (const item of items) {
+        const normalized = item && typeof item === 'object' ? normalize(item as Record<string, unknown>) : undefined;
+        if (normalized) {
+          result.push(normalized);
+        } else {
+          invalid++;
+        }
+      }
+      return result;
+    };
+
+    return {
+      bundle: {
+        version: data.version,
+        exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : Date.now(),
+        from: data.from,
+        to: data.to,
+        checkIns: keep(data.checkIns, item => this.normalizeCheckIn(item)),
+        chatMessages: keep(data.chatMessages, item => this.normalizeChatEntry(item)),
+        gitSnapshots: keep(data.gitSnapshots, item => this.normalizeSnapshot(item))
+      },
+      invalid
+    };
+  }
+
+  private static parseCsv(content: string): { bundle: ExportBundle; invalid: number } {
+    const [header, ...rows] = this.splitCsv(content).filter(row => row.some(cell => cell.trim() !== ''));
+    if (!header || !header.includes('id') || !header.includes('timestamp')) {
+      throw new Error(Localization.t('The CSV file has no Task Nudge header row.'));
+    }
+
+    const column = (row: string[], name: string) => this.unescapeFormula(row[header.indexOf(name)] ?? '');
+    const parseList = (value: string): unknown => {
+      try {
+        return JSON.parse(value || '[]');
+      } catch {
+        return undefined;
+      }
+    };
+
+    let invalid = 0;
+    const checkIns: CheckInRecord[] = [];
+
+    for (const row of rows) {
+      const record = this.normalizeCheckIn({
+        id: column(row, 'id'),
+        timestamp: Number(column(row, 'timestamp')),
+        workspace: column(row, 'workspace'),
+        taskId: column(row, 'task_id') || undefined,
+        outcome: column(row, 'outcome') || undefined,
+        questions: parseList(column(row, 'questions')),
+        questionIds: column(row, 'question_ids') ? parseList(column(row, 'question_ids')) : undefined,
+        questionRoles: column(row, 'question_roles') ? parseList(column(row, 'question_roles')) : undefined,
+        answers: parseList(column(row, 'answers')),
+        blockerType: column(row, 'blocker_type'),
+        blockerSubject: column(row, 'blocker_subject') || undefined,
+        blockerClassification: column(row, 'blocker_classification') ? parseList(column(row, 'blocker_classification')) : undefined,
+        gitAnalysis: {
+          isStuck: column(row, 'git_stuck') === 'true',
+          hasChanges: column(row, 'git_has_changes') === 'true',
+          description: column(row, 'git_description'),
+          newFiles: parseList(column(row, 'git_new_files'))
+        },
+        openingMessage: column(row, 'opening_message'),
+        encouragement: column(row, 'encouragement'),
+        intervalMs: Number(column(row, 'interval_minutes')) * 60000,
+        estimateMinutes: column(row, 'estimate_minutes') ? Number(column(row, 'estimate_minutes')) : undefined
+      });
+
+      if (record) {
+        checkIns.push(record);
+      } else {
+        invalid++;
+      }
+    }
+
+    return {
+      bundle: {
+        version: this.BUNDLE_VERSION,
+        exportedAt: Date.now(),
+        checkIns,
+        chatMessages: [],
+        gitSnapshots: []
+      },
+      invalid
+    };
+  }
+
+  /**
+   * Validate an imported check-in and fill in optional fields
+   */
+  private static normalizeCheckIn(item: Record<string, unknown>): CheckInRecord | undefined {
+    const gitAnalysis = (item.gitAnalysis && typeof item.gitAnalysis === 'object' ? item.gitAnalysis : {}) as Record<string, unknown>;
+    const outcome = item.outcome === 'snoozed' || item.outcome === 'dismissed' ? item.outcome : 'completed';
+
+    if (
+      typeof item.id !== 'string' || !item.id ||
+      !this.isTimestamp(item.timestamp) ||
+      !this.isStringArray(item.questions) ||
+      !this.isStringArray(item.answers)
+    ) {
+      return undefined;
+    }
+
+    return {
+      id: item.id,
+      timestamp: item.timestamp,
+      workspace: typeof item.workspace === 'string' && item.workspace ? item.workspace : HistoryStore.getWorkspaceName(),
+      taskId: typeof item.taskId === 'string' && item.taskId ? item.taskId : undefined,
+      outcome,
+      questions: item.questions,
+      questionIds: this.isStringArray(item.questionIds) && item.questionIds.length === item.questions.length ? item.questionIds : undefined,
+      questionRoles: this.isStringArray(item.questionRoles) && item.questionRoles.length === item.questions.length
+        ? item.questionRoles.map(role => QuestionSchema.isRole(role) ? role : 'custom')
+        : undefined,
+      answers: item.answers,
+      blockerType: this.BLOCKER_TYPES.includes(item.blockerType as BlockerType) ? item.blockerType as BlockerType : 'none',
+      blockerSubject: typeof item.blockerSubject === 'string' ? item.blockerSubject : undefined,
+      blockerClassification: this.normalizeClassification(item.blockerClassification),
+      gitAnalysis: {
+        isStuck: gitAnalysis.isStuck === true,
+        hasChanges: gitAnalysis.hasChanges === true,
+        description: typeof gitAnalysis.description === 'string' ? gitAnalysis.description : '',
+        newFiles: this.isStringArray(gitAnalysis.newFiles) ? gitAnalysis.newFiles : []
+      },
+      openingMessage: typeof item.openingMessage === 'string' ? item.openingMessage : '',
+      encouragement: typeof item.encouragement === 'string' ? item.encouragement : '',
+      intervalMs: typeof item.intervalMs === 'number' && Number.isFinite(item.intervalMs) ? item.intervalMs : 0,
+      estimateMinutes: typeof item.estimateMinutes === 'number' && item.estimateMinutes > 0 ? item.estimateMinutes : undefined
+    };
+  }
+
+  private static normalizeClassification(value: unknown): BlockerClassification | undefined {
+    const item = value as Partial<BlockerClassification> | undefined;
+    if (!item || typeof item !== 'object' || !this.BLOCKER_TYPES.includes(item.type as BlockerType) || typeof item.confidence !== 'number') {
+      return undefined;
+    }
+    return {
+      type: item.type as BlockerType,
+      confidence: Math.min(Math.max(item.confidence, 0), 1),
+      subject: typeof item.subject === 'string' ? item.subject : undefined,
+      source: item.source === 'llm' ? 'llm' : 'local'
+    };
+  }
+
+  private static normalizeChatEntry(item: Record<string, unknown>): ChatLogEntry | undefined {
+    if (
+      typeof item.id !== 'string' || !item.id ||
+      !this.isTimestamp(item.timestamp) ||
+      (item.role !== 'user' && item.role !== 'assistant') ||
+      typeof item.content !== 'string'
+    ) {
+      return undefined;
+    }
+
+    return {
+      id: item.id,
+      timestamp: item.timestamp,
+      workspace: typeof item.workspace === 'string' && item.workspace ? item.workspace : HistoryStore.getWorkspaceName(),
+      role: item.role,
+      content: item.content
+    };
+  }
+
+  private static normalizeSnapshot(item: Record<string, unknown>): GitSnapshotRecord | undefined {
+    if (typeof item.id !== 'string' || !item.id || !this.isTimestamp(item.timestamp) || !this.isStringArray(item.changedFiles)) {
+      return undefined;
+    }
+
+    return {
+      id: item.id,
+      timestamp: item.timestamp,
+      workspace: typeof item.workspace === 'string' && item.workspace ? item.workspace : HistoryStore.getWorkspaceName(),
+      taskId: typeof item.taskId === 'string' && item.taskId ? item.taskId : undefined,
+      changedFiles: item.changedFiles,
+      additions: typeof item.additions === 'number' ? item.additions : 0,
+      deletions: typeof item.deletions === 'number' ? item.deletions : 0,
+      summary: typeof item.summary === 'string' ? item.summary : ''
+    };
+  }
+
+  /**
+   * Split CSV content (RFC 4180: quoted cells, doubled quotes, CRLF or LF) into rows
+   */
+  private static splitCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  private static escapeCsv(value: string): string {
+    // Spreadsheets run cells starting with = + - @ as formulas, a leading ' keeps them text
+    const text = /^'*[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  /**
+   * Drop the ' that escapeCsv put in front of a formula-like cell
+   */
+  private static unescapeFormula(value: string): string {
+    return /^'+[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+  }
+
+  private static isTimestamp(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0;
+  }
+
+  private static isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+
+  private static timeOf(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Calendar days in the local time zone, for grouping records and time by day
+ */
+export class LocalDates {
+  /**
+   * Local day of the timestamp as YYYY-MM-DD
+   */
+  static dateKey(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
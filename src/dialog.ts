@@ -1,31 +1,105 @@
 import * as vscode from 'vscode';
-import { ExtensionConfig, QuestionDialogResult, BlockerType } from './types';
+import { ExtensionConfig, LlmConfig, LlmErrorKind, ApiKeyKind, BlockerType, PingDialogOutcome, SnoozeRequest, ActiveBlocker, DateRangeFilter, TaskContext, QuestionDefinition, SurveyAnswers, SurveyForm, SurveyFormResult, BlockerChoice, BlockerClassification } from './types';
 import { OpenAIManager } from './openai';
 import { VoiceManager } from './voice';
 import { ChatViewProvider } from './chatViewProvider';
+import { SnoozeManager } from './snooze';
+import { BlockerTracker } from './blockers';
+import { AnswerExtractor } from './answers';
+import { TaskTracker } from './tasks';
+import { QuestionSchema } from './questions';
+import { BlockerClassifier } from './blockerClassifier';
+import { Localization } from './localization';
+import { DEFAULT_LLM_CONFIG } from './config';
+import { ApiKeyStore } from './apiKeys';
+import { LlmError } from './llmErrors';
+
+interface AnswerItem extends vscode.QuickPickItem {
+  answer: string; // Text saved as the answer
+}
 
 /**
  * Dialog manager for user interaction with voice and ChatGPT integration
  */
 export class DialogManager {
+  private static readonly LLM_ERROR_INTERVAL_MS = 30 * 60 * 1000;
+
+  /**
+   * Blocker types to choose from, in the UI language
+   */
+  private static getBlockerChoices(): BlockerChoice[] {
+    return [
+      {
+        label: Localization.t('Working on my own'),
+        detail: Localization.t('Nothing is blocking me'),
+        blockerType: 'none'
+      },
+      {
+        label: Localization.t('Waiting for teammates / review'),
+        detail: Localization.t('Waiting for feedback from the team'),
+        blockerType: 'waiting_for_person'
+      },
+      {
+        label: Localization.t('Waiting for deploy / CI / external processes'),
+        detail: Localization.t('Waiting for automated processes'),
+        blockerType: 'waiting_for_process'
+      },
+      {
+        label: Localization.t('Something else'),
+        detail: Localization.t('Something else is getting in the way'),
+        blockerType: 'other'
+      }
+    ];
+  }
+
   private openaiManager: OpenAIManager;
   private voiceManager: VoiceManager;
   private context: vscode.ExtensionContext;
   private chatViewProvider: ChatViewProvider | undefined;
+  private llmErrorShownAt = new Map<LlmErrorKind, number>(); // Last warning per kind of failure
 
   constructor(context: vscode.ExtensionContext, chatViewProvider?: ChatViewProvider) {
-    this.openaiManager = new OpenAIManager(''); // Will be set from config
+    this.openaiManager = new OpenAIManager(DEFAULT_LLM_CONFIG); // Will be set from config
     this.voiceManager = new VoiceManager();
     this.context = context;
     this.chatViewProvider = chatViewProvider;
   }
 
   /**
-   * Update OpenAI API key from configuration
+   * Update the LLM provider from configuration
    */
-  updateOpenAIKey(apiKey: string): void {
-    this.openaiManager = new OpenAIManager(apiKey);
-    this.voiceManager.updateApiKey(apiKey); // Также передаём в VoiceManager
+  updateLlmConfig(llm: LlmConfig): void {
+    this.openaiManager = new OpenAIManager(llm, error => this.reportLlmError(error));
+    // Speech always goes to the public OpenAI API, so it needs its own key with other providers
+    this.voiceManager.updateApiKey(ApiKeyStore.getVoiceKey(llm.provider));
+    this.chatViewProvider?.updateLlmConfig(llm);
+  }
+
+  /**
+   * Tell the user about a failed request that fell back to a local message, when
+   * they can do something about it. Each kind is shown at most once per interval,
+   * as check-ins keep running into the same problem
+   */
+  private reportLlmError(error: LlmError): void {
+    if (error.retryable || error.kind === 'cancelled') {
+      return;
+    }
+
+    const now = Date.now();
+    if (now - (this.llmErrorShownAt.get(error.kind) ?? 0) < DialogManager.LLM_ERROR_INTERVAL_MS) {
+      return;
+    }
+    this.llmErrorShownAt.set(error.kind, now);
+
+    const failure = error.toFailure();
+    const actions = failure.actionLabel ? [failure.actionLabel] : [];
+    vscode.window.showWarningMessage(Localization.t('Task Nudge is using offline messages. {0}', failure.message), ...actions)
+      .then(choice => {
+        const command = failure.action && choice ? LlmError.getCommand(failure.action) : undefined;
+        if (command) {
+          return vscode.commands.executeCommand(...command);
+        }
+      }, () => undefined);
   }
 
   /**
@@ -39,14 +113,17 @@ export class DialogManager {
       hasChanges: boolean;
       newFiles: string[];
       detailedInfo?: string;
-    }
-  ): Promise<QuestionDialogResult | undefined> {
+      fileCount?: number;
+    },
+    activeBlocker?: ActiveBlocker | null,
+    activeTask?: TaskContext | null
+  ): Promise<PingDialogOutcome> {
 
-    // Update OpenAI key from config
-    this.updateOpenAIKey(config.openaiApiKey);
+    // Update the LLM provider from config
+    this.updateLlmConfig(config.llm);
 
     // Generate personalized opening message
-    const openingMessage = await this.openaiManager.generateOpeningMessage(gitAnalysis);
+    const openingMessage = await this.openaiManager.generateOpeningMessage(gitAnalysis, activeTask, activeBlocker?.type);
 
     // Speak the opening message if voice is enabled
     if (config.voiceEnabled) {
@@ -54,161 +131,619 @@ export class DialogManager {
     }
 
     // Show confirmation dialog with the generated message
+    const answer = Localization.t('Yes, I will answer');
+    const postpone = Localization.t('Postpone for 15 min');
+    const disable = Localization.t('Disable for 1 hour');
+    const snooze = Localization.t('Snooze...');
     const response = await vscode.window.showInformationMessage(
-      `${openingMessage}\n\nWould you like to answer a few questions?`,
+      `${openingMessage}\n\n${Localization.t('Would you like to answer a few questions?')}`,
       { modal: false },
-      'Yes, I will answer',
-      'Postpone for 15 min',
-      'Disable for 1 hour'
+      answer,
+      postpone,
+      disable,
+      snooze
     );
 
-    if (!response || response !== 'Yes, I will answer') {
-      return undefined;
+    switch (response) {
+      case answer:
+        break;
+      case postpone:
+        return { type: 'snoozed', snooze: { type: 'duration', minutes: SnoozeManager.POSTPONE_MINUTES } };
+      case disable:
+        return { type: 'snoozed', snooze: { type: 'duration', minutes: SnoozeManager.DISABLE_MINUTES } };
+      case snooze: {
+        const snooze = await this.pickSnoozeDuration();
+        return snooze ? { type: 'snoozed', snooze } : { type: 'dismissed' };
+      }
+      default:
+        return { type: 'dismissed' };
     }
 
     // Show sidebar chat panel
     await vscode.commands.executeCommand('workbench.view.extension.task-nudge-sidebar');
 
-    // Update OpenAI key in chat provider and show analysis there
+    // Show analysis in the chat
     if (this.chatViewProvider) {
-      this.chatViewProvider.updateOpenAIKey(config.openaiApiKey);
-
       if (gitAnalysis.detailedInfo) {
         await this.chatViewProvider.addCollapsibleMessage(
-          '📊 Git Analysis (comparison with previous survey)',
+          `📊 ${Localization.t('Git Analysis (comparison with previous survey)')}`,
           gitAnalysis.detailedInfo
         );
       }
     }
 
-    // Ask questions in chat-like interface
-    const answers = await this.askQuestionsInSequence(config.questions);
-    if (!answers) {
+    // Ask in the chat form when possible; quick picks are the fallback
+    let blockerResolved: boolean | undefined;
+    let formResult: SurveyFormResult | undefined;
+    let answered: { asked: QuestionDefinition[]; answers: string[] } | undefined;
+    let classification: BlockerClassification | undefined;
+    if (config.surveyMode === 'form' && this.chatViewProvider) {
+      // The form asks for a blocker suggestion once the questions are answered
+      formResult = await this.chatViewProvider.showSurvey(
+        this.buildSurveyForm(config.questions, activeBlocker),
+        async answers => {
+          classification = await BlockerClassifier.classify(
+            this.toSurveyAnswers(this.collectFormAnswers(config.questions, { answers })),
+            this.openaiManager
+          );
+          return classification;
+        }
+      );
+      if (!formResult) {
+        return { type: 'dismissed' };
+      }
+      blockerResolved = formResult.blockerResolved;
+      answered = this.collectFormAnswers(config.questions, formResult);
+    } else {
+      // Check whether the previous blocker is resolved
+      if (activeBlocker) {
+        blockerResolved = await this.askBlockerResolved(activeBlocker);
+        if (blockerResolved === undefined) {
+          return { type: 'dismissed' };
+        }
+      }
+
+      // Ask questions in chat-like interface
+      answered = await this.askQuestionsInSequence(config.questions);
+      if (!answered) {
+        return { type: 'dismissed' };
+      }
+    }
+    const survey = this.toSurveyAnswers(answered);
+
+    // Classify the blocker from the answers for confirmation (a still-active blocker carries over)
+    let blockerType: BlockerType;
+    let blockerSubject: string | undefined;
+    if (activeBlocker && !blockerResolved) {
+      blockerType = activeBlocker.type;
+      blockerSubject = activeBlocker.subject;
+      classification = undefined;
+    } else if (formResult?.blockerType) {
+      blockerType = formResult.blockerType;
+      blockerSubject = formResult.blockerSubject;
+    } else {
+      classification = await BlockerClassifier.classify(survey, this.openaiManager);
+      if (formResult) {
+        // Submitted without visiting the blocker step - take the suggestion
+        blockerType = classification.type;
+        blockerSubject = classification.subject;
+      } else {
+        ({ blockerType, blockerSubject } = await this.confirmBlocker(classification, AnswerExtractor.findTeammate(survey)));
+      }
+    }
+
+    // Analyze answers and provide encouragement
+    const encouragement = await this.analyzeAndEncourage(config, survey, blockerType, activeTask);
+
+    return {
+      type: 'answered',
+      result: {
+        ...survey,
+        questionIds: QuestionSchema.getIds(answered.asked),
+        blockerType,
+        blockerSubject,
+        blockerClassification: classification,
+        blockerResolved,
+        openingMessage,
+        encouragement
+      }
+    };
+  }
+
+  /**
+   * Let the user choose a custom snooze duration
+   */
+  async pickSnoozeDuration(): Promise<SnoozeRequest | undefined> {
+    const choice = await vscode.window.showQuickPick([
+      {
+        label: `$(clock) ${Localization.t('{0} minutes', 15)}`,
+        request: { type: 'duration', minutes: 15 } as SnoozeRequest
+      },
+      {
+        label: `$(clock) ${Localization.t('{0} minutes', 30)}`,
+        request: { type: 'duration', minutes: 30 } as SnoozeRequest
+      },
+      {
+        label: `$(clock) ${Localization.t('1 hour')}`,
+        request: { type: 'duration', minutes: 60 } as SnoozeRequest
+      },
+      {
+        label: `$(clock) ${Localization.t('{0} hours', 2)}`,
+        request: { type: 'duration', minutes: 120 } as SnoozeRequest
+      },
+      {
+        label: `$(calendar) ${Localization.t('Until tomorrow {0}:00', SnoozeManager.MORNING_HOUR)}`,
+        request: { type: 'until', timestamp: SnoozeManager.getTomorrowAt(SnoozeManager.MORNING_HOUR) } as SnoozeRequest
+      },
+      {
+        label: `$(save) ${Localization.t('Until I save a file')}`,
+        request: { type: 'untilFileSave' } as SnoozeRequest
+      },
+      {
+        label: `$(edit) ${Localization.t('Custom minutes...')}`,
+        request: undefined
+      }
+    ], {
+      placeHolder: Localization.t('Snooze nudges for how long?')
+    });
+
+    if (!choice) {
       return undefined;
     }
 
-    // Determine blocker type based on answers
-    const blockerType = await this.determineBlockerType();
+    if (choice.request) {
+      return choice.request;
+    }
+
+    const minutes = await vscode.window.showInputBox({
+      prompt: Localization.t('Snooze nudges for how many minutes?'),
+      placeHolder: '45',
+      validateInput: value => {
+        const parsed = Number(value);
+        return Number.isInteger(parsed) && parsed > 0 ? undefined : Localization.t('Enter a positive whole number of minutes');
+      }
+    });
 
-    // Analyze answers and provide encouragement
-    await this.analyzeAndEncourage(config, answers);
+    return minutes ? { type: 'duration', minutes: Number(minutes) } : undefined;
+  }
+
+  /**
+   * Let the user choose which API key to set or clear. `storedOnly` hides keys that aren't set
+   */
+  async pickApiKeyKind(placeHolder: string, storedOnly: boolean = false): Promise<ApiKeyKind | undefined> {
+    const items = [
+      {
+        label: `$(sparkle) ${Localization.t('AI provider key')}`,
+        description: ApiKeyStore.get('llm') ? Localization.t('set') : Localization.t('not set'),
+        detail: Localization.t('Check-in messages, feedback and chat (OpenAI, Azure OpenAI or an OpenAI-compatible server)'),
+        keyKind: 'llm' as ApiKeyKind
+      },
+      {
+        label: `$(unmute) ${Localization.t('Voice key')}`,
+        description: ApiKeyStore.get('tts') ? Localization.t('set') : Localization.t('not set'),
+        detail: Localization.t('OpenAI speech. Without it, the AI provider key is used when the provider is OpenAI'),
+        keyKind: 'tts' as ApiKeyKind
+      }
+    ].filter(item => !storedOnly || ApiKeyStore.get(item.keyKind));
+
+    if (items.length === 0) {
+      return undefined;
+    }
+
+    const choice = await vscode.window.showQuickPick(items, { placeHolder });
+    return choice?.keyKind;
+  }
+
+  /**
+   * Ask for an API key without echoing it
+   */
+  async promptApiKey(kind: ApiKeyKind): Promise<string | undefined> {
+    const key = await vscode.window.showInputBox({
+      prompt: ApiKeyStore.get(kind)
+        ? Localization.t('Enter the new key. It replaces the stored one')
+        : Localization.t('Enter the API key. It is kept in VS Code secret storage, not in settings'),
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: value => value.trim() ? undefined : Localization.t('Enter a key')
+    });
+
+    return key?.trim() || undefined;
+  }
+
+  /**
+   * Let the user choose a date range (local days, end exclusive)
+   */
+  async pickDateRange(placeHolder: string): Promise<DateRangeFilter | undefined> {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const todayStart = new Date().setHours(0, 0, 0, 0);
+    const tomorrowStart = todayStart + dayMs;
+
+    const choice = await vscode.window.showQuickPick([
+      { label: `$(calendar) ${Localization.t('Last {0} days', 7)}`, range: { from: todayStart - 6 * dayMs, to: tomorrowStart } as DateRangeFilter | undefined },
+      { label: `$(calendar) ${Localization.t('Last {0} days', 30)}`, range: { from: todayStart - 29 * dayMs, to: tomorrowStart } as DateRangeFilter | undefined },
+      { label: `$(calendar) ${Localization.t('Last {0} days', 90)}`, range: { from: todayStart - 89 * dayMs, to: tomorrowStart } as DateRangeFilter | undefined },
+      { label: `$(history) ${Localization.t('All time')}`, range: {} as DateRangeFilter | undefined },
+      { label: `$(edit) ${Localization.t('Custom range...')}`, range: undefined }
+    ], { placeHolder });
+
+    if (!choice) {
+      return undefined;
+    }
+
+    if (choice.range) {
+      return choice.range;
+    }
+
+    const parseDay = (value: string) => {
+      const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime() : NaN;
+    };
+    const validateInput = (value: string) => Number.isNaN(parseDay(value)) ? Localization.t('Enter a date as YYYY-MM-DD') : undefined;
+
+    const from = await vscode.window.showInputBox({ prompt: Localization.t('From date (inclusive)'), placeHolder: 'YYYY-MM-DD', validateInput });
+    if (!from) {
+      return undefined;
+    }
+
+    const to = await vscode.window.showInputBox({
+      prompt: Localization.t('To date (inclusive)'),
+      placeHolder: 'YYYY-MM-DD',
+      validateInput: value => validateInput(value) ?? (parseDay(value) < parseDay(from) ? Localization.t('The end date is before the start date') : undefined)
+    });
+    if (!to) {
+      return undefined;
+    }
+
+    // Move to the start of the next day, so the end date is included
+    const toDate = new Date(parseDay(to));
+    toDate.setDate(toDate.getDate() + 1);
+    return { from: parseDay(from), to: toDate.getTime() };
+  }
 
+  /**
+   * Describe the survey for the chat form
+   */
+  private buildSurveyForm(questions: QuestionDefinition[], activeBlocker?: ActiveBlocker | null): SurveyForm {
     return {
-      answers,
-      blockerType
+      id: [...questions.map(q => q.id), activeBlocker ? `blocker:${activeBlocker.startedAt}` : undefined].filter(Boolean).join('|'),
+      questions,
+      blockerChoices: DialogManager.getBlockerChoices(),
+      activeBlocker: activeBlocker
+        ? Localization.t('{0} for {1}', BlockerTracker.describeSubject(activeBlocker), BlockerTracker.formatDuration(Date.now() - activeBlocker.startedAt))
+        : undefined
     };
-  }  /**
-   * Ask questions in sequence using input boxes with "Don't know" option
+  }
+
+  /**
+   * Put form answers in question order, applying skip rules again
+   */
+  private collectFormAnswers(
+    questions: QuestionDefinition[],
+    result: SurveyFormResult
+  ): { asked: QuestionDefinition[]; answers: string[] } {
+    const asked: QuestionDefinition[] = [];
+    const answers: string[] = [];
+    const answersById = new Map<string, string>();
+
+    for (const question of questions) {
+      if (AnswerExtractor.shouldSkip(question, answersById)) {
+        continue;
+      }
+      const answer = result.answers[question.id] ?? '(skipped)';
+      asked.push(question);
+      answers.push(answer);
+      answersById.set(question.id, answer);
+    }
+
+    return { asked, answers };
+  }
+
+  /**
+   * Ask questions in sequence, each with the input that fits its type, leaving out
+   * questions whose skip rule matches an earlier answer. Returns undefined if the user cancels
    */
-  private async askQuestionsInSequence(questions: string[]): Promise<string[] | undefined> {
+  private async askQuestionsInSequence(
+    questions: QuestionDefinition[]
+  ): Promise<{ asked: QuestionDefinition[]; answers: string[] } | undefined> {
+    const asked: QuestionDefinition[] = [];
     const answers: string[] = [];
+    const answersById = new Map<string, string>();
+
+    for (const question of questions) {
+      if (AnswerExtractor.shouldSkip(question, answersById)) {
+        continue;
+      }
+
+      let answer: string | undefined;
+      switch (question.type) {
+        case 'scale':
+          answer = await this.askScaleQuestion(question);
+          break;
+        case 'single':
+        case 'multi':
+          answer = await this.askChoiceQuestion(question);
+          break;
+        case 'yesno':
+          answer = await this.askYesNoQuestion(question);
+          break;
+        default:
+          answer = await this.askTextQuestion(question);
+      }
+
+      if (answer === undefined) {
+        // User cancelled
+        return undefined;
+      }
+      asked.push(question);
+      answers.push(answer);
+      answersById.set(question.id, answer);
+    }
 
-    for (let i = 0; i < questions.length; i++) {
-      const question = questions[i];
+    return { asked, answers };
+  }
 
+  /**
+   * Free-text question with "Don't know" option unless the answer is required
+   */
+  private async askTextQuestion(question: QuestionDefinition): Promise<string | undefined> {
+    if (!question.required) {
       // Show question with buttons for "Don't know"
       const choice = await vscode.window.showQuickPick([
         {
-          label: '✍️ Type answer',
-          detail: 'I know the answer to this question',
+          label: `✍️ ${Localization.t('Type answer')}`,
+          detail: Localization.t('I know the answer to this question'),
           action: 'input'
         },
         {
-          label: '🤷 Don\'t know',
-          detail: 'I\'m not sure how to answer this question',
+          label: `🤷 ${Localization.t('Don\'t know')}`,
+          detail: Localization.t('I\'m not sure how to answer this question'),
           action: 'unknown'
         }
       ], {
-        placeHolder: question,
+        placeHolder: question.text,
         ignoreFocusOut: true
       });
 
       if (!choice) {
-        // User cancelled
         return undefined;
       }
-
       if (choice.action === 'unknown') {
-        answers.push('Don\'t know');
-      } else {
-        // Ask for detailed answer
-        const answer = await vscode.window.showInputBox({
-          prompt: question,
-          placeHolder: 'Your answer...',
-          ignoreFocusOut: true,
-          value: ''
-        });
-
-        if (answer === undefined) {
-          // User cancelled
-          return undefined;
-        }
-
-        answers.push(answer || '(пропущено)');
+        return 'Don\'t know';
       }
     }
 
-    return answers;
+    // Ask for detailed answer
+    const answer = await vscode.window.showInputBox({
+      prompt: question.text,
+      placeHolder: Localization.t('Your answer...'),
+      ignoreFocusOut: true,
+      value: typeof question.default === 'string' ? question.default : '',
+      validateInput: value => question.required && !value.trim() ? Localization.t('An answer is required') : undefined
+    });
+
+    if (answer === undefined) {
+      return undefined;
+    }
+    return answer || '(skipped)';
+  }
+
+  /**
+   * 1-5 scale question. The answer is saved as "N/5"
+   */
+  private async askScaleQuestion(question: QuestionDefinition): Promise<string | undefined> {
+    const items: AnswerItem[] = [];
+    for (let value = QuestionSchema.SCALE_MIN; value <= QuestionSchema.SCALE_MAX; value++) {
+      const label = value === QuestionSchema.SCALE_MIN ? question.lowLabel
+        : value === QuestionSchema.SCALE_MAX ? question.highLabel
+        : undefined;
+      items.push({
+        label: `${value}`,
+        description: label,
+        answer: `${value}/${QuestionSchema.SCALE_MAX}`,
+        picked: question.default === value
+      });
+    }
+
+    const picked = await this.pickAnswers(question, items, false);
+    return picked?.[0];
   }
 
   /**
-   * Determine blocker type from user selection
+   * Single or multiple choice question. Multiple answers are saved comma-separated
    */
-  private async determineBlockerType(): Promise<BlockerType> {
-    const blockerChoice = await vscode.window.showQuickPick([
-      {
-        label: 'Продолжаю работать самостоятельно',
-        detail: 'Ничего не блокирует',
-        blockerType: 'none' as BlockerType
-      },
+  private async askChoiceQuestion(question: QuestionDefinition): Promise<string | undefined> {
+    const defaults = Array.isArray(question.default) ? question.default : [question.default];
+    const items: AnswerItem[] = (question.options || []).map(option => ({
+      label: option,
+      answer: option,
+      picked: defaults.includes(option)
+    }));
+
+    const picked = await this.pickAnswers(question, items, question.type === 'multi');
+    return picked?.join(', ');
+  }
+
+  /**
+   * Yes/no question
+   */
+  private async askYesNoQuestion(question: QuestionDefinition): Promise<string | undefined> {
+    const picked = await this.pickAnswers(question, [
+      { label: `$(check) ${Localization.t('Yes')}`, answer: 'Yes', picked: question.default === true },
+      { label: `$(close) ${Localization.t('No')}`, answer: 'No', picked: question.default === false }
+    ], false);
+    return picked?.[0];
+  }
+
+  /**
+   * Quick pick over answer items with the default preselected and, unless the
+   * question is required, a "Skip" item. Returns undefined if cancelled
+   */
+  private pickAnswers(question: QuestionDefinition, items: AnswerItem[], canPickMany: boolean): Promise<string[] | undefined> {
+    const skipItem: AnswerItem = { label: `$(debug-step-over) ${Localization.t('Skip')}`, answer: '(skipped)' };
+    const allItems = question.required || canPickMany ? items : [...items, skipItem];
+
+    const quickPick = vscode.window.createQuickPick<AnswerItem>();
+    quickPick.title = question.text;
+    quickPick.placeholder = canPickMany
+      ? (question.required ? Localization.t('Select all that apply') : Localization.t('Select all that apply, or none to skip'))
+      : question.text;
+    quickPick.items = allItems;
+    quickPick.canSelectMany = canPickMany;
+    quickPick.ignoreFocusOut = true;
+
+    const defaults = items.filter(item => item.picked);
+    if (canPickMany) {
+      quickPick.selectedItems = defaults;
+    } else if (defaults.length > 0) {
+      quickPick.activeItems = defaults;
+    }
+
+    return new Promise(resolve => {
+      let result: string[] | undefined;
+      quickPick.onDidAccept(() => {
+        const selected = quickPick.selectedItems.length > 0 || canPickMany
+          ? quickPick.selectedItems
+          : quickPick.activeItems;
+        if (question.required && selected.length === 0) {
+          quickPick.placeholder = Localization.t('An answer is required');
+          return;
+        }
+        result = selected.length > 0 ? selected.map(item => item.answer) : [skipItem.answer];
+        quickPick.hide();
+      });
+      quickPick.onDidHide(() => {
+        quickPick.dispose();
+        resolve(result);
+      });
+      quickPick.show();
+    });
+  }
+
+  /**
+   * Show the suggested blocker type for one-click confirmation, with the other
+   * types to correct it. Cancelling keeps the suggestion
+   */
+  private async confirmBlocker(
+    classification: BlockerClassification,
+    teammate?: string
+  ): Promise<{ blockerType: BlockerType; blockerSubject?: string }> {
+    const choices = DialogManager.getBlockerChoices();
+    const suggested = choices.find(choice => choice.blockerType === classification.type)!;
+    const choice = await vscode.window.showQuickPick([
       {
-        label: 'Жду ответа от коллег / ревью',
-        detail: 'Ожидание обратной связи от команды',
-        blockerType: 'waiting_for_person' as BlockerType
+        label: `$(check) ${suggested.label}`,
+        description: classification.subject,
+        detail: Localization.t('Suggested from your answers ({0}% confident)', Math.round(classification.confidence * 100)),
+        blockerType: classification.type,
+        suggestion: true
       },
+      ...choices
+        .filter(other => other.blockerType !== classification.type)
+        .map(other => ({ ...other, suggestion: false }))
+    ], {
+      placeHolder: Localization.t('Is this what is blocking you? Press Enter to confirm'),
+      ignoreFocusOut: true
+    });
+
+    const blockerType = choice?.blockerType ?? classification.type;
+    if (blockerType !== 'waiting_for_person' && blockerType !== 'waiting_for_process') {
+      return { blockerType };
+    }
+
+    // A confirmed suggestion with a subject needs no more input
+    if ((!choice || choice.suggestion) && classification.subject) {
+      return { blockerType, blockerSubject: classification.subject };
+    }
+
+    const suggestion = classification.subject || (blockerType === 'waiting_for_person' ? teammate : undefined);
+    return { blockerType, blockerSubject: await this.askBlockerSubject(blockerType, suggestion) };
+  }
+
+  /**
+   * Questions and answers of an answered survey
+   */
+  private toSurveyAnswers(answered: { asked: QuestionDefinition[]; answers: string[] }): Required<SurveyAnswers> {
+    return {
+      questions: QuestionSchema.getTexts(answered.asked),
+      questionRoles: QuestionSchema.getRoles(answered.asked),
+      answers: answered.answers
+    };
+  }
+
+  /**
+   * Ask whether the active blocker is resolved. Returns undefined if cancelled
+   */
+  private async askBlockerResolved(blocker: ActiveBlocker): Promise<boolean | undefined> {
+    const subject = BlockerTracker.describeSubject(blocker);
+    const duration = BlockerTracker.formatDuration(Date.now() - blocker.startedAt);
+
+    const choice = await vscode.window.showQuickPick([
       {
-        label: 'Жду деплой / CI / внешние процессы',
-        detail: 'Ожидание автоматизированных процессов',
-        blockerType: 'waiting_for_process' as BlockerType
+        label: `$(check) ${Localization.t('Yes, resolved')}`,
+        resolved: true
       },
       {
-        label: 'Другая блокировка',
-        detail: 'Что-то ещё мешает работе',
-        blockerType: 'other' as BlockerType
+        label: `$(watch) ${Localization.t('No, still waiting')}`,
+        resolved: false
       }
     ], {
-      placeHolder: 'Что сейчас блокирует твою работу?',
+      placeHolder: Localization.t('You\'ve been waiting on {0} for {1}. Is it resolved?', subject, duration),
       ignoreFocusOut: true
     });
 
-    return blockerChoice?.blockerType || 'none';
+    return choice?.resolved;
+  }
+
+  /**
+   * Ask who or what the developer is waiting on
+   */
+  async askBlockerSubject(blockerType: BlockerType, suggestion?: string): Promise<string | undefined> {
+    const subject = await vscode.window.showInputBox({
+      prompt: blockerType === 'waiting_for_person' ? Localization.t('Who are you waiting on?') : Localization.t('What are you waiting for?'),
+      placeHolder: blockerType === 'waiting_for_person' ? Localization.t('e.g. Alex (code review)') : Localization.t('e.g. CI pipeline, deploy to staging'),
+      value: suggestion || '',
+      ignoreFocusOut: true
+    });
+
+    return subject?.trim() || undefined;
+  }
+
+  /**
+   * Let the user pick a blocker type. Returns undefined if cancelled
+   */
+  async pickBlockerType(): Promise<BlockerType | undefined> {
+    const blockerChoice = await vscode.window.showQuickPick(DialogManager.getBlockerChoices(), {
+      placeHolder: Localization.t('What is blocking your work right now?'),
+      ignoreFocusOut: true
+    });
+
+    return blockerChoice?.blockerType;
   }
 
   /**
    * Analyze answers and provide encouraging response with chat integration
    */
-  private async analyzeAndEncourage(config: ExtensionConfig, answers: string[]): Promise<void> {
+  private async analyzeAndEncourage(config: ExtensionConfig, survey: SurveyAnswers, blockerType: BlockerType, activeTask?: TaskContext | null): Promise<string> {
     // Show chat panel
     await vscode.commands.executeCommand('workbench.view.extension.task-nudge-sidebar');
 
-    // Update OpenAI key in chat provider
     if (this.chatViewProvider) {
-      this.chatViewProvider.updateOpenAIKey(config.openaiApiKey);
-
       // Add debug output to chat: show developer's answers
-      await this.chatViewProvider.addSystemMessage('=== Survey Results ===');
+      await this.chatViewProvider.addSystemMessage(`=== ${Localization.t('Survey Results')} ===`);
 
-      for (let i = 0; i < config.questions.length && i < answers.length; i++) {
-        await this.chatViewProvider.addDebugMessage(`Q: ${config.questions[i]}`);
-        await this.chatViewProvider.addDebugMessage(`A: ${answers[i]}`);
+      for (let i = 0; i < survey.questions.length && i < survey.answers.length; i++) {
+        await this.chatViewProvider.addDebugMessage(Localization.t('Q: {0}', survey.questions[i]));
+        await this.chatViewProvider.addDebugMessage(Localization.t('A: {0}', survey.answers[i]));
       }
     }
 
+    // Compare the previous estimate with the time actually spent
+    const estimateNote = activeTask?.estimate
+      ? TaskTracker.describeEstimate(activeTask.estimate.minutes, activeTask.estimate.spentMs)
+      : undefined;
+
     // Generate encouraging response
-    const encouragement = await this.openaiManager.analyzeAnswersAndEncourage(
-      config.questions,
-      answers
-    );
+    const encouragement = await this.openaiManager.analyzeAnswersAndEncourage(survey, estimateNote, blockerType, activeTask);
 
     // Speak encouragement if voice is enabled
     if (config.voiceEnabled) {
@@ -220,18 +755,20 @@ export class DialogManager {
       await this.chatViewProvider.addAssistantMessage(encouragement);
 
       // Check for "don't know" answers and provide additional help
-      const unknownCount = answers.filter(answer =>
+      const unknownCount = survey.answers.filter(answer =>
         answer.toLowerCase().includes('don\'t know') ||
         answer === '(skipped)'
       ).length;
 
       if (unknownCount > 0) {
-        const helpMessage = `I see that you answered "don't know" to ${unknownCount} question(s). Feel free to ask questions in the chat - I'll help you figure it out! 💪`;
+        const helpMessage = Localization.t('I see that you answered "don\'t know" to {0} question(s). Feel free to ask questions in the chat - I\'ll help you figure it out! 💪', unknownCount);
         await this.chatViewProvider.addSystemMessage(helpMessage);
       } else {
-        await this.chatViewProvider.addSystemMessage('Great answers! If you have any questions - just chat with me.');
+        await this.chatViewProvider.addSystemMessage(Localization.t('Great answers! If you have any questions - just chat with me.'));
       }
     }
+
+    return encouragement;
   }  /**
    * Show a simple notification
    */
@@ -0,0 +1,109 @@
+/**
+ * Parses free-text duration answers in English and Russian ("2h", "полчаса",
+ * "about 45 minutes", "до конца дня") into minutes
+ */
+export class DurationParser {
+  // Working time assumed for "a day" and "a week"
+  static readonly WORKDAY_MINUTES = 8 * 60;
+  static readonly WORKWEEK_MINUTES = 5 * DurationParser.WORKDAY_MINUTES;
+  static readonly END_OF_DAY_HOUR = 18;
+
+  private static readonly NUMBER_WORDS: Array<[string, number]> = [
+    ['forty-five', 45], ['forty five', 45], ['сорок пять', 45],
+    ['a couple of', 2], ['couple of', 2], ['a couple', 2], ['a few', 3], ['few', 3],
+    ['a', 1], ['an', 1], ['one', 1], ['two', 2], ['three', 3], ['four', 4], ['five', 5], ['six', 6],
+    ['seven', 7], ['eight', 8], ['nine', 9], ['ten', 10], ['fifteen', 15], ['twenty', 20], ['thirty', 30],
+    ['forty', 40], ['fifty', 50],
+    ['один', 1], ['одна', 1], ['одну', 1], ['два', 2], ['две', 2], ['пару', 2], ['пара', 2], ['три', 3],
+    ['четыре', 4], ['пять', 5], ['шесть', 6], ['семь', 7], ['восемь', 8], ['девять', 9], ['десять', 10],
+    ['несколько', 3], ['пятнадцать', 15], ['двадцать', 20], ['тридцать', 30], ['сорок', 40], ['пятьдесят', 50]
+  ];
+
+  // Fixed phrases, checked before numbers and units
+  private static readonly PHRASES: Array<[RegExp, number]> = [
+    [/полтора\s+часа|(?:an\s+)?hour\s+and\s+a\s+half|one\s+and\s+a\s+half\s+hours?/u, 90],
+    [/полчаса|half\s+(?:an\s+)?hour/u, 30],
+    [/четверть\s+часа|(?:a\s+)?quarter\s+(?:of\s+an\s+)?hour/u, 15],
+    [/полдня|half\s+(?:a\s+)?day/u, 4 * 60]
+  ];
+
+  private static readonly END_OF_DAY = /до\s+конца\s+(?:рабочего\s+)?дня|к\s+концу\s+дня|до\s+вечера|(?:by|until|till)?\s*(?:the\s+)?end\s+of\s+(?:the\s+)?(?:work\s*)?day|\beod\b|by\s+tonight/u;
+
+  private static readonly UNITS: Array<[RegExp, number]> = [
+    [/^(?:m|mins?|minutes?|мин|минуты?|минут)$/u, 1],
+    [/^(?:h|hrs?|hours?|ч|час|часа|часов)$/u, 60],
+    [/^(?:d|days?|д|день|дня|дней)$/u, DurationParser.WORKDAY_MINUTES],
+    [/^(?:w|wks?|weeks?|нед|недел[яиь]|недель)$/u, DurationParser.WORKWEEK_MINUTES]
+  ];
+
+  /**
+   * Parse a duration answer into minutes. Returns undefined when no duration is recognized
+   */
+  static parse(answer: string | undefined, now: Date = new Date()): number | undefined {
+    if (!answer) {
+      return undefined;
+    }
+
+    let text = answer.toLowerCase().replace(/ё/g, 'е').replace(/(\d),(\d)/g, '$1.$2').trim();
+
+    if (this.END_OF_DAY.test(text)) {
+      const endOfDay = new Date(now);
+      endOfDay.setHours(this.END_OF_DAY_HOUR, 0, 0, 0);
+      const minutes = Math.round((endOfDay.getTime() - now.getTime()) / 60000);
+      return minutes > 0 ? minutes : undefined;
+    }
+
+    // "2 and a half hours", "два с половиной часа"
+    text = text
+      .replace(/(\d+)\s+and\s+a\s+half\s+hours?/gu, (_, hours) => `${Number(hours) + 0.5} h`)
+      .replace(/(\S+)\s+с\s+половиной\s+(час\S*)/gu, (_, count, unit) => `${count}.5 ${unit}`);
+
+    let total = 0;
+    for (const [pattern, minutes] of this.PHRASES) {
+      const global = new RegExp(pattern.source, 'gu');
+      text = text.replace(global, () => {
+        total += minutes;
+        return ' ';
+      });
+    }
+
+    text = this.replaceNumberWords(text);
+
+    // Number (or range) followed by a unit: "2h", "1.5 hours", "2-3 дня", "30 минут"
+    const numbered = /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to|до)\s*(\d+(?:\.\d+)?))?\s*(\p{L}+)/gu;
+    let matched = total > 0;
+    text = text.replace(numbered, (match, from: string, to: string | undefined, unit: string) => {
+      const unitMinutes = this.getUnitMinutes(unit);
+      if (unitMinutes === undefined) {
+        return match;
+      }
+      const amount = to !== undefined ? (Number(from) + Number(to)) / 2 : Number(from);
+      total += amount * unitMinutes;
+      matched = true;
+      return ' ';
+    });
+
+    // A bare unit word means one of it: "час", "hour", "a day"
+    if (!matched) {
+      const bare = text.match(/(?<!\p{L})(час|hour|день|day|неделя|week)(?!\p{L})/u);
+      if (bare) {
+        total = this.getUnitMinutes(bare[1]) ?? 0;
+        matched = total > 0;
+      }
+    }
+
+    return matched && total > 0 ? Math.round(total) : undefined;
+  }
+
+  private static getUnitMinutes(unit: string): number | undefined {
+    return this.UNITS.find(([pattern]) => pattern.test(unit))?.[1];
+  }
+
+  private static replaceNumberWords(text: string): string {
+    for (const [word, value] of this.NUMBER_WORDS) {
+      const pattern = new RegExp(`(?<!\\p{L})${word.replace(/[-\s]+/g, '[-\\s]+')}(?!\\p{L})`, 'gu');
+      text = text.replace(pattern, String(value));
+    }
+    return text;
+  }
+}
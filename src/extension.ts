@@ -5,7 +5,27 @@ import { DialogManager } from './dialog';
 import { StateManager } from './state';
 import { GitSnapshotManager } from './gitSnapshot';
 import { ChatViewProvider } from './chatViewProvider';
-import { SessionState } from './types';
+import { SnoozeManager } from './snooze';
+import { StatusBarManager } from './statusBar';
+import { ScheduleManager } from './schedule';
+import { ActivityTracker } from './activity';
+import { ProcessWatcher } from './processWatcher';
+import { BlockerTracker } from './blockers';
+import { AnswerExtractor } from './answers';
+import { HistoryStore } from './history';
+import { StandupGenerator } from './standup';
+import { InsightsPanel } from './insightsPanel';
+import { ChatLogStore } from './chatLog';
+import { DataExporter } from './dataExport';
+import { TaskTracker } from './tasks';
+import { DurationParser } from './duration';
+import { OpenAIManager } from './openai';
+import { QuestionSchema } from './questions';
+import { Localization } from './localization';
+import { ApiKeyStore } from './apiKeys';
+import { UsageTracker } from './usage';
+import { PromptTemplates } from './prompts';
+import { BlockerType, ExportBundle, ExportFormat, ExtensionConfig, ImportSummary, NudgeStatus, OpenAIMessage, PromptTemplate, PromptTemplateId, QuestionContext, QuestionDefinition, RunningProcess, SessionState, SnoozeRequest } from './types';
 
 /**
  * Main Task Nudge extension class with voice and ChatGPT integration
@@ -15,18 +35,44 @@ export class TaskNudgeExtension {
   private gitManager: GitManager;
   private gitSnapshotManager: GitSnapshotManager;
   private dialogManager: DialogManager;
+  private snoozeManager: SnoozeManager;
+  private blockerTracker: BlockerTracker;
+  private historyStore: HistoryStore;
+  private chatLogStore: ChatLogStore;
+  private taskTracker: TaskTracker;
+  private standupGenerator: StandupGenerator;
+  private statusBarManager: StatusBarManager;
+  private activityTracker: ActivityTracker | undefined;
+  private processWatcher: ProcessWatcher | undefined;
+  private processBlockerAutoSet = false; // waiting_for_process was set by ProcessWatcher
   private sessionState: SessionState;
+  private config: ExtensionConfig; // Read again only when settings change, not on every editor event or status bar tick
+  private schedule: ScheduleManager; // Rebuilt with the config
 
   private activityCheckInterval: NodeJS.Timeout | undefined;
   private pingTimeout: NodeJS.Timeout | undefined;
   private disposables: vscode.Disposable[] = [];
 
-  constructor(context: vscode.ExtensionContext, chatViewProvider?: ChatViewProvider) {
+  constructor(context: vscode.ExtensionContext, chatViewProvider?: ChatViewProvider, chatLogStore?: ChatLogStore) {
+    this.config = ConfigManager.getConfig();
+    this.schedule = new ScheduleManager(this.config.workingHours);
     this.stateManager = new StateManager(context);
     this.gitManager = new GitManager();
     this.gitSnapshotManager = new GitSnapshotManager(context, this.gitManager);
     this.dialogManager = new DialogManager(context, chatViewProvider);
+    this.snoozeManager = new SnoozeManager();
+    this.blockerTracker = new BlockerTracker(context);
+    this.historyStore = new HistoryStore(context);
+    this.chatLogStore = chatLogStore ?? new ChatLogStore(context);
+    this.taskTracker = new TaskTracker(context);
+    this.standupGenerator = new StandupGenerator(this.historyStore, this.gitManager);
     this.sessionState = this.stateManager.loadState();
+    this.statusBarManager = new StatusBarManager(() => this.getStatus(), this.snoozeManager);
+    this.disposables.push(this.statusBarManager);
+    chatViewProvider?.setChatContext(() => ({
+      task: this.taskTracker.getActiveContext(),
+      blockerType: this.sessionState.blockerType
+    }));
 
     this.initialize();
   }
@@ -41,6 +87,9 @@ export class TaskNudgeExtension {
     // Set up activity tracking
     this.setupActivityTracking();
 
+    // Set up build/test/deploy detection
+    this.setupProcessDetection();
+
     // Set up configuration change handler
     this.disposables.push(
       ConfigManager.onConfigChange(() => {
@@ -48,17 +97,49 @@ export class TaskNudgeExtension {
       })
     );
 
+    // Keys set here or in another window reach the chat, dialogs and voice right away
+    this.disposables.push(
+      ApiKeyStore.onDidChange(() => {
+        this.dialogManager.updateLlmConfig(this.config.llm);
+      })
+    );
+
     // Start activity monitoring
     this.startActivityMonitoring();
 
     console.log('Task Nudge extension activated');
   }
 
+  /**
+   * Questions for the current ping: the first matching question set, then the
+   * morning plan on the first check-in of the day, then the regular questions
+   */
+  private selectQuestions(config: ExtensionConfig, schedule: ScheduleManager, isStuck: boolean): QuestionDefinition[] {
+    const context: QuestionContext = {
+      firstPingOfDay: schedule.isFirstPingOfDay(this.sessionState),
+      stuck: isStuck,
+      waiting: this.sessionState.isWaiting,
+      endOfDay: schedule.isEndOfDay(config.endOfDayMinutes)
+    };
+
+    const questionSet = QuestionSchema.selectSet(config.questionSets, context);
+    if (questionSet) {
+      console.log(`Using question set "${questionSet.id}"`);
+      return questionSet.questions;
+    }
+
+    return context.firstPingOfDay && config.morningPlanQuestions.length > 0
+      ? config.morningPlanQuestions
+      : config.questions;
+  }
+
   /**
    * Update state from current configuration
    */
   private updateFromConfig(): void {
-    const config = ConfigManager.getConfig();
+    this.config = ConfigManager.getConfig();
+    this.schedule = new ScheduleManager(this.config.workingHours);
+    const config = this.config;
     this.stateManager.updateIntervalsFromConfig(
       this.sessionState,
       config.baseIntervalMinutes,
@@ -66,39 +147,116 @@ export class TaskNudgeExtension {
       config.idleThresholdSeconds
     );
     this.stateManager.saveState(this.sessionState);
+
+    // A new provider or endpoint applies to the chat right away, not from the next ping
+    this.dialogManager.updateLlmConfig(config.llm);
   }
 
   /**
    * Set up activity tracking listeners
    */
   private setupActivityTracking(): void {
-    // Track text document changes
+    this.activityTracker = new ActivityTracker(
+      () => this.config.activitySources,
+      () => this.sessionState.idleThresholdMs
+    );
+    this.disposables.push(this.activityTracker);
+
     this.disposables.push(
-      vscode.workspace.onDidChangeTextDocument(() => {
-        this.updateActivity();
+      this.activityTracker.onDidRecordActivity(event => {
+        this.updateActivity(event.effectiveAt);
       })
     );
 
-    // Track text editor selection changes
+    // File saves lift "until I save a file" snoozes
     this.disposables.push(
-      vscode.window.onDidChangeTextEditorSelection(() => {
-        this.updateActivity();
+      vscode.workspace.onDidSaveTextDocument(() => {
+        if (this.snoozeManager.handleFileSaved(this.sessionState)) {
+          this.stateManager.saveState(this.sessionState);
+          console.log('Snooze lifted by file save');
+        }
       })
     );
+  }
+
+  /**
+   * Set up detection of running tasks, terminal commands and debug sessions
+   */
+  private setupProcessDetection(): void {
+    this.processWatcher = new ProcessWatcher(() => this.config.processDetection);
+    this.disposables.push(this.processWatcher);
 
-    // Track active text editor changes
     this.disposables.push(
-      vscode.window.onDidChangeActiveTextEditor(() => {
-        this.updateActivity();
+      this.processWatcher.onDidChange(running => {
+        this.handleProcessesChanged(running);
+      }),
+      this.processWatcher.onDidFinish(process => {
+        this.notifyProcessFinished(process).catch(error => console.error('Failed to notify about finished process:', error));
       })
     );
   }
 
   /**
-   * Update last activity timestamp and cancel pending pings
+   * Hold pings or switch to the waiting interval while processes run
    */
-  private updateActivity(): void {
-    this.sessionState.lastActivityAt = Date.now();
+  private handleProcessesChanged(running: RunningProcess[]): void {
+    const config = this.config.processDetection;
+
+    if (running.length > 0) {
+      if (config.mode === 'hold') {
+        if (this.processWatcher?.isHolding()) {
+          this.cancelScheduledPing();
+        }
+      } else if (this.sessionState.blockerType === 'none') {
+        this.processBlockerAutoSet = true;
+        this.setBlocker('waiting_for_process', running.map(p => p.name).join(', '))
+          .catch(error => console.error('Failed to set process blocker:', error));
+      }
+      console.log(`Waiting for process: ${running.map(p => p.name).join(', ')}`);
+    } else if (this.processBlockerAutoSet) {
+      this.processBlockerAutoSet = false;
+      if (this.sessionState.blockerType === 'waiting_for_process') {
+        this.setBlocker('none').catch(error => console.error('Failed to clear process blocker:', error));
+      }
+    }
+  }
+
+  /**
+   * Nudge the user back to work when a long process finishes
+   */
+  private async notifyProcessFinished(process: RunningProcess): Promise<void> {
+    const config = this.config;
+    if (!config.enabled || !config.processDetection.notifyOnFinish || this.snoozeManager.isSnoozed(this.sessionState)) {
+      return;
+    }
+
+    const what = process.kind === 'task' ? `"${process.name}"` : Localization.t('Your command');
+    const message = process.exitCode !== undefined && process.exitCode !== 0
+      ? Localization.t('❌ {0} failed (exit code {1}) — time to take a look?', what, process.exitCode)
+      : Localization.t('✅ {0} finished — back to it?', what);
+
+    const checkIn = Localization.t('Check in now');
+    const snooze = Localization.t('Snooze...');
+    const action = await vscode.window.showInformationMessage(message, checkIn, snooze);
+
+    if (action === checkIn) {
+      await this.triggerPingNow();
+    } else if (action === snooze) {
+      await this.pickAndSnooze();
+    }
+  }
+
+  /**
+   * Update last activity timestamp and cancel pending pings.
+   * Weighted signals only count if they move the activity time forward
+   */
+  private updateActivity(activityAt: number = Date.now()): void {
+    if (activityAt <= this.sessionState.lastActivityAt) {
+      return;
+    }
+
+    this.sessionState.lastActivityAt = activityAt;
+    this.taskTracker.recordActivity(activityAt, this.sessionState.idleThresholdMs);
     this.cancelScheduledPing();
   }
 
@@ -116,13 +274,38 @@ export class TaskNudgeExtension {
    * Check if user has been idle and schedule ping if necessary
    */
   private checkForIdlePeriod(): void {
-    const config = ConfigManager.getConfig();
+    const config = this.config;
 
     if (!config.enabled) {
       return;
     }
 
+    if (this.snoozeManager.clearIfExpired(this.sessionState)) {
+      this.stateManager.saveState(this.sessionState);
+      console.log('Snooze expired, nudges resumed');
+    }
+
+    if (this.snoozeManager.isSnoozed(this.sessionState)) {
+      return;
+    }
+
     const now = Date.now();
+
+    // Outside working hours pings are either not scheduled at all or deferred when they fire
+    const schedule = this.schedule;
+    if (config.workingHours.outsideHours === 'suppress' && !schedule.isWorkingTime(now)) {
+      return;
+    }
+
+    if (schedule.isWorkingTime(now) && this.blockerTracker.shouldFollowUp(this.sessionState, config.blockerFollowUp, now)) {
+      this.suggestBlockerFollowUp().catch(error => console.error('Failed to suggest blocker follow-up:', error));
+    }
+
+    // Hold pings while a build, test run or deploy is running
+    if (config.processDetection.mode === 'hold' && this.processWatcher?.isHolding(now)) {
+      return;
+    }
+
     const timeSinceActivity = now - this.sessionState.lastActivityAt;
 
     // If idle threshold exceeded and no ping scheduled
@@ -132,16 +315,16 @@ export class TaskNudgeExtension {
   }
 
   /**
-   * Schedule a ping after the current interval
+   * Schedule a ping after the given delay (current interval by default)
    */
-  private schedulePing(): void {
-    this.sessionState.pingScheduledAt = Date.now() + this.sessionState.currentIntervalMs;
+  private schedulePing(delayMs: number = this.sessionState.currentIntervalMs): void {
+    this.sessionState.pingScheduledAt = Date.now() + delayMs;
 
     this.pingTimeout = setTimeout(() => {
       this.showPing();
-    }, this.sessionState.currentIntervalMs);
+    }, delayMs);
 
-    console.log(`Ping scheduled in ${this.sessionState.currentIntervalMs / 1000} seconds`);
+    console.log(`Ping scheduled in ${Math.round(delayMs / 1000)} seconds`);
   }
 
   /**
@@ -159,47 +342,753 @@ export class TaskNudgeExtension {
   /**
    * Show the ping dialog with Git analysis and voice integration
    */
-  private async showPing(): Promise<void> {
+  private async showPing(manual: boolean = false): Promise<void> {
     this.pingTimeout = undefined;
     this.sessionState.pingScheduledAt = null;
 
     try {
-      const config = ConfigManager.getConfig();
+      const config = this.config;
+      const schedule = this.schedule;
+
+      if (!manual && !schedule.isWorkingTime()) {
+        this.handleOutsideWorkingHours(config.workingHours.outsideHours, schedule);
+        return;
+      }
 
       // Analyze Git changes since last ping
-      const gitAnalysis = await this.gitSnapshotManager.compareWithLast();
+      const gitAnalysis = await this.gitSnapshotManager.compareWithLast(this.sessionState.lastGitSnapshot);
+
+      // Choose the questions that fit the situation
+      const pingConfig = { ...config, questions: this.selectQuestions(config, schedule, gitAnalysis.isStuck) };
 
       // Show dialog with voice and ChatGPT integration
-      const dialogResult = await this.dialogManager.showPingDialog(config, {
+      const dialogResult = await this.dialogManager.showPingDialog(pingConfig, {
         isStuck: gitAnalysis.isStuck,
         description: gitAnalysis.description,
         hasChanges: gitAnalysis.hasChanges,
         newFiles: gitAnalysis.newFiles || [],
-        detailedInfo: gitAnalysis.detailedInfo
-      });
+        detailedInfo: gitAnalysis.detailedInfo,
+        fileCount: gitAnalysis.fileCount
+      }, this.sessionState.activeBlocker, this.taskTracker.getActiveContext());
+      const taskId = this.taskTracker.getActive()?.id;
+
+      const gitSummary = {
+        isStuck: gitAnalysis.isStuck,
+        hasChanges: gitAnalysis.hasChanges,
+        description: gitAnalysis.description,
+        newFiles: gitAnalysis.newFiles || []
+      };
+
+      if (dialogResult.type !== 'answered') {
+        // Keep skipped pings too, so postpone/skip rates can be reviewed
+        await this.historyStore.recordSkipped(dialogResult.type, gitSummary, this.sessionState.currentIntervalMs, taskId);
+      }
+
+      if (dialogResult.type === 'snoozed') {
+        await this.snooze(dialogResult.snooze);
+      } else if (dialogResult.type === 'answered') {
+        const result = dialogResult.result;
+        const intervalMs = this.sessionState.currentIntervalMs;
 
-      if (dialogResult) {
         // Update session state with results
-        this.stateManager.updateStateFromDialog(this.sessionState, dialogResult);
-        await this.stateManager.saveState(this.sessionState);
+        this.stateManager.updateStateFromDialog(this.sessionState, result);
+        this.sessionState.lastPingDate = schedule.getDateKey();
+
+        // Track how long the developer has been blocked
+        if (result.blockerResolved) {
+          await this.blockerTracker.resolve(this.sessionState);
+        }
+        await this.blockerTracker.update(
+          this.sessionState,
+          result.blockerType,
+          result.blockerSubject,
+          AnswerExtractor.findBlocker(result)
+        );
+
+        // Keep the time estimate, to compare it with the time actually spent
+        const estimateMinutes = DurationParser.parse(AnswerExtractor.findEstimate(result));
+        if (estimateMinutes !== undefined) {
+          await this.taskTracker.addEstimate(estimateMinutes);
+        }
 
         // Save current Git snapshot for next comparison
-        await this.gitSnapshotManager.saveCurrentSnapshot();
+        this.sessionState.lastGitSnapshot = await this.gitSnapshotManager.saveCurrentSnapshot(taskId);
+        await this.stateManager.saveState(this.sessionState);
+
+        // Keep the check-in in the persistent history
+        await this.historyStore.record({
+          timestamp: Date.now(),
+          taskId,
+          questions: result.questions,
+          questionIds: result.questionIds,
+          questionRoles: result.questionRoles,
+          answers: result.answers,
+          blockerType: result.blockerType,
+          blockerSubject: result.blockerSubject,
+          blockerClassification: result.blockerClassification,
+          gitAnalysis: gitSummary,
+          openingMessage: result.openingMessage,
+          encouragement: result.encouragement,
+          intervalMs,
+          estimateMinutes
+        });
 
         console.log(`Updated session state. New interval: ${this.sessionState.currentIntervalMs / 1000}s, Waiting: ${this.sessionState.isWaiting}`);
       }
     } catch (error) {
       console.error('Error showing ping dialog:', error);
-      await this.dialogManager.showNotification('Ошибка при показе диалога Task Nudge', 'error');
+      await this.dialogManager.showNotification(Localization.t('Task Nudge: failed to show the check-in dialog'), 'error');
     }
   }
 
+  /**
+   * Drop or defer a ping that fired outside working hours
+   */
+  private handleOutsideWorkingHours(outsideHours: 'suppress' | 'defer', schedule: ScheduleManager): void {
+    if (outsideHours === 'defer') {
+      const nextWorkingTime = schedule.getNextWorkingTime();
+      if (nextWorkingTime !== undefined) {
+        this.schedulePing(nextWorkingTime - Date.now());
+        console.log(`Ping deferred to ${new Date(nextWorkingTime).toLocaleString()}`);
+        return;
+      }
+    }
+
+    console.log('Ping suppressed outside working hours');
+  }
+
   /**
    * Manually trigger a ping (for the command)
    */
   public async triggerPingNow(): Promise<void> {
     this.cancelScheduledPing();
-    await this.showPing();
+    await this.showPing(true);
+  }
+
+  /**
+   * Persistent check-in history
+   */
+  public getHistoryStore(): HistoryStore {
+    return this.historyStore;
+  }
+
+  /**
+   * Get current nudge status for the status bar
+   */
+  public getStatus(): NudgeStatus {
+    const config = this.config;
+    const pingScheduled = !!this.pingTimeout && !!this.sessionState.pingScheduledAt;
+
+    // Without a scheduled ping, estimate when one would fire if the user stays idle
+    const nextPingAt = pingScheduled
+      ? this.sessionState.pingScheduledAt!
+      : Math.max(this.sessionState.lastActivityAt + this.sessionState.idleThresholdMs, Date.now()) + this.sessionState.currentIntervalMs;
+
+    return {
+      enabled: config.enabled,
+      nextPingAt,
+      pingScheduled,
+      currentIntervalMs: this.sessionState.currentIntervalMs,
+      isWaiting: this.sessionState.isWaiting,
+      blockerType: this.sessionState.blockerType,
+      snooze: this.snoozeManager.isSnoozed(this.sessionState) ? this.sessionState.snooze || null : null,
+      outsideWorkingHours: !this.schedule.isWorkingTime(),
+      lastActivity: this.activityTracker?.getLastEvent(),
+      runningProcesses: this.processWatcher?.getRunning() || [],
+      activeBlocker: this.sessionState.activeBlocker || null,
+      activeTask: this.taskTracker.getActiveContext()
+    };
+  }
+
+  /**
+   * Show quick actions menu (status bar click)
+   */
+  public async showQuickActions(): Promise<void> {
+    type QuickAction = vscode.QuickPickItem & { action: () => Promise<void> };
+    const isSnoozed = this.snoozeManager.isSnoozed(this.sessionState);
+
+    const items: QuickAction[] = [
+      {
+        label: `$(comment-discussion) ${Localization.t('Check in now')}`,
+        action: () => this.triggerPingNow()
+      }
+    ];
+
+    if (isSnoozed) {
+      items.push({
+        label: `$(debug-start) ${Localization.t('Resume nudges')}`,
+        description: this.sessionState.snooze ? this.snoozeManager.describe(this.sessionState.snooze) : undefined,
+        action: () => this.resume()
+      });
+    } else {
+      items.push(
+        {
+          label: `$(clock) ${Localization.t('Snooze...')}`,
+          action: () => this.pickAndSnooze()
+        },
+        {
+          label: `$(debug-pause) ${Localization.t('Pause nudges')}`,
+          detail: Localization.t('Until you resume them'),
+          action: () => this.snooze({ type: 'indefinite' })
+        }
+      );
+    }
+
+    if (this.sessionState.blockerType === 'none') {
+      items.push({
+        label: `$(watch) ${Localization.t('I\'m blocked...')}`,
+        action: () => this.pickAndMarkBlocked()
+      });
+    } else {
+      items.push({
+        label: `$(check) ${Localization.t('I\'m unblocked')}`,
+        description: StatusBarManager.describeBlocker(this.sessionState.blockerType),
+        action: () => this.setBlocker('none')
+      });
+    }
+
+    const activeTask = this.taskTracker.getActive();
+    if (activeTask) {
+      items.push(
+        {
+          label: `$(pass) ${Localization.t('Finish task')}`,
+          description: activeTask.title,
+          action: () => this.finishTask()
+        },
+        {
+          label: `$(arrow-swap) ${Localization.t('Switch task...')}`,
+          action: () => this.switchTask()
+        }
+      );
+    } else {
+      items.push({
+        label: `$(play) ${Localization.t('Start task...')}`,
+        action: () => this.taskTracker.getPaused().length > 0 ? this.switchTask() : this.startTask()
+      });
+    }
+
+    const choice = await vscode.window.showQuickPick(items, { placeHolder: 'Task Nudge' });
+    if (choice) {
+      await choice.action();
+    }
+  }
+
+  /**
+   * Ask for a task title and make it the current task, linked to the current branch
+   */
+  public async startTask(): Promise<void> {
+    const branch = await this.gitManager.getCurrentBranch();
+    const title = await vscode.window.showInputBox({
+      prompt: Localization.t('What are you working on?'),
+      placeHolder: branch ? Localization.t('e.g. {0}', branch) : Localization.t('Task title'),
+      validateInput: value => value.trim() ? undefined : Localization.t('Enter a task title')
+    });
+    if (!title) {
+      return;
+    }
+
+    const task = await this.taskTracker.start(title.trim(), branch);
+    this.sessionState.lastTaskDescription = task.title;
+    await this.stateManager.saveState(this.sessionState);
+    this.statusBarManager.refresh();
+
+    console.log(`Started task "${task.title}"${branch ? ` on ${branch}` : ''}`);
+  }
+
+  /**
+   * Switch to an unfinished task or start a new one
+   */
+  public async switchTask(): Promise<void> {
+    type TaskItem = vscode.QuickPickItem & { taskId?: string };
+    const items: TaskItem[] = [
+      { label: `$(add) ${Localization.t('New task...')}` },
+      ...this.taskTracker.getPaused().map(task => ({
+        label: task.title,
+        description: BlockerTracker.formatDuration(task.trackedMs),
+        detail: task.branch ? `$(git-branch) ${task.branch}` : undefined,
+        taskId: task.id
+      }))
+    ];
+
+    const active = this.taskTracker.getActive();
+    const choice = await vscode.window.showQuickPick(items, {
+      placeHolder: active ? Localization.t('Switch from "{0}" to...', active.title) : Localization.t('Which task are you working on?')
+    });
+    if (!choice) {
+      return;
+    }
+
+    if (!choice.taskId) {
+      await this.startTask();
+      return;
+    }
+
+    const task = await this.taskTracker.resume(choice.taskId);
+    if (task) {
+      this.sessionState.lastTaskDescription = task.title;
+      await this.stateManager.saveState(this.sessionState);
+      this.statusBarManager.refresh();
+
+      const branch = await this.gitManager.getCurrentBranch();
+      if (task.branch && branch && task.branch !== branch) {
+        vscode.window.showInformationMessage(Localization.t('Task Nudge: "{0}" was started on branch {1}, you\'re on {2}.', task.title, task.branch, branch));
+      }
+    }
+  }
+
+  /**
+   * Finish the current task
+   */
+  public async finishTask(): Promise<void> {
+    const task = await this.taskTracker.finish();
+    if (!task) {
+      vscode.window.showInformationMessage(Localization.t('Task Nudge: no task in progress.'));
+      return;
+    }
+
+    this.statusBarManager.refresh();
+
+    const accuracy = TaskTracker.getEstimateAccuracy(task);
+    const estimate = accuracy
+      ? Localization.t(' (estimated {0}, {1}% of the estimate)', BlockerTracker.formatDuration(accuracy.estimatedMinutes * 60000), Math.round(accuracy.ratio * 100))
+      : '';
+    vscode.window.showInformationMessage(Localization.t('Task Nudge: finished "{0}" after {1}{2}.', task.title, BlockerTracker.formatDuration(task.trackedMs), estimate));
+  }
+
+  /**
+   * Ask the user what is blocking them and update state
+   */
+  private async pickAndMarkBlocked(): Promise<void> {
+    const blockerType = await this.dialogManager.pickBlockerType();
+    if (!blockerType) {
+      return;
+    }
+
+    let subject: string | undefined;
+    if (blockerType === 'waiting_for_person' || blockerType === 'waiting_for_process') {
+      subject = await this.dialogManager.askBlockerSubject(
+        blockerType,
+        blockerType === 'waiting_for_person' ? this.sessionState.lastTeammate : undefined
+      );
+    }
+
+    await this.setBlocker(blockerType, subject);
+  }
+
+  /**
+   * Set blocker type manually
+   */
+  public async setBlocker(blockerType: BlockerType, subject?: string): Promise<void> {
+    this.stateManager.applyBlockerType(this.sessionState, blockerType);
+    if (blockerType === 'waiting_for_person' && subject) {
+      this.sessionState.lastTeammate = subject;
+    }
+    await this.blockerTracker.update(this.sessionState, blockerType, subject);
+    await this.stateManager.saveState(this.sessionState);
+    this.statusBarManager.refresh();
+
+    console.log(`Blocker set to ${blockerType}. New interval: ${this.sessionState.currentIntervalMs / 1000}s`);
+  }
+
+  /**
+   * Suggest following up on a long wait for a teammate
+   */
+  private async suggestBlockerFollowUp(): Promise<void> {
+    const blocker = this.sessionState.activeBlocker;
+    if (!blocker) {
+      return;
+    }
+
+    // Mark right away so the 10 second idle check doesn't show it again
+    this.blockerTracker.markFollowedUp(this.sessionState);
+    await this.stateManager.saveState(this.sessionState);
+
+    const subject = BlockerTracker.describeSubject(blocker);
+    const duration = BlockerTracker.formatDuration(Date.now() - blocker.startedAt);
+
+    const pinged = Localization.t('I pinged them');
+    const resolved = Localization.t('Resolved');
+    const action = await vscode.window.showInformationMessage(
+      Localization.t('You\'ve been waiting on {0} for {1} — ping them again?', subject, duration),
+      pinged,
+      resolved
+    );
+
+    if (action === pinged) {
+      this.blockerTracker.markFollowedUp(this.sessionState);
+      await this.stateManager.saveState(this.sessionState);
+    } else if (action === resolved) {
+      await this.setBlocker('none');
+    }
+  }
+
+  /**
+   * Show recorded blockers and how long they lasted
+   */
+  public async showBlockerHistory(): Promise<void> {
+    const history = this.blockerTracker.getHistory();
+    const active = this.sessionState.activeBlocker;
+
+    const items: vscode.QuickPickItem[] = [];
+
+    if (active) {
+      items.push({
+        label: `$(watch) ${BlockerTracker.describeSubject(active)}`,
+        description: Localization.t('{0} so far', BlockerTracker.formatDuration(Date.now() - active.startedAt)),
+        detail: `${StatusBarManager.describeBlocker(active.type)} · ${Localization.t('since {0}', new Date(active.startedAt).toLocaleString())}${active.description ? ' · ' + active.description : ''}`
+      });
+    }
+
+    for (const record of history) {
+      items.push({
+        label: `$(${record.resolution === 'resolved' ? 'check' : 'arrow-swap'}) ${BlockerTracker.describeSubject(record)}`,
+        description: BlockerTracker.formatDuration(record.endedAt - record.startedAt),
+        detail: `${StatusBarManager.describeBlocker(record.type)} · ${new Date(record.startedAt).toLocaleString()}${record.description ? ' · ' + record.description : ''}`
+      });
+    }
+
+    if (items.length === 0) {
+      vscode.window.showInformationMessage(Localization.t('Task Nudge: no blockers recorded yet.'));
+      return;
+    }
+
+    await vscode.window.showQuickPick(items, { placeHolder: Localization.t('Blocker history') });
+  }
+
+  /**
+   * Generate a standup summary and open it or copy it to the clipboard
+   */
+  public async generateStandup(): Promise<void> {
+    const config = this.config;
+
+    const markdown = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: Localization.t('Task Nudge: generating standup...')
+    }, async () => {
+      const summary = await this.standupGenerator.generate(this.sessionState.activeBlocker);
+      return config.standup.polishWithAI
+        ? new OpenAIManager(config.llm).polishStandup(summary)
+        : summary;
+    });
+
+    let output: 'editor' | 'clipboard' | undefined = config.standup.output === 'ask' ? undefined : config.standup.output;
+    if (!output) {
+      const choice = await vscode.window.showQuickPick([
+        { label: `$(go-to-file) ${Localization.t('Open in editor')}`, output: 'editor' as const },
+        { label: `$(copy) ${Localization.t('Copy to clipboard')}`, output: 'clipboard' as const }
+      ], { placeHolder: Localization.t('Standup summary is ready') });
+      output = choice?.output;
+    }
+
+    if (output === 'editor') {
+      const document = await vscode.workspace.openTextDocument({ content: markdown, language: 'markdown' });
+      await vscode.window.showTextDocument(document);
+    } else if (output === 'clipboard') {
+      await vscode.env.clipboard.writeText(markdown);
+      vscode.window.showInformationMessage(Localization.t('Task Nudge: standup copied to clipboard.'));
+    }
+  }
+
+  /**
+   * Open a report of AI usage and cost per month and per day
+   */
+  public async showUsage(): Promise<void> {
+    const markdown = UsageTracker.formatReport(await UsageTracker.query(), this.config.usage);
+    const document = await vscode.workspace.openTextDocument({ content: markdown, language: 'markdown' });
+    await vscode.window.showTextDocument(document);
+  }
+
+  /**
+   * Render the prompts of a use case against the current Git changes, task,
+   * blocker and last check-in, as they would be sent to the AI provider
+   */
+  public async previewPrompt(): Promise<void> {
+    type PreviewItem = vscode.QuickPickItem & { ids: PromptTemplateId[] };
+    const describeSources = (ids: PromptTemplateId[]) => ids
+      .map(id => `${id}: ${this.describePromptSource(PromptTemplates.get(id))}`)
+      .join(' · ');
+
+    const useCases: Array<[string, PromptTemplateId[]]> = [
+      [Localization.t('Opening message'), ['openingSystem', 'opening']],
+      [Localization.t('Check-in analysis'), ['analysisSystem', 'analysis']],
+      [Localization.t('Chat'), ['chatSystem']]
+    ];
+    const items: PreviewItem[] = useCases.map(([label, ids]) => ({ label, ids, detail: describeSources(ids) }));
+
+    const choice = await vscode.window.showQuickPick(items, { placeHolder: Localization.t('Which prompt do you want to preview?') });
+    if (!choice) {
+      return;
+    }
+
+    const config = this.config;
+    const openaiManager = new OpenAIManager(config.llm);
+    const task = this.taskTracker.getActiveContext();
+    const notes: string[] = [];
+    let messages: OpenAIMessage[];
+
+    if (choice.ids.includes('opening')) {
+      const gitAnalysis = await this.gitSnapshotManager.compareWithLast(this.sessionState.lastGitSnapshot);
+      messages = openaiManager.buildOpeningMessages(
+        { ...gitAnalysis, newFiles: gitAnalysis.newFiles || [] },
+        task,
+        this.sessionState.activeBlocker?.type
+      );
+    } else if (choice.ids.includes('analysis')) {
+      const last = (await this.historyStore.query()).pop();
+      if (!last) {
+        notes.push(Localization.t('No check-ins yet, so there are no answers to show.'));
+      }
+      const estimateNote = task?.estimate ? TaskTracker.describeEstimate(task.estimate.minutes, task.estimate.spentMs) : undefined;
+      messages = openaiManager.buildAnalysisMessages(
+        { questions: last?.questions ?? [], questionRoles: last?.questionRoles, answers: last?.answers ?? [] },
+        estimateNote,
+        last?.blockerType,
+        task
+      );
+    } else {
+      messages = [openaiManager.buildChatSystemMessage(task, this.sessionState.blockerType)];
+    }
+
+    const lines = [`# ${Localization.t('Prompt preview: {0}', choice.label)}`, ''];
+    if (notes.length > 0) {
+      lines.push(...notes.map(note => `_${note}_`), '');
+    }
+    choice.ids.forEach((id, index) => {
+      const template = PromptTemplates.get(id);
+      const unknown = PromptTemplates.findUnknownVariables(template.text);
+      lines.push(`## ${id} (${messages[index]?.role}) — ${this.describePromptSource(template)}`, '');
+      if (unknown.length > 0) {
+        lines.push(`**${Localization.t('Unknown variables: {0}', unknown.map(name => `{{${name}}}`).join(', '))}**`, '');
+      }
+      lines.push('````text', messages[index]?.content ?? '', '````', '');
+    });
+    lines.push(Localization.t('Variables: {0}', PromptTemplates.VARIABLES.map(name => `\`{{${name}}}\``).join(', ')));
+
+    const document = await vscode.workspace.openTextDocument({ content: lines.join('\n') + '\n', language: 'markdown' });
+    await vscode.window.showTextDocument(document);
+  }
+
+  private describePromptSource(template: PromptTemplate): string {
+    switch (template.source) {
+      case 'settings':
+        return Localization.t('from the taskNudge.prompts setting');
+      case 'file':
+        return Localization.t('from {0}', vscode.workspace.asRelativePath(template.path ?? ''));
+      default:
+        return Localization.t('built-in');
+    }
+  }
+
+  /**
+   * Open the insights dashboard
+   */
+  public showInsights(): void {
+    InsightsPanel.show(this.historyStore, this.taskTracker);
+  }
+
+  /**
+   * Export check-ins, chat transcripts and Git snapshots for a date range
+   */
+  public async exportData(): Promise<void> {
+    const choice = await vscode.window.showQuickPick([
+      {
+        label: `$(json) ${Localization.t('JSON bundle')}`,
+        detail: Localization.t('Check-ins, chat transcripts and Git snapshots. Can be imported again'),
+        format: 'json' as ExportFormat
+      },
+      {
+        label: '$(table) CSV',
+        detail: Localization.t('Check-ins only, one row per ping. Can be imported again'),
+        format: 'csv' as ExportFormat
+      },
+      {
+        label: `$(book) ${Localization.t('Markdown journal')}`,
+        detail: Localization.t('Check-ins and chat transcripts grouped by day'),
+        format: 'markdown' as ExportFormat
+      }
+    ], { placeHolder: Localization.t('Export format') });
+    if (!choice) {
+      return;
+    }
+
+    const range = await this.dialogManager.pickDateRange(Localization.t('Export which period?'));
+    if (!range) {
+      return;
+    }
+
+    const extension = DataExporter.getFileExtension(choice.format);
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, `task-nudge-export.${extension}`) : undefined,
+      filters: { [choice.label.replace(/^\$\([^)]+\) /, '')]: [extension] },
+      saveLabel: Localization.t('Export')
+    });
+    if (!target) {
+      return;
+    }
+
+    const bundle: ExportBundle = {
+      version: DataExporter.BUNDLE_VERSION,
+      exportedAt: Date.now(),
+      from: range.from,
+      to: range.to,
+      checkIns: await this.historyStore.query({ ...range, includeSkipped: true }),
+      chatMessages: await this.chatLogStore.query(range),
+      gitSnapshots: await this.gitSnapshotManager.getHistory(range)
+    };
+
+    try {
+      await vscode.workspace.fs.writeFile(target, Buffer.from(DataExporter.serialize(bundle, choice.format), 'utf8'));
+    } catch (error) {
+      console.error('Failed to export Task Nudge data:', error);
+      vscode.window.showErrorMessage(Localization.t('Task Nudge: export failed — {0}', error instanceof Error ? error.message : String(error)));
+      return;
+    }
+
+    const open = Localization.t('Open');
+    const action = await vscode.window.showInformationMessage(
+      Localization.t('Task Nudge: exported {0} check-in(s), {1} chat message(s) and {2} Git snapshot(s).', bundle.checkIns.length, bundle.chatMessages.length, bundle.gitSnapshots.length),
+      open
+    );
+    if (action === open) {
+      await vscode.window.showTextDocument(target);
+    }
+  }
+
+  /**
+   * Import a JSON bundle or CSV export, merging it with the existing data
+   */
+  public async importData(): Promise<void> {
+    const files = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      filters: { [Localization.t('Task Nudge export')]: ['json', 'csv'] },
+      openLabel: Localization.t('Import')
+    });
+    if (!files || files.length === 0) {
+      return;
+    }
+
+    try {
+      const content = Buffer.from(await vscode.workspace.fs.readFile(files[0])).toString('utf8');
+      const { bundle, invalid } = DataExporter.parse(content, files[0].path);
+
+      // Records are matched by id, so importing the same file twice adds nothing
+      const summary: ImportSummary = {
+        checkIns: await this.historyStore.import(bundle.checkIns),
+        chatMessages: await this.chatLogStore.import(bundle.chatMessages),
+        gitSnapshots: await this.gitSnapshotManager.importHistory(bundle.gitSnapshots),
+        duplicates: 0,
+        invalid
+      };
+      summary.duplicates = bundle.checkIns.length + bundle.chatMessages.length + bundle.gitSnapshots.length -
+        summary.checkIns - summary.chatMessages - summary.gitSnapshots;
+
+      console.log('Imported Task Nudge data:', summary);
+
+      let message = Localization.t('Task Nudge: imported {0} check-in(s), {1} chat message(s) and {2} Git snapshot(s).', summary.checkIns, summary.chatMessages, summary.gitSnapshots);
+      if (summary.duplicates > 0) {
+        message += ' ' + Localization.t('{0} already present.', summary.duplicates);
+      }
+      if (summary.invalid > 0) {
+        message += ' ' + Localization.t('{0} malformed record(s) skipped.', summary.invalid);
+      }
+      vscode.window.showInformationMessage(message);
+    } catch (error) {
+      console.error('Failed to import Task Nudge data:', error);
+      vscode.window.showErrorMessage(Localization.t('Task Nudge: import failed — {0}', error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /**
+   * Snooze nudges according to the request
+   */
+  public async snooze(request: SnoozeRequest): Promise<void> {
+    this.cancelScheduledPing();
+    const snooze = this.snoozeManager.applySnooze(this.sessionState, request);
+    await this.stateManager.saveState(this.sessionState);
+    this.statusBarManager.refresh();
+
+    console.log(`Nudges snoozed ${this.snoozeManager.describe(snooze)}`);
+
+    const resumeNow = Localization.t('Resume now');
+    const action = await vscode.window.showInformationMessage(
+      Localization.t('Task Nudge: nudges snoozed {0}.', this.snoozeManager.describe(snooze)),
+      resumeNow
+    );
+
+    if (action === resumeNow) {
+      await this.resume();
+    }
+  }
+
+  /**
+   * Ask the user for a snooze duration and apply it
+   */
+  public async pickAndSnooze(): Promise<void> {
+    const request = await this.dialogManager.pickSnoozeDuration();
+    if (request) {
+      await this.snooze(request);
+    }
+  }
+
+  /**
+   * Resume nudges after a snooze
+   */
+  public async resume(): Promise<void> {
+    if (!this.sessionState.snooze) {
+      vscode.window.showInformationMessage(Localization.t('Task Nudge: nudges are not snoozed.'));
+      return;
+    }
+
+    this.snoozeManager.resume(this.sessionState);
+    // Start counting idle time from now, so the next ping isn't immediate
+    this.sessionState.lastActivityAt = Date.now();
+    await this.stateManager.saveState(this.sessionState);
+    this.statusBarManager.refresh();
+
+    vscode.window.showInformationMessage(Localization.t('Task Nudge: nudges resumed.'));
+  }
+
+  /**
+   * Set or replace an API key in secret storage
+   */
+  public async setApiKey(): Promise<void> {
+    const kind = await this.dialogManager.pickApiKeyKind(Localization.t('Which key do you want to set?'));
+    const key = kind && await this.dialogManager.promptApiKey(kind);
+    if (!kind || !key) {
+      return;
+    }
+
+    try {
+      await ApiKeyStore.set(kind, key);
+      vscode.window.showInformationMessage(Localization.t('Task Nudge: API key saved to secure storage.'));
+    } catch (error) {
+      console.error('Failed to save the API key:', error);
+      vscode.window.showErrorMessage(Localization.t('Task Nudge: could not save the API key — {0}', error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /**
+   * Remove an API key from secret storage
+   */
+  public async clearApiKey(): Promise<void> {
+    if (!ApiKeyStore.get('llm') && !ApiKeyStore.get('tts')) {
+      vscode.window.showInformationMessage(Localization.t('Task Nudge: no API keys are stored.'));
+      return;
+    }
+
+    const kind = await this.dialogManager.pickApiKeyKind(Localization.t('Which key do you want to clear?'), true);
+    if (!kind) {
+      return;
+    }
+
+    try {
+      await ApiKeyStore.clear(kind);
+      vscode.window.showInformationMessage(Localization.t('Task Nudge: API key cleared.'));
+    } catch (error) {
+      console.error('Failed to clear the API key:', error);
+      vscode.window.showErrorMessage(Localization.t('Task Nudge: could not clear the API key — {0}', error instanceof Error ? error.message : String(error)));
+    }
   }
 
   /**
@@ -212,6 +1101,9 @@ export class TaskNudgeExtension {
     }
     this.cancelScheduledPing();
 
+    // Keep time tracked since the last periodic save
+    this.taskTracker.save().catch(error => console.error('Failed to save tasks:', error));
+
     // Dispose of event listeners
     this.disposables.forEach(d => d.dispose());
     this.disposables = [];
@@ -223,22 +1115,114 @@ export class TaskNudgeExtension {
 // Global extension instance
 let taskNudgeExtension: TaskNudgeExtension | undefined;
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext): Promise<void> {
+  // Language of notifications, dialogs, the chat view and AI prompts
+  Localization.load(context.extensionPath, ConfigManager.getConfig().uiLanguage);
+  context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+    if (event.affectsConfiguration('taskNudge.uiLanguage')) {
+      Localization.load(context.extensionPath, ConfigManager.getConfig().uiLanguage);
+    }
+  }));
+
   // Register chat view provider
-  const chatViewProvider = new ChatViewProvider(context.extensionUri, context);
+  const chatLogStore = new ChatLogStore(context);
+  const chatViewProvider = new ChatViewProvider(context.extensionUri, context, chatLogStore);
   context.subscriptions.push(
     vscode.window.registerWebviewViewProvider('task-nudge-chat-view', chatViewProvider)
   );
 
+  // Settings of older versions keep questions as plain strings
+  ConfigManager.migrateQuestionSettings().catch(error => console.error('Failed to migrate question settings:', error));
+
+  // API keys live in secret storage; older versions kept the key in settings
+  // Loaded before the extension is created, so the first configuration already has the keys
+  try {
+    await ApiKeyStore.load(context);
+    await ApiKeyStore.migrateFromSettings();
+  } catch (error) {
+    console.error('Failed to load API keys:', error);
+  }
+
+  // Usage log for the budget caps
+  try {
+    await UsageTracker.load(context);
+  } catch (error) {
+    console.error('Failed to load AI usage:', error);
+  }
+
   // Create extension instance with chat provider
-  taskNudgeExtension = new TaskNudgeExtension(context, chatViewProvider);
+  taskNudgeExtension = new TaskNudgeExtension(context, chatViewProvider, chatLogStore);
 
   // Register command for manual ping
   const checkNowCommand = vscode.commands.registerCommand('task-nudge.checkNow', () => {
     taskNudgeExtension?.triggerPingNow();
   });
 
-  context.subscriptions.push(checkNowCommand);
+  const snoozeCommand = vscode.commands.registerCommand('task-nudge.snooze', () => {
+    taskNudgeExtension?.pickAndSnooze();
+  });
+
+  const resumeCommand = vscode.commands.registerCommand('task-nudge.resume', () => {
+    taskNudgeExtension?.resume();
+  });
+
+  const menuCommand = vscode.commands.registerCommand(StatusBarManager.MENU_COMMAND, () => {
+    taskNudgeExtension?.showQuickActions();
+  });
+
+  const blockerHistoryCommand = vscode.commands.registerCommand('task-nudge.showBlockerHistory', () => {
+    taskNudgeExtension?.showBlockerHistory();
+  });
+
+  const standupCommand = vscode.commands.registerCommand('task-nudge.generateStandup', () => {
+    taskNudgeExtension?.generateStandup();
+  });
+
+  const insightsCommand = vscode.commands.registerCommand('task-nudge.showInsights', () => {
+    taskNudgeExtension?.showInsights();
+  });
+
+  const exportCommand = vscode.commands.registerCommand('task-nudge.exportData', () => {
+    taskNudgeExtension?.exportData();
+  });
+
+  const importCommand = vscode.commands.registerCommand('task-nudge.importData', () => {
+    taskNudgeExtension?.importData();
+  });
+
+  const startTaskCommand = vscode.commands.registerCommand('task-nudge.startTask', () => {
+    taskNudgeExtension?.startTask();
+  });
+
+  const switchTaskCommand = vscode.commands.registerCommand('task-nudge.switchTask', () => {
+    taskNudgeExtension?.switchTask();
+  });
+
+  const finishTaskCommand = vscode.commands.registerCommand('task-nudge.finishTask', () => {
+    taskNudgeExtension?.finishTask();
+  });
+
+  const setApiKeyCommand = vscode.commands.registerCommand(ApiKeyStore.SET_COMMAND, () => {
+    taskNudgeExtension?.setApiKey();
+  });
+
+  const clearApiKeyCommand = vscode.commands.registerCommand('task-nudge.clearApiKey', () => {
+    taskNudgeExtension?.clearApiKey();
+  });
+
+  const showUsageCommand = vscode.commands.registerCommand(UsageTracker.SHOW_COMMAND, () => {
+    taskNudgeExtension?.showUsage();
+  });
+
+  const previewPromptCommand = vscode.commands.registerCommand(PromptTemplates.PREVIEW_COMMAND, () => {
+    taskNudgeExtension?.previewPrompt();
+  });
+
+  context.subscriptions.push(
+    checkNowCommand, snoozeCommand, resumeCommand, menuCommand, blockerHistoryCommand, standupCommand, insightsCommand,
+    exportCommand, importCommand, startTaskCommand, switchTaskCommand, finishTaskCommand, setApiKeyCommand, clearApiKeyCommand,
+    showUsageCommand, previewPromptCommand
+  );
 
   // Ensure cleanup on deactivation
   context.subscriptions.push({
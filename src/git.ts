@@ -1,8 +1,11 @@
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
+import { GitCommit } from './types';
+import { Localization } from './localization';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 /**
  * Git integration for getting changed files context
@@ -95,14 +98,14 @@ export class GitManager {
     const changedFiles = await this.getChangedFiles();
 
     if (changedFiles.length === 0) {
-      return 'No changes in Git.';
+      return Localization.t('No changes in Git.');
     }
 
     if (changedFiles.length <= 3) {
-      return `Changed files: ${changedFiles.join(', ')}.`;
+      return Localization.t('Changed files: {0}.', changedFiles.join(', '));
     }
 
-    return `${changedFiles.length} files changed, including: ${changedFiles.slice(0, 3).join(', ')} and others.`;
+    return Localization.t('{0} files changed, including: {1} and others.', changedFiles.length, changedFiles.slice(0, 3).join(', '));
   }
 
   /**
@@ -112,7 +115,7 @@ export class GitManager {
     try {
       const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
       if (!workspaceRoot) {
-        return 'No open workspace.';
+        return Localization.t('No open workspace.');
       }
 
       // Get staged and unstaged changes
@@ -127,23 +130,23 @@ export class GitManager {
       let result = '';
 
       if (stagedDiff.trim()) {
-        result += '📋 Staged changes:\n';
+        result += `📋 ${Localization.t('Staged changes:')}\n`;
         result += this.formatDiffStat(stagedDiff) + '\n';
       }
 
       if (unstagedDiff.trim()) {
-        result += '📝 Unstaged changes:\n';
+        result += `📝 ${Localization.t('Unstaged changes:')}\n`;
         result += this.formatDiffStat(unstagedDiff) + '\n';
       }
 
       if (!result) {
-        result = 'No changes to display.';
+        result = Localization.t('No changes to display.');
       }
 
       return result.trim();
     } catch (error) {
       console.warn('Failed to get detailed diff:', error);
-      return 'Could not get detailed diff.';
+      return Localization.t('Could not get detailed diff.');
     }
   }
 
@@ -185,4 +188,89 @@ export class GitManager {
 
     return result;
   }
-}
\ No newline at end of file
+
+  /**
+   * Get the name of the checked out branch
+   */
+  async getCurrentBranch(): Promise<string | undefined> {
+    try {
+      if (this.gitExtension && this.gitExtension.isActive) {
+        const git = this.gitExtension.exports.getAPI(1);
+        const branch = git.repositories[0]?.state.HEAD?.name;
+        if (branch) {
+          return branch;
+        }
+      }
+
+      const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+      if (!workspaceRoot) {
+        return undefined;
+      }
+
+      const { stdout } = await execAsync('git rev-parse --abbrev-ref HEAD', { cwd: workspaceRoot });
+      const branch = stdout.trim();
+      // Detached HEAD has no branch name
+      return branch && branch !== 'HEAD' ? branch : undefined;
+    } catch (error) {
+      console.warn('Failed to get current branch:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get commits made by the current git user in a time range
+   */
+  async getCommits(since: Date, until?: Date): Promise<GitCommit[]> {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!workspaceRoot) {
+      return [];
+    }
+
+    try {
+      let author = '';
+      try {
+        const { stdout } = await execAsync('git config user.email', { cwd: workspaceRoot });
+        author = stdout.trim();
+      } catch (error) {
+        // No configured user - include all authors
+      }
+
+      // Arguments are passed to git as they are, without a shell expanding the author
+      const args = [
+        'log', '--no-merges', '--name-only',
+        '--pretty=format:%x1e%H%x1f%an%x1f%at%x1f%s',
+        `--since=${since.toISOString()}`
+      ];
+      if (until) {
+        args.push(`--until=${until.toISOString()}`);
+      }
+      if (author) {
+        args.push(`--author=${author}`);
+      }
+
+      const { stdout } = await execFileAsync('git', args, {
+        cwd: workspaceRoot,
+        maxBuffer: 10 * 1024 * 1024
+      });
+
+      return stdout
+        .split('\x1e')
+        .map(entry => entry.trim())
+        .filter(entry => entry.length > 0)
+        .map(entry => {
+          const [header, ...files] = entry.split('\n');
+          const [hash, authorName, timestamp, subject] = header.split('\x1f');
+          return {
+            hash,
+            author: authorName,
+            timestamp: parseInt(timestamp, 10) * 1000,
+            subject,
+            files: files.map(file => file.trim()).filter(file => file.length > 0)
+          };
+        });
+    } catch (error) {
+      console.warn('Failed to get git commits:', error);
+      return [];
+    }
+  }
+}
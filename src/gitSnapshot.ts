@@ -1,17 +1,22 @@
 import * as vscode from 'vscode';
-import { GitSnapshot } from './types';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { DateRangeFilter, GitSnapshot, GitSnapshotRecord } from './types';
 import { GitManager } from './git';
+import { JsonlFile } from './jsonl';
+import { HistoryStore } from './history';
+import { Localization } from './localization';
 
 /**
  * Manages Git snapshots for comparison between pings
  */
 export class GitSnapshotManager {
-  private context: vscode.ExtensionContext;
   private gitManager: GitManager;
+  private historyFile: JsonlFile<GitSnapshotRecord>;
 
   constructor(context: vscode.ExtensionContext, gitManager: GitManager) {
-    this.context = context;
     this.gitManager = gitManager;
+    this.historyFile = new JsonlFile<GitSnapshotRecord>(path.join(context.globalStorageUri.fsPath, 'snapshots.jsonl'));
   }
 
   /**
@@ -24,45 +29,76 @@ export class GitSnapshotManager {
     return {
       timestamp: Date.now(),
       changedFiles,
-      additions: 0, // TODO: можно добавить подсчёт строк
+      additions: 0, // TODO: count changed lines
       deletions: 0,
       summary
     };
   }
 
   /**
-   * Get last saved snapshot
+   * Take the current snapshot and add it to the snapshot history.
+   * The caller keeps it in the session state for the next comparison
    */
-  getLastSnapshot(): GitSnapshot | undefined {
-    const stored = this.context.workspaceState.get<GitSnapshot>('taskNudge.lastGitSnapshot');
-    return stored;
+  async saveCurrentSnapshot(taskId?: string): Promise<GitSnapshot> {
+    const snapshot = await this.getCurrentSnapshot();
+
+    // Keep every snapshot, so they can be exported along with the check-ins
+    try {
+      await this.historyFile.append({ id: randomUUID(), workspace: HistoryStore.getWorkspaceName(), taskId, ...snapshot });
+    } catch (error) {
+      console.error('Failed to write Git snapshot history:', error);
+    }
+
+    return snapshot;
   }
 
   /**
-   * Save current snapshot
+   * Query saved snapshots by date range and workspace, oldest first
    */
-  async saveCurrentSnapshot(): Promise<GitSnapshot> {
-    const snapshot = await this.getCurrentSnapshot();
-    await this.context.workspaceState.update('taskNudge.lastGitSnapshot', snapshot);
-    return snapshot;
+  async getHistory(filter: DateRangeFilter = {}): Promise<GitSnapshotRecord[]> {
+    let records: GitSnapshotRecord[];
+    try {
+      records = await this.historyFile.readAll();
+    } catch (error) {
+      console.error('Failed to read Git snapshot history:', error);
+      return [];
+    }
+
+    return records
+      .filter(record =>
+        (filter.from === undefined || record.timestamp >= filter.from) &&
+        (filter.to === undefined || record.timestamp < filter.to) &&
+        (filter.workspace === undefined || record.workspace === filter.workspace)
+      )
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Add imported snapshots, skipping ones that are already in the history.
+   * Returns how many were added
+   */
+  async importHistory(records: GitSnapshotRecord[]): Promise<number> {
+    return this.historyFile.appendNew(records, record => record.id);
   }
 
   /**
-   * Compare current state with last snapshot
+   * Compare current state with the snapshot from the previous check-in
    */
-  async compareWithLast(): Promise<{
+  async compareWithLast(lastSnapshot?: GitSnapshot): Promise<{
     hasChanges: boolean;
     newFiles: string[];
     changedFilesSinceLastPing: string[];
-    isStuck: boolean; // true если diff не изменился с последнего раза
+    isStuck: boolean; // true if the diff hasn't changed since last time
     description: string;
-    detailedInfo: string; // Детальная информация о сравнении
+    detailedInfo: string; // Detailed comparison for the chat
+    fileCount: number; // Files in the diff now
   }> {
     const currentSnapshot = await this.getCurrentSnapshot();
-    const lastSnapshot = this.getLastSnapshot();
 
     if (!lastSnapshot) {
-      const detailedInfo = `Первый анализ Git состояния:\n- Файлов изменено: ${currentSnapshot.changedFiles.length}\n- Список: ${currentSnapshot.changedFiles.join(', ') || 'нет изменений'}`;
+      const detailedInfo = Localization.t('First Git analysis:') + '\n' +
+        `- ${Localization.t('Files changed: {0}', currentSnapshot.changedFiles.length)}\n` +
+        `- ${Localization.t('Files: {0}', currentSnapshot.changedFiles.join(', ') || Localization.t('no changes'))}`;
 
       return {
         hasChanges: currentSnapshot.changedFiles.length > 0,
@@ -70,11 +106,12 @@ export class GitSnapshotManager {
         changedFilesSinceLastPing: [],
         isStuck: false,
         description: currentSnapshot.summary,
-        detailedInfo
+        detailedInfo,
+        fileCount: currentSnapshot.changedFiles.length
       };
     }
 
-    // Сравниваем файлы
+    // Compare the files
     const lastFiles = new Set(lastSnapshot.changedFiles);
     const currentFiles = new Set(currentSnapshot.changedFiles);
 
@@ -82,13 +119,13 @@ export class GitSnapshotManager {
     const removedFiles = lastSnapshot.changedFiles.filter(file => !currentFiles.has(file));
     const isStuck = this.arraysEqual(lastSnapshot.changedFiles, currentSnapshot.changedFiles);
 
-    // Строим детальную информацию
-    let detailedInfo = `📊 Change Statistics:\n`;
-    detailedInfo += `• Files in diff before: ${lastSnapshot.changedFiles.length}\n`;
-    detailedInfo += `• Files in diff now: ${currentSnapshot.changedFiles.length}\n\n`;
+    // Build the detailed comparison
+    let detailedInfo = `📊 ${Localization.t('Change Statistics:')}\n`;
+    detailedInfo += `• ${Localization.t('Files in diff before: {0}', lastSnapshot.changedFiles.length)}\n`;
+    detailedInfo += `• ${Localization.t('Files in diff now: {0}', currentSnapshot.changedFiles.length)}\n\n`;
 
     if (newFiles.length > 0) {
-      detailedInfo += `✅ New changes (${newFiles.length}):\n`;
+      detailedInfo += `✅ ${Localization.t('New changes ({0}):', newFiles.length)}\n`;
       newFiles.forEach(file => {
         detailedInfo += `  • ${file}\n`;
       });
@@ -96,7 +133,7 @@ export class GitSnapshotManager {
     }
 
     if (removedFiles.length > 0) {
-      detailedInfo += `❌ Removed from diff (${removedFiles.length}):\n`;
+      detailedInfo += `❌ ${Localization.t('Removed from diff ({0}):', removedFiles.length)}\n`;
       removedFiles.forEach(file => {
         detailedInfo += `  • ${file}\n`;
       });
@@ -104,7 +141,7 @@ export class GitSnapshotManager {
     }
 
     if (currentSnapshot.changedFiles.length > 0 && newFiles.length === 0 && removedFiles.length === 0) {
-      detailedInfo += `📝 Same files as before:\n`;
+      detailedInfo += `📝 ${Localization.t('Same files as before:')}\n`;
       currentSnapshot.changedFiles.forEach(file => {
         detailedInfo += `  • ${file}\n`;
       });
@@ -112,22 +149,22 @@ export class GitSnapshotManager {
     }
 
     if (isStuck) {
-      detailedInfo += `⚠️ STATUS: Same changes, no progress`;
+      detailedInfo += `⚠️ ${Localization.t('STATUS: Same changes, no progress')}`;
     } else {
-      detailedInfo += `✅ STATUS: Progress detected!`;
+      detailedInfo += `✅ ${Localization.t('STATUS: Progress detected!')}`;
     }
 
-    detailedInfo += `\n\n🕐 Last survey time: ${new Date(lastSnapshot.timestamp).toLocaleString()}`;
+    detailedInfo += `\n\n🕐 ${Localization.t('Last survey time: {0}', new Date(lastSnapshot.timestamp).toLocaleString())}`;
 
     if (currentSnapshot.summary) {
-      detailedInfo += `\n\n📋 Brief description: ${currentSnapshot.summary}`;
+      detailedInfo += `\n\n📋 ${Localization.t('Brief description: {0}', currentSnapshot.summary)}`;
     }
 
-    // Добавляем детальный diff
+    // Add the detailed diff
     try {
       const detailedDiff = await this.gitManager.getDetailedDiff();
-      if (detailedDiff && detailedDiff !== 'No changes to display.' && detailedDiff !== 'Could not get detailed diff.') {
-        detailedInfo += `\n\n🔍 Detailed changes:\n${detailedDiff}`;
+      if (detailedDiff && detailedDiff !== Localization.t('No changes to display.') && detailedDiff !== Localization.t('Could not get detailed diff.')) {
+        detailedInfo += `\n\n🔍 ${Localization.t('Detailed changes:')}\n${detailedDiff}`;
       }
     } catch (error) {
       console.warn('Failed to get detailed diff for snapshot:', error);
@@ -135,11 +172,11 @@ export class GitSnapshotManager {
 
     let description = '';
     if (isStuck && currentSnapshot.changedFiles.length === 0) {
-      description = 'No changes since last time. Are you stuck?';
+      description = Localization.t('No changes since last time. Are you stuck?');
     } else if (isStuck && currentSnapshot.changedFiles.length > 0) {
-      description = `Same files as last time: ${currentSnapshot.summary}. No progress visible.`;
+      description = Localization.t('Same files as last time: {0}. No progress visible.', currentSnapshot.summary);
     } else if (newFiles.length > 0) {
-      description = `New changes: ${newFiles.join(', ')}. ${currentSnapshot.summary}`;
+      description = Localization.t('New changes: {0}. {1}', newFiles.join(', '), currentSnapshot.summary);
     } else {
       description = currentSnapshot.summary;
     }
@@ -150,7 +187,8 @@ export class GitSnapshotManager {
       changedFilesSinceLastPing: newFiles,
       isStuck,
       description,
-      detailedInfo
+      detailedInfo,
+      fileCount: currentSnapshot.changedFiles.length
     };
   }  /**
    * Helper to compare arrays
@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { CheckInOutcome, CheckInRecord, HistoryQuery } from './types';
+import { JsonlFile } from './jsonl';
+
+/**
+ * Persistent, append-only history of check-ins and skipped pings
+ */
+export class HistoryStore {
+  private file: JsonlFile<CheckInRecord>;
+
+  constructor(context: vscode.ExtensionContext) {
+    this.file = new JsonlFile<CheckInRecord>(path.join(context.globalStorageUri.fsPath, 'checkins.jsonl'));
+  }
+
+  /**
+   * Append a completed check-in to the history
+   */
+  async record(entry: Omit<CheckInRecord, 'id' | 'workspace'>): Promise<CheckInRecord> {
+    const record: CheckInRecord = {
+      id: randomUUID(),
+      workspace: HistoryStore.getWorkspaceName(),
+      outcome: 'completed',
+      ...entry
+    };
+
+    try {
+      await this.file.append(record);
+    } catch (error) {
+      console.error('Failed to write check-in history:', error);
+    }
+
+    return record;
+  }
+
+  /**
+   * Record a ping that was snoozed or dismissed instead of answered
+   */
+  async recordSkipped(
+    outcome: Exclude<CheckInOutcome, 'completed'>,
+    gitAnalysis: CheckInRecord['gitAnalysis'],
+    intervalMs: number,
+    taskId?: string
+  ): Promise<CheckInRecord> {
+    return this.record({
+      timestamp: Date.now(),
+      taskId,
+      outcome,
+      questions: [],
+      answers: [],
+      blockerType: 'none',
+      gitAnalysis,
+      openingMessage: '',
+      encouragement: '',
+      intervalMs
+    });
+  }
+
+  /**
+   * Query check-ins by date range and workspace, oldest first.
+   * Snoozed and dismissed pings are only included with includeSkipped
+   */
+  async query(filter: HistoryQuery = {}): Promise<CheckInRecord[]> {
+    let records: CheckInRecord[];
+    try {
+      records = await this.file.readAll();
+    } catch (error) {
+      console.error('Failed to read check-in history:', error);
+      return [];
+    }
+
+    return records
+      .filter(record =>
+        (filter.from === undefined || record.timestamp >= filter.from) &&
+        (filter.to === undefined || record.timestamp < filter.to) &&
+        (filter.workspace === undefined || record.workspace === filter.workspace) &&
+        (filter.includeSkipped || HistoryStore.isCompleted(record))
+      )
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Add imported check-ins, skipping ones that are already in the history.
+   * Returns how many were added
+   */
+  async import(records: CheckInRecord[]): Promise<number> {
+    return this.file.appendNew(records, record => record.id);
+  }
+
+  /**
+   * Names of all workspaces that have recorded check-ins
+   */
+  async getWorkspaces(): Promise<string[]> {
+    const records = await this.query({ includeSkipped: true });
+    return [...new Set(records.map(record => record.workspace))].sort();
+  }
+
+  /**
+   * Most recent check-in, optionally for one workspace
+   */
+  async getLatest(workspace?: string): Promise<CheckInRecord | undefined> {
+    const records = await this.query({ workspace });
+    return records[records.length - 1];
+  }
+
+  /**
+   * Check whether the record is an answered survey
+   */
+  static isCompleted(record: CheckInRecord): boolean {
+    return record.outcome === undefined || record.outcome === 'completed';
+  }
+
+  /**
+   * Name used to group history by workspace
+   */
+  static getWorkspaceName(): string {
+    return vscode.workspace.name || '(no workspace)';
+  }
+}
@@ -0,0 +1,189 @@
+import { BlockerType, CheckInRecord, EstimateAccuracy, InsightsBucket, InsightsData, InsightsQuery, InsightsWorkspaceSummary, TrackedTask } from './types';
+import { HistoryStore } from './history';
+import { AnswerExtractor } from './answers';
+import { TaskTracker } from './tasks';
+import { LocalDates } from './dates';
+
+/**
+ * Aggregates check-in history into trends for the insights dashboard
+ */
+export class InsightsCalculator {
+  // Longest gap between check-ins that is attributed to the previous blocker state
+  private static readonly MAX_BLOCKER_SPAN_MS = 2 * 60 * 60 * 1000;
+
+  private static readonly MOOD_KEYWORDS: Array<[number, string[]]> = [
+    [1, ['terrible', 'awful', 'bad', 'exhausted', 'ужасн', 'плохо', 'депресс']],
+    [2, ['tired', 'sad', 'stress', 'meh', 'устал', 'грустн', 'стресс']],
+    [5, ['excellent', 'great', 'awesome', 'amazing', 'fantastic', 'отлично', 'супер', 'прекрасн']],
+    [4, ['good', 'happy', 'fine', 'хорошо', 'весел', 'бодр']],
+    [3, ['ok', 'okay', 'normal', 'neutral', 'so-so', 'нормально', 'обычно', 'так себе']]
+  ];
+
+  /**
+   * Calculate dashboard data from history records (including skipped pings) and tracked tasks
+   */
+  static calculate(
+    records: CheckInRecord[],
+    query: InsightsQuery,
+    workspaces: string[],
+    tasks: TrackedTask[] = [],
+    now: number = Date.now()
+  ): InsightsData {
+    const inRange = records.filter(record =>
+      record.timestamp >= query.from &&
+      record.timestamp < query.to &&
+      (query.workspace === undefined || record.workspace === query.workspace)
+    );
+
+    const completed = inRange.filter(record => HistoryStore.isCompleted(record));
+    const moods = completed.map(record => this.getMood(record)).filter((mood): mood is number => mood !== null);
+    const estimates = tasks
+      .map(task => TaskTracker.getEstimateAccuracy(task))
+      .filter((accuracy): accuracy is EstimateAccuracy => !!accuracy && accuracy.finishedAt >= query.from && accuracy.finishedAt < query.to)
+      .sort((a, b) => b.finishedAt - a.finishedAt);
+
+    return {
+      query,
+      workspaces,
+      buckets: this.buildBuckets(inRange, query),
+      blockerMinutes: this.calculateBlockerMinutes(completed, Math.min(now, query.to)),
+      totals: {
+        checkIns: completed.length,
+        snoozed: inRange.filter(record => record.outcome === 'snoozed').length,
+        dismissed: inRange.filter(record => record.outcome === 'dismissed').length,
+        stuckRate: inRange.length > 0 ? inRange.filter(record => record.gitAnalysis.isStuck).length / inRange.length : null,
+        averageMood: this.average(moods),
+        averageIntervalMinutes: this.average(inRange.map(record => record.intervalMs / 60000))
+      },
+      perWorkspace: this.buildWorkspaceSummaries(records.filter(record =>
+        record.timestamp >= query.from && record.timestamp < query.to
+      )),
+      estimates,
+      averageEstimateRatio: this.average(estimates.map(estimate => estimate.ratio))
+    };
+  }
+
+  /**
+   * Convert a mood answer into a 1..5 score
+   */
+  static scoreMood(answer: string | undefined): number | null {
+    if (!answer) {
+      return null;
+    }
+
+    const numeric = answer.trim().match(/^([1-5])(\s*\/\s*5)?(\D|$)/);
+    if (numeric) {
+      return parseInt(numeric[1], 10);
+    }
+
+    const normalized = answer.toLowerCase();
+    for (const [score, keywords] of this.MOOD_KEYWORDS) {
+      if (keywords.some(keyword => normalized.includes(keyword))) {
+        return score;
+      }
+    }
+
+    return null;
+  }
+
+  private static getMood(record: CheckInRecord): number | null {
+    return this.scoreMood(AnswerExtractor.findMood(record));
+  }
+
+  /**
+   * Group records by day or week
+   */
+  private static buildBuckets(records: CheckInRecord[], query: InsightsQuery): InsightsBucket[] {
+    const buckets = new Map<string, CheckInRecord[]>();
+
+    // Pre-fill every day/week in range, so gaps show up as empty
+    for (let cursor = this.bucketStart(query.from, query.groupBy); cursor < query.to; cursor = this.nextBucket(cursor, query.groupBy)) {
+      buckets.set(LocalDates.dateKey(cursor), []);
+    }
+
+    for (const record of records) {
+      const key = LocalDates.dateKey(this.bucketStart(record.timestamp, query.groupBy));
+      buckets.get(key)?.push(record);
+    }
+
+    return [...buckets.entries()].map(([key, bucketRecords]) => {
+      const completed = bucketRecords.filter(record => HistoryStore.isCompleted(record));
+      return {
+        key,
+        checkIns: completed.length,
+        snoozed: bucketRecords.filter(record => record.outcome === 'snoozed').length,
+        dismissed: bucketRecords.filter(record => record.outcome === 'dismissed').length,
+        stuck: bucketRecords.filter(record => record.gitAnalysis.isStuck).length,
+        averageMood: this.average(completed.map(record => this.getMood(record)).filter((mood): mood is number => mood !== null)),
+        averageIntervalMinutes: this.average(bucketRecords.map(record => record.intervalMs / 60000))
+      };
+    });
+  }
+
+  /**
+   * Attribute the time between consecutive check-ins to the earlier check-in's blocker type
+   */
+  private static calculateBlockerMinutes(completed: CheckInRecord[], end: number): Record<BlockerType, number> {
+    const minutes: Record<BlockerType, number> = {
+      none: 0,
+      waiting_for_person: 0,
+      waiting_for_process: 0,
+      other: 0
+    };
+
+    const byWorkspace = new Map<string, CheckInRecord[]>();
+    for (const record of completed) {
+      byWorkspace.set(record.workspace, [...(byWorkspace.get(record.workspace) || []), record]);
+    }
+
+    for (const records of byWorkspace.values()) {
+      records.forEach((record, index) => {
+        const next = records[index + 1]?.timestamp ?? end;
+        const span = Math.min(Math.max(next - record.timestamp, 0), this.MAX_BLOCKER_SPAN_MS);
+        minutes[record.blockerType] = (minutes[record.blockerType] || 0) + span / 60000;
+      });
+    }
+
+    return minutes;
+  }
+
+  private static buildWorkspaceSummaries(records: CheckInRecord[]): InsightsWorkspaceSummary[] {
+    const groups = new Map<string, CheckInRecord[]>();
+    for (const record of records) {
+      groups.set(record.workspace, [...(groups.get(record.workspace) || []), record]);
+    }
+
+    return [...groups.entries()]
+      .map(([workspace, workspaceRecords]) => {
+        const completed = workspaceRecords.filter(record => HistoryStore.isCompleted(record));
+        return {
+          workspace,
+          checkIns: completed.length,
+          skipped: workspaceRecords.length - completed.length,
+          stuck: workspaceRecords.filter(record => record.gitAnalysis.isStuck).length,
+          averageMood: this.average(completed.map(record => this.getMood(record)).filter((mood): mood is number => mood !== null))
+        };
+      })
+      .sort((a, b) => b.checkIns - a.checkIns);
+  }
+
+  private static average(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  }
+
+  private static bucketStart(timestamp: number, groupBy: 'day' | 'week'): number {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    if (groupBy === 'week') {
+      // Weeks start on Monday
+      date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    }
+    return date.getTime();
+  }
+
+  private static nextBucket(timestamp: number, groupBy: 'day' | 'week'): number {
+    const date = new Date(timestamp);
+    date.setDate(date.getDate() + (groupBy === 'week' ? 7 : 1));
+    return date.getTime();
+  }
+}
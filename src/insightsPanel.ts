@@ -0,0 +1,596 @@
+import * as vscode from 'vscode';
+import { InsightsQuery } from './types';
+import { HistoryStore } from './history';
+import { InsightsCalculator } from './insights';
+import { TaskTracker } from './tasks';
+import { Localization } from './localization';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Webview panel with mood, blocker and progress trends from check-in history
+ */
+export class InsightsPanel {
+  public static readonly viewType = 'task-nudge-insights';
+  private static currentPanel: InsightsPanel | undefined;
+
+  // Messages the webview script translates with t()
+  private static readonly WEBVIEW_STRINGS = [
+    'Not blocked', 'Waiting for a teammate', 'Waiting for a process', 'Other blocker',
+    'Answered', 'Snoozed', 'Dismissed', 'Stuck', 'Minutes', 'All workspaces', 'Check-ins', 'Skip rate', 'Stuck rate',
+    'Average mood', 'Average interval', '{0} min', 'Actual / estimated time', 'No mood answers in this range.',
+    'No check-ins in this range.', 'No data in this range.', 'Workspace', 'Skipped', '{0}h', '{0}m',
+    'No finished tasks with an estimate in this range.', 'Task', 'Finished', 'Estimated', 'Actual', 'Accuracy',
+    'on target', '{0}% over', '{0}% under'
+  ];
+
+  private disposables: vscode.Disposable[] = [];
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly historyStore: HistoryStore,
+    private readonly taskTracker: TaskTracker
+  ) {
+    this.panel.webview.html = this.getHtmlForWebview();
+
+    this.panel.webview.onDidReceiveMessage(async (data) => {
+      switch (data.command) {
+        case 'query':
+          await this.sendData({
+            from: data.from,
+            to: data.to,
+            workspace: data.workspace || undefined,
+            groupBy: data.groupBy === 'week' ? 'week' : 'day'
+          });
+          break;
+      }
+    }, null, this.disposables);
+
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+  }
+
+  /**
+   * Show the insights panel, creating it if needed
+   */
+  public static show(historyStore: HistoryStore, taskTracker: TaskTracker): void {
+    if (InsightsPanel.currentPanel) {
+      InsightsPanel.currentPanel.panel.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      InsightsPanel.viewType,
+      Localization.t('Task Nudge Insights'),
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    InsightsPanel.currentPanel = new InsightsPanel(panel, historyStore, taskTracker);
+  }
+
+  /**
+   * Calculate insights for the query and post them to the webview
+   */
+  private async sendData(query: InsightsQuery): Promise<void> {
+    const records = await this.historyStore.query({ includeSkipped: true });
+    const workspaces = await this.historyStore.getWorkspaces();
+    const data = InsightsCalculator.calculate(records, query, workspaces, this.taskTracker.getFinished());
+
+    await this.panel.webview.postMessage({ command: 'data', data });
+  }
+
+  private dispose(): void {
+    InsightsPanel.currentPanel = undefined;
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+
+  private getHtmlForWebview(): string {
+    const today = new Date();
+    const defaultFrom = new Date(today.getTime() - 29 * DAY_MS);
+    const toInput = (date: Date) => `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+    return `
+    <!DOCTYPE html>
+    <html lang="${Localization.getLanguage()}">
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${Localization.t('Task Nudge Insights')}</title>
+        <style>
+            body {
+                font-family: var(--vscode-font-family);
+                font-size: var(--vscode-font-size);
+                color: var(--vscode-foreground);
+                padding: 12px 20px;
+            }
+
+            .filters {
+                display: flex;
+                flex-wrap: wrap;
+                gap: 8px;
+                align-items: center;
+                margin-bottom: 16px;
+            }
+
+            .filters input, .filters select {
+                background: var(--vscode-input-background);
+                color: var(--vscode-input-foreground);
+                border: 1px solid var(--vscode-input-border);
+                padding: 3px 6px;
+                font-family: inherit;
+            }
+
+            .filters button {
+                background: var(--vscode-button-secondaryBackground);
+                color: var(--vscode-button-secondaryForeground);
+                border: none;
+                padding: 4px 10px;
+                cursor: pointer;
+                font-family: inherit;
+            }
+
+            .cards {
+                display: grid;
+                grid-template-columns: repeat(auto-fill, minmax(150px, 1fr));
+                gap: 8px;
+                margin-bottom: 20px;
+            }
+
+            .card {
+                background: var(--vscode-editor-selectionBackground);
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 6px;
+                padding: 10px;
+            }
+
+            .card .value {
+                font-size: 20px;
+                font-weight: bold;
+            }
+
+            .card .label {
+                font-size: 11px;
+                opacity: 0.8;
+            }
+
+            h2 {
+                font-size: 13px;
+                margin: 20px 0 8px;
+            }
+
+            .chart svg {
+                width: 100%;
+                height: 160px;
+                overflow: visible;
+            }
+
+            .legend {
+                font-size: 11px;
+                display: flex;
+                gap: 12px;
+                margin-top: 4px;
+            }
+
+            .legend span::before {
+                content: '';
+                display: inline-block;
+                width: 10px;
+                height: 10px;
+                margin-right: 4px;
+                background: var(--swatch);
+            }
+
+            table {
+                border-collapse: collapse;
+                width: 100%;
+                font-size: 12px;
+            }
+
+            th, td {
+                text-align: left;
+                padding: 4px 8px;
+                border-bottom: 1px solid var(--vscode-panel-border);
+            }
+
+            .empty {
+                opacity: 0.7;
+                font-style: italic;
+            }
+        </style>
+    </head>
+    <body>
+        <div class="filters">
+            <label>${Localization.t('From')} <input type="date" id="from" value="${toInput(defaultFrom)}"></label>
+            <label>${Localization.t('To')} <input type="date" id="to" value="${toInput(today)}"></label>
+            <button data-days="7">${Localization.t('{0} days', 7)}</button>
+            <button data-days="30">${Localization.t('{0} days', 30)}</button>
+            <button data-days="90">${Localization.t('{0} days', 90)}</button>
+            <select id="groupBy">
+                <option value="day">${Localization.t('By day')}</option>
+                <option value="week">${Localization.t('By week')}</option>
+            </select>
+            <select id="workspace">
+                <option value="">${Localization.t('All workspaces')}</option>
+            </select>
+        </div>
+
+        <div class="cards" id="cards"></div>
+
+        <h2>${Localization.t('Mood (1–5)')}</h2>
+        <div class="chart" id="moodChart"></div>
+
+        <h2>${Localization.t('Check-ins, snoozed and dismissed pings')}</h2>
+        <div class="chart" id="pingChart"></div>
+
+        <h2>${Localization.t('Times Git analysis reported "stuck"')}</h2>
+        <div class="chart" id="stuckChart"></div>
+
+        <h2>${Localization.t('Average interval (minutes)')}</h2>
+        <div class="chart" id="intervalChart"></div>
+
+        <h2>${Localization.t('Time by blocker type')}</h2>
+        <div id="blockerChart"></div>
+
+        <h2>${Localization.t('Estimates vs. actual time (finished tasks)')}</h2>
+        <div id="estimateTable"></div>
+
+        <h2>${Localization.t('By workspace')}</h2>
+        <div id="workspaceTable"></div>
+
+        <script>
+            const vscode = acquireVsCodeApi();
+            const fromInput = document.getElementById('from');
+            const toInput = document.getElementById('to');
+            const groupBySelect = document.getElementById('groupBy');
+            const workspaceSelect = document.getElementById('workspace');
+            const DAY_MS = 24 * 60 * 60 * 1000;
+
+            // Messages in the UI language, keyed by the English text
+            const STRINGS = ${Localization.forWebview(InsightsPanel.WEBVIEW_STRINGS)};
+            function t(message, ...args) {
+                const text = STRINGS[message] || message;
+                return text.replace(/\\{(\\d+)\\}/g, (placeholder, index) => index < args.length ? String(args[index]) : placeholder);
+            }
+
+            const COLORS = {
+                primary: 'var(--vscode-charts-blue)',
+                green: 'var(--vscode-charts-green)',
+                yellow: 'var(--vscode-charts-yellow)',
+                red: 'var(--vscode-charts-red)',
+                purple: 'var(--vscode-charts-purple)'
+            };
+
+            const BLOCKER_LABELS = {
+                none: t('Not blocked'),
+                waiting_for_person: t('Waiting for a teammate'),
+                waiting_for_process: t('Waiting for a process'),
+                other: t('Other blocker')
+            };
+
+            function requestData() {
+                const from = new Date(fromInput.value + 'T00:00:00').getTime();
+                const to = new Date(toInput.value + 'T00:00:00').getTime() + DAY_MS;
+                vscode.postMessage({
+                    command: 'query',
+                    from,
+                    to,
+                    groupBy: groupBySelect.value,
+                    workspace: workspaceSelect.value
+                });
+            }
+
+            document.querySelectorAll('button[data-days]').forEach(button => {
+                button.addEventListener('click', () => {
+                    const days = parseInt(button.dataset.days, 10);
+                    const today = new Date();
+                    toInput.value = formatDate(today);
+                    fromInput.value = formatDate(new Date(today.getTime() - (days - 1) * DAY_MS));
+                    requestData();
+                });
+            });
+
+            [fromInput, toInput, groupBySelect, workspaceSelect].forEach(element => {
+                element.addEventListener('change', requestData);
+            });
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                if (message.command === 'data') {
+                    render(message.data);
+                }
+            });
+
+            function formatDate(date) {
+                return date.getFullYear() + '-' + String(date.getMonth() + 1).padStart(2, '0') + '-' + String(date.getDate()).padStart(2, '0');
+            }
+
+            function formatNumber(value, digits) {
+                return value === null || value === undefined ? '—' : value.toFixed(digits);
+            }
+
+            function render(data) {
+                renderWorkspaces(data.workspaces, data.query.workspace);
+                renderCards(data.totals, data.averageEstimateRatio);
+
+                const labels = data.buckets.map(b => b.key.slice(5));
+                lineChart('moodChart', labels, data.buckets.map(b => b.averageMood), 1, 5, COLORS.green);
+                barChart('pingChart', labels, [
+                    { name: t('Answered'), values: data.buckets.map(b => b.checkIns), color: COLORS.primary },
+                    { name: t('Snoozed'), values: data.buckets.map(b => b.snoozed), color: COLORS.yellow },
+                    { name: t('Dismissed'), values: data.buckets.map(b => b.dismissed), color: COLORS.red }
+                ]);
+                barChart('stuckChart', labels, [
+                    { name: t('Stuck'), values: data.buckets.map(b => b.stuck), color: COLORS.red }
+                ]);
+                barChart('intervalChart', labels, [
+                    { name: t('Minutes'), values: data.buckets.map(b => b.averageIntervalMinutes || 0), color: COLORS.purple }
+                ]);
+                renderBlockers(data.blockerMinutes);
+                renderWorkspaceTable(data.perWorkspace);
+                renderEstimateTable(data.estimates);
+            }
+
+            function renderWorkspaces(workspaces, selected) {
+                const current = selected || '';
+                workspaceSelect.innerHTML = '';
+                const all = document.createElement('option');
+                all.value = '';
+                all.textContent = t('All workspaces');
+                workspaceSelect.appendChild(all);
+                workspaces.forEach(name => {
+                    const option = document.createElement('option');
+                    option.value = name;
+                    option.textContent = name;
+                    workspaceSelect.appendChild(option);
+                });
+                workspaceSelect.value = current;
+            }
+
+            function renderCards(totals, averageEstimateRatio) {
+                const pings = totals.checkIns + totals.snoozed + totals.dismissed;
+                const cards = [
+                    [t('Check-ins'), totals.checkIns],
+                    [t('Snoozed'), totals.snoozed],
+                    [t('Dismissed'), totals.dismissed],
+                    [t('Skip rate'), pings ? Math.round((totals.snoozed + totals.dismissed) / pings * 100) + '%' : '—'],
+                    [t('Stuck rate'), totals.stuckRate === null ? '—' : Math.round(totals.stuckRate * 100) + '%'],
+                    [t('Average mood'), formatNumber(totals.averageMood, 1)],
+                    [t('Average interval'), totals.averageIntervalMinutes === null ? '—' : t('{0} min', Math.round(totals.averageIntervalMinutes))],
+                    [t('Actual / estimated time'), averageEstimateRatio === null ? '—' : averageEstimateRatio.toFixed(2) + '×']
+                ];
+
+                const container = document.getElementById('cards');
+                container.innerHTML = '';
+                cards.forEach(([label, value]) => {
+                    const card = document.createElement('div');
+                    card.className = 'card';
+                    const valueDiv = document.createElement('div');
+                    valueDiv.className = 'value';
+                    valueDiv.textContent = value;
+                    const labelDiv = document.createElement('div');
+                    labelDiv.className = 'label';
+                    labelDiv.textContent = label;
+                    card.appendChild(valueDiv);
+                    card.appendChild(labelDiv);
+                    container.appendChild(card);
+                });
+            }
+
+            function svgElement(name, attributes) {
+                const element = document.createElementNS('http://www.w3.org/2000/svg', name);
+                Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, value));
+                return element;
+            }
+
+            function addAxisLabels(svg, labels, width, height, slot) {
+                const step = Math.max(1, Math.ceil(labels.length / 12));
+                labels.forEach((label, index) => {
+                    if (index % step !== 0) {
+                        return;
+                    }
+                    const text = svgElement('text', {
+                        x: index * slot + slot / 2,
+                        y: height + 14,
+                        'text-anchor': 'middle',
+                        'font-size': 10,
+                        fill: 'currentColor'
+                    });
+                    text.textContent = label;
+                    svg.appendChild(text);
+                });
+            }
+
+            function barChart(id, labels, series) {
+                const container = document.getElementById(id);
+                container.innerHTML = '';
+                const width = 800;
+                const height = 140;
+                const totals = labels.map((_, i) => series.reduce((sum, s) => sum + (s.values[i] || 0), 0));
+                const max = Math.max(1, ...totals);
+                const slot = width / Math.max(labels.length, 1);
+
+                const svg = svgElement('svg', { viewBox: '0 0 ' + width + ' ' + (height + 20), preserveAspectRatio: 'none' });
+                labels.forEach((label, i) => {
+                    let y = height;
+                    series.forEach(s => {
+                        const value = s.values[i] || 0;
+                        const barHeight = value / max * height;
+                        y -= barHeight;
+                        const rect = svgElement('rect', {
+                            x: i * slot + slot * 0.15,
+                            y,
+                            width: slot * 0.7,
+                            height: barHeight,
+                            fill: s.color
+                        });
+                        const title = svgElement('title', {});
+                        title.textContent = label + ' — ' + s.name + ': ' + formatNumber(value, Number.isInteger(value) ? 0 : 1);
+                        rect.appendChild(title);
+                        svg.appendChild(rect);
+                    });
+                });
+                addAxisLabels(svg, labels, width, height, slot);
+                container.appendChild(svg);
+
+                if (series.length > 1) {
+                    const legend = document.createElement('div');
+                    legend.className = 'legend';
+                    series.forEach(s => {
+                        const item = document.createElement('span');
+                        item.style.setProperty('--swatch', s.color);
+                        item.textContent = s.name;
+                        legend.appendChild(item);
+                    });
+                    container.appendChild(legend);
+                }
+            }
+
+            function lineChart(id, labels, values, min, max, color) {
+                const container = document.getElementById(id);
+                container.innerHTML = '';
+                if (!values.some(value => value !== null)) {
+                    container.appendChild(emptyMessage(t('No mood answers in this range.')));
+                    return;
+                }
+
+                const width = 800;
+                const height = 140;
+                const slot = width / Math.max(labels.length, 1);
+                const svg = svgElement('svg', { viewBox: '0 0 ' + width + ' ' + (height + 20), preserveAspectRatio: 'none' });
+
+                const points = [];
+                values.forEach((value, i) => {
+                    if (value === null) {
+                        return;
+                    }
+                    const x = i * slot + slot / 2;
+                    const y = height - (value - min) / (max - min) * height;
+                    points.push(x + ',' + y);
+                    const dot = svgElement('circle', { cx: x, cy: y, r: 3, fill: color });
+                    const title = svgElement('title', {});
+                    title.textContent = labels[i] + ': ' + value.toFixed(1);
+                    dot.appendChild(title);
+                    svg.appendChild(dot);
+                });
+
+                svg.insertBefore(svgElement('polyline', {
+                    points: points.join(' '),
+                    fill: 'none',
+                    stroke: color,
+                    'stroke-width': 2
+                }), svg.firstChild);
+                addAxisLabels(svg, labels, width, height, slot);
+                container.appendChild(svg);
+            }
+
+            function renderBlockers(blockerMinutes) {
+                const container = document.getElementById('blockerChart');
+                container.innerHTML = '';
+                const total = Object.values(blockerMinutes).reduce((sum, value) => sum + value, 0);
+                if (!total) {
+                    container.appendChild(emptyMessage(t('No check-ins in this range.')));
+                    return;
+                }
+
+                const table = document.createElement('table');
+                Object.entries(blockerMinutes).forEach(([type, minutes]) => {
+                    const row = document.createElement('tr');
+                    const label = document.createElement('td');
+                    label.textContent = BLOCKER_LABELS[type] || type;
+                    const value = document.createElement('td');
+                    const hours = Math.floor(minutes / 60);
+                    value.textContent = formatMinutes(minutes) + ' (' + Math.round(minutes / total * 100) + '%)';
+                    row.appendChild(label);
+                    row.appendChild(value);
+                    table.appendChild(row);
+                });
+                container.appendChild(table);
+            }
+
+            function renderWorkspaceTable(perWorkspace) {
+                const container = document.getElementById('workspaceTable');
+                container.innerHTML = '';
+                if (!perWorkspace.length) {
+                    container.appendChild(emptyMessage(t('No data in this range.')));
+                    return;
+                }
+
+                const table = document.createElement('table');
+                const header = document.createElement('tr');
+                [t('Workspace'), t('Check-ins'), t('Skipped'), t('Stuck'), t('Average mood')].forEach(title => {
+                    const th = document.createElement('th');
+                    th.textContent = title;
+                    header.appendChild(th);
+                });
+                table.appendChild(header);
+
+                perWorkspace.forEach(summary => {
+                    const row = document.createElement('tr');
+                    [summary.workspace, summary.checkIns, summary.skipped, summary.stuck, formatNumber(summary.averageMood, 1)].forEach(value => {
+                        const td = document.createElement('td');
+                        td.textContent = value;
+                        row.appendChild(td);
+                    });
+                    table.appendChild(row);
+                });
+                container.appendChild(table);
+            }
+
+            function formatMinutes(minutes) {
+                const hours = Math.floor(minutes / 60);
+                return (hours ? t('{0}h', hours) + ' ' : '') + t('{0}m', Math.round(minutes % 60));
+            }
+
+            function emptyMessage(text) {
+                const div = document.createElement('div');
+                div.className = 'empty';
+                div.textContent = text;
+                return div;
+            }
+
+            function renderEstimateTable(estimates) {
+                const container = document.getElementById('estimateTable');
+                container.innerHTML = '';
+                if (!estimates.length) {
+                    container.appendChild(emptyMessage(t('No finished tasks with an estimate in this range.')));
+                    return;
+                }
+
+                const table = document.createElement('table');
+                const header = document.createElement('tr');
+                [t('Task'), t('Finished'), t('Estimated'), t('Actual'), t('Accuracy')].forEach(title => {
+                    const th = document.createElement('th');
+                    th.textContent = title;
+                    header.appendChild(th);
+                });
+                table.appendChild(header);
+
+                estimates.forEach(estimate => {
+                    const row = document.createElement('tr');
+                    const percent = Math.round((estimate.ratio - 1) * 100);
+                    [
+                        estimate.title,
+                        new Date(estimate.finishedAt).toLocaleDateString(),
+                        formatMinutes(estimate.estimatedMinutes),
+                        formatMinutes(estimate.actualMinutes),
+                        percent === 0 ? t('on target') : t(percent > 0 ? '{0}% over' : '{0}% under', Math.abs(percent))
+                    ].forEach(value => {
+                        const td = document.createElement('td');
+                        td.textContent = value;
+                        row.appendChild(td);
+                    });
+                    table.appendChild(row);
+                });
+                container.appendChild(table);
+            }
+
+            requestData();
+        </script>
+    </body>
+    </html>`;
+  }
+}
@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Append-only JSON Lines file (one JSON record per line)
+ */
+export class JsonlFile<T> {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Append a record. Writes are queued so concurrent appends never interleave
+   */
+  append(record: T): Promise<void> {
+    return this.appendMany([record]);
+  }
+
+  /**
+   * Append several records in one write
+   */
+  appendMany(records: T[]): Promise<void> {
+    if (records.length === 0) {
+      return this.writeQueue;
+    }
+
+    return this.enqueue(() => this.write(records));
+  }
+
+  /**
+   * Append only the records whose key is not in the file yet. Returns how many were appended.
+   * Reading and appending run as one queued write, so concurrent imports can't add a record twice
+   */
+  appendNew(records: T[], getKey: (record: T) => string): Promise<number> {
+    return this.enqueue(async () => {
+      const existing = new Set((await this.read()).map(getKey));
+      const added: T[] = [];
+
+      for (const record of records) {
+        const key = getKey(record);
+        if (!existing.has(key)) {
+          existing.add(key);
+          added.push(record);
+        }
+      }
+
+      await this.write(added);
+      return added.length;
+    });
+  }
+
+  /**
+   * Read all records. Lines that can't be parsed are skipped
+   */
+  async readAll(): Promise<T[]> {
+    await this.writeQueue.catch(() => undefined);
+    return this.read();
+  }
+
+  /**
+   * Path of the underlying file
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Run an operation after all queued writes
+   */
+  private enqueue<R>(operation: () => Promise<R>): Promise<R> {
+    const result = this.writeQueue.catch(() => undefined).then(operation);
+    this.writeQueue = result.then(() => undefined);
+    return result;
+  }
+
+  private async write(records: T[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, records.map(record => JSON.stringify(record) + '\n').join(''), 'utf8');
+  }
+
+  private async read(): Promise<T[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: T[] = [];
+    const lines = content.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line) as T);
+      } catch (error) {
+        console.warn(`Skipping corrupt line ${i + 1} in ${this.filePath}`);
+      }
+    }
+
+    return records;
+  }
+}
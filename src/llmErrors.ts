@@ -0,0 +1,207 @@
+import { LlmErrorAction, LlmErrorKind, LlmFailure } from './types';
+import { Localization } from './localization';
+import { ApiKeyStore } from './apiKeys';
+import { UsageTracker } from './usage';
+
+/**
+ * A failed LLM request, classified so that transient failures can be retried
+ * and the user can be told what to fix
+ */
+export class LlmError extends Error {
+  private static readonly RETRYABLE: LlmErrorKind[] = ['rateLimit', 'timeout', 'network', 'server'];
+
+  // Longest Retry-After we wait for before giving up
+  private static readonly MAX_RETRY_AFTER_MS = 30 * 1000;
+
+  constructor(
+    readonly kind: LlmErrorKind,
+    message: string,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+
+  /**
+   * Whether trying again later may succeed
+   */
+  get retryable(): boolean {
+    return LlmError.RETRYABLE.includes(this.kind)
+      && (this.retryAfterMs === undefined || this.retryAfterMs <= LlmError.MAX_RETRY_AFTER_MS);
+  }
+
+  /**
+   * Classify an HTTP error response by its status and the provider's error body
+   */
+  static fromResponse(status: number, body: string, retryAfter?: string | null): LlmError {
+    const details = this.readErrorBody(body);
+    const message = details.message || `HTTP ${status}`;
+    const text = `${details.code} ${details.type} ${details.message}`.toLowerCase();
+
+    // OpenAI reports an exhausted quota as 429, like a rate limit
+    if ([402, 403, 429].includes(status) && /insufficient_quota|quota|billing/.test(text)) {
+      return new LlmError('quota', message, status);
+    }
+    // OpenAI "model_not_found", Azure "DeploymentNotFound", Ollama "model ... not found"
+    if (/model|deployment/.test(text) && /not[ _]?found|notfound|does not exist|unknown|unsupported/.test(text)) {
+      return new LlmError('badModel', message, status);
+    }
+    if (status === 401 || status === 403) {
+      return new LlmError('invalidKey', message, status);
+    }
+    if (status === 429) {
+      return new LlmError('rateLimit', message, status, this.parseRetryAfter(retryAfter));
+    }
+    if (status === 408) {
+      return new LlmError('timeout', message, status);
+    }
+    if (status >= 500) {
+      return new LlmError('server', message, status);
+    }
+
+    return new LlmError('badRequest', message, status);
+  }
+
+  /**
+   * Classify an exception from fetch or from reading the response
+   */
+  static fromException(error: unknown): LlmError {
+    if (error instanceof LlmError) {
+      return error;
+    }
+    if (error instanceof SyntaxError) {
+      return new LlmError('server', `Malformed response: ${error.message}`);
+    }
+    // fetch rejects with a TypeError ("fetch failed") when the server can't be reached
+    const cause = error instanceof Error && error.cause instanceof Error ? `: ${error.cause.message}` : '';
+    return new LlmError('network', error instanceof Error ? error.message + cause : String(error));
+  }
+
+  /**
+   * Command that fixes the problem, for actions other than retrying
+   */
+  static getCommand(action: LlmErrorAction): [string, ...unknown[]] | undefined {
+    switch (action) {
+      case 'setKey':
+        return [ApiKeyStore.SET_COMMAND];
+      case 'openSettings':
+        return ['workbench.action.openSettings', 'taskNudge.llm'];
+      case 'showUsage':
+        return [UsageTracker.SHOW_COMMAND];
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * What the user can do about it
+   */
+  get action(): LlmErrorAction | undefined {
+    switch (this.kind) {
+      case 'notConfigured':
+      case 'invalidKey':
+        return 'setKey';
+      case 'badModel':
+      case 'badRequest':
+        return 'openSettings';
+      case 'rateLimit':
+      case 'timeout':
+      case 'network':
+      case 'server':
+        return 'retry';
+      case 'budget':
+        return 'showUsage';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Message and action for the user
+   */
+  toFailure(): LlmFailure {
+    const action = this.action;
+    return {
+      kind: this.kind,
+      message: this.describe(),
+      action,
+      actionLabel: action && LlmError.describeAction(action)
+    };
+  }
+
+  private describe(): string {
+    switch (this.kind) {
+      case 'notConfigured':
+        return Localization.t('AI is not configured. Set an API key or choose another LLM provider.');
+      case 'invalidKey':
+        return Localization.t('Invalid API key.');
+      case 'quota':
+        return Localization.t('The API quota is used up. Check your plan and billing with the provider.');
+      case 'rateLimit':
+        return Localization.t('Too many requests to the AI provider. Wait a moment and try again.');
+      case 'timeout':
+        return Localization.t('The AI provider did not answer in time.');
+      case 'network':
+        return Localization.t('Could not reach the AI provider. Check your connection and the endpoint in the settings.');
+      case 'badModel':
+        return Localization.t('The model is not available. {0}', this.message);
+      case 'server':
+        return Localization.t('The AI provider had an internal error.');
+      case 'badRequest':
+        return Localization.t('The AI provider rejected the request. {0}', this.message);
+      case 'budget':
+        // Says which budget, already in the UI language
+        return this.message;
+      case 'cancelled':
+        return Localization.t('Cancelled.');
+    }
+  }
+
+  private static describeAction(action: LlmErrorAction): string {
+    switch (action) {
+      case 'setKey':
+        return Localization.t('Set key...');
+      case 'retry':
+        return Localization.t('Retry');
+      case 'openSettings':
+        return Localization.t('Open settings');
+      case 'showUsage':
+        return Localization.t('Show usage');
+    }
+  }
+
+  /**
+   * `{"error": {"message", "type", "code"}}` from OpenAI and Azure, `{"error": "..."}` from some local servers
+   */
+  private static readErrorBody(body: string): { message: string; type: string; code: string } {
+    try {
+      const error = JSON.parse(body)?.error;
+      if (typeof error === 'string') {
+        return { message: error, type: '', code: '' };
+      }
+      return {
+        message: typeof error?.message === 'string' ? error.message : '',
+        type: typeof error?.type === 'string' ? error.type : '',
+        code: error?.code === undefined || error?.code === null ? '' : String(error.code)
+      };
+    } catch {
+      return { message: body.trim().slice(0, 200), type: '', code: '' };
+    }
+  }
+
+  /**
+   * Retry-After in seconds or as an HTTP date
+   */
+  private static parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return Math.max(seconds * 1000, 0);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+  }
+}
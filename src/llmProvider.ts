@@ -0,0 +1,128 @@
+import { LlmConfig, LlmModelSettings, LlmRequest, LlmUseCase, OpenAIMessage } from './types';
+
+/**
+ * Builds chat completion requests for an LLM API. Providers only differ in the
+ * endpoint, authentication and where the model goes; the response format is the
+ * OpenAI one for all of them
+ */
+export abstract class LlmProvider {
+  constructor(protected readonly config: LlmConfig) {}
+
+  /**
+   * Provider for the configured kind
+   */
+  static create(config: LlmConfig): LlmProvider {
+    switch (config.provider) {
+      case 'azure':
+        return new AzureOpenAIProvider(config);
+      case 'openaiCompatible':
+        return new OpenAICompatibleProvider(config);
+      default:
+        return new OpenAIProvider(config);
+    }
+  }
+
+  /**
+   * Whether the provider has everything it needs to send requests
+   */
+  abstract isConfigured(): boolean;
+
+  /**
+   * Build the request for a use case. `maxTokens` overrides the use case's limit
+   */
+  abstract buildRequest(messages: OpenAIMessage[], useCase: LlmUseCase, maxTokens?: number): LlmRequest;
+
+  /**
+   * Model settings for a use case
+   */
+  getModelSettings(useCase: LlmUseCase): LlmModelSettings {
+    return this.config.models[useCase];
+  }
+
+  /**
+   * Body fields of a streamed request. Token usage only comes at the end of a stream when asked for
+   */
+  getStreamFields(): Record<string, unknown> {
+    return { stream: true, stream_options: { include_usage: true } };
+  }
+
+  protected getBaseUrl(defaultUrl = ''): string {
+    return (this.config.baseUrl || defaultUrl).replace(/\/+$/, '');
+  }
+}
+
+/**
+ * Any server with the OpenAI chat completions API: Ollama, LM Studio, vLLM, a company proxy...
+ * The base URL is the one ending in `/v1`, and the API key is optional
+ */
+export class OpenAICompatibleProvider extends LlmProvider {
+  isConfigured(): boolean {
+    return this.getBaseUrl().length > 0;
+  }
+
+  buildRequest(messages: OpenAIMessage[], useCase: LlmUseCase, maxTokens?: number): LlmRequest {
+    const settings = this.getModelSettings(useCase);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    return {
+      url: `${this.getBaseUrl()}/chat/completions`,
+      headers,
+      body: {
+        model: settings.model,
+        messages,
+        max_tokens: maxTokens ?? settings.maxTokens,
+        temperature: settings.temperature
+      }
+    };
+  }
+}
+
+/**
+ * The public OpenAI API. The base URL can still point to a proxy
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  private static readonly DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+  isConfigured(): boolean {
+    return this.config.apiKey.length > 0;
+  }
+
+  protected getBaseUrl(): string {
+    return super.getBaseUrl(OpenAIProvider.DEFAULT_BASE_URL);
+  }
+}
+
+/**
+ * Azure OpenAI: the base URL is the resource endpoint and models are deployment names
+ */
+export class AzureOpenAIProvider extends LlmProvider {
+  isConfigured(): boolean {
+    return this.getBaseUrl().length > 0 && this.config.apiKey.length > 0;
+  }
+
+  buildRequest(messages: OpenAIMessage[], useCase: LlmUseCase, maxTokens?: number): LlmRequest {
+    const settings = this.getModelSettings(useCase);
+    const deployment = encodeURIComponent(settings.model);
+
+    return {
+      url: `${this.getBaseUrl()}/openai/deployments/${deployment}/chat/completions?api-version=${encodeURIComponent(this.config.apiVersion)}`,
+      headers: {
+        'Content-Type': 'application/json',
+        'api-key': this.config.apiKey
+      },
+      body: {
+        messages,
+        max_tokens: maxTokens ?? settings.maxTokens,
+        temperature: settings.temperature
+      }
+    };
+  }
+
+  // Older API versions reject stream_options, so streamed usage is estimated
+  getStreamFields(): Record<string, unknown> {
+    return { stream: true };
+  }
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+type L10nArgs = Array<string | number | boolean> | [Record<string, string | number | boolean>];
+
+// Bundle entries are either the translation or an object with a translator comment
+type L10nBundle = Record<string, string | { message: string; comment?: string[] }>;
+
+/**
+ * UI strings, prompts and fallback messages in the language of the `uiLanguage` setting.
+ * Translations are VS Code l10n bundles keyed by the English text (`l10n/bundle.l10n.<language>.json`),
+ * so a new language only needs a new bundle file
+ */
+export class Localization {
+  static readonly AUTO = 'auto';
+  static readonly DEFAULT_LANGUAGE = 'en';
+
+  private static extensionPath: string | undefined;
+  private static language = Localization.DEFAULT_LANGUAGE;
+  private static bundle: L10nBundle | undefined;
+
+  /**
+   * Load the bundle for the UI language. `auto` follows the VS Code display language
+   */
+  static load(extensionPath: string, uiLanguage: string): void {
+    this.extensionPath = extensionPath;
+    this.language = this.resolveLanguage(uiLanguage);
+    this.bundle = this.readBundle(this.language);
+  }
+
+  /**
+   * Current UI language code, e.g. "en" or "ru"
+   */
+  static getLanguage(): string {
+    return this.language;
+  }
+
+  /**
+   * Translate a message and fill in `{0}` / `{name}` placeholders.
+   * Messages without a translation are shown in English
+   */
+  static t(message: string, ...args: L10nArgs): string {
+    const entry = this.bundle?.[message];
+    const translated = typeof entry === 'string' ? entry : entry?.message;
+    return this.format(translated || message, args);
+  }
+
+  /**
+   * Fill in `{0}` / `{name}` placeholders
+   */
+  static format(message: string, args: L10nArgs): string {
+    const values: Record<string, string | number | boolean> = args.length === 1 && typeof args[0] === 'object'
+      ? args[0]
+      : Object.fromEntries((args as Array<string | number | boolean>).map((value, index) => [index, value]));
+    return message.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+      Object.prototype.hasOwnProperty.call(values, key) ? String(values[key]) : placeholder
+    );
+  }
+
+  /**
+   * Translations of webview messages as a script literal, for a t() function inside the webview
+   */
+  static forWebview(messages: string[]): string {
+    const strings = Object.fromEntries(messages.map(message => [message, this.t(message)]));
+    return JSON.stringify(strings).replace(/</g, '\\u003c');
+  }
+
+  private static resolveLanguage(uiLanguage: string): string {
+    const language = (uiLanguage || this.AUTO).trim().toLowerCase();
+    return language === this.AUTO ? vscode.env.language.toLowerCase() : language;
+  }
+
+  /**
+   * Read `bundle.l10n.<language>.json`, trying the base language ("pt" for "pt-br") next.
+   * English is the source language and has no bundle
+   */
+  private static readBundle(language: string): L10nBundle | undefined {
+    if (!this.extensionPath) {
+      return undefined;
+    }
+
+    const candidates = [language, language.split('-')[0]].filter((code, index, all) => all.indexOf(code) === index);
+    for (const code of candidates) {
+      if (code === this.DEFAULT_LANGUAGE) {
+        return undefined;
+      }
+
+      const file = path.join(this.extensionPath, 'l10n', `bundle.l10n.${code}.json`);
+      if (!fs.existsSync(file)) {
+        continue;
+      }
+
+      try {
+        const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+        this.language = code;
+        return data && typeof data === 'object' ? data : undefined;
+      } catch (error) {
+        console.error(`Failed to read l10n bundle ${file}:`, error);
+        return undefined;
+      }
+    }
+
+    console.log(`No l10n bundle for "${language}", using English`);
+    this.language = this.DEFAULT_LANGUAGE;
+    return undefined;
+  }
+}
@@ -1,21 +1,95 @@
-import { OpenAIMessage } from './types';
+import { BlockerType, ChatResponse, LlmConfig, LlmUsage, LlmUseCase, OpenAIMessage, PromptVariables, QuestionRole, SurveyAnswers, TaskContext } from './types';
+import { BlockerTracker } from './blockers';
+import { AnswerExtractor } from './answers';
+import { Localization } from './localization';
+import { LlmProvider } from './llmProvider';
+import { ChatStreamParser } from './chatStream';
+import { LlmError } from './llmErrors';
+import { UsageTracker } from './usage';
+import { PromptTemplates } from './prompts';
+import { StatusBarManager } from './statusBar';
+import { InsightsCalculator } from './insights';
 
 /**
- * OpenAI integration for generating personalized messages and analyzing responses
+ * Aborts a request when the caller cancels it or when nothing arrives from the
+ * provider for the timeout
+ */
+class RequestGuard {
+  private readonly controller = new AbortController();
+  private timer: NodeJS.Timeout | undefined;
+  private timedOut = false;
+  private readonly onCancel = () => this.controller.abort();
+
+  constructor(private readonly timeoutMs: number, private readonly cancel?: AbortSignal) {
+    cancel?.addEventListener('abort', this.onCancel);
+    if (cancel?.aborted) {
+      this.controller.abort();
+    }
+    this.touch();
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Restart the timeout, e.g. when a chunk of the answer arrives
+   */
+  touch(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timedOut = true;
+      this.controller.abort();
+    }, this.timeoutMs);
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.cancel?.removeEventListener('abort', this.onCancel);
+  }
+
+  /**
+   * Classify a failure, telling a cancel and a timeout apart from other aborts
+   */
+  toError(error: unknown): LlmError {
+    if (error instanceof LlmError) {
+      return error;
+    }
+    if (this.cancel?.aborted) {
+      return new LlmError('cancelled', 'Request cancelled');
+    }
+    if (this.timedOut) {
+      return new LlmError('timeout', `No response within ${this.timeoutMs / 1000} s`);
+    }
+    return LlmError.fromException(error);
+  }
+}
+
+/**
+ * LLM integration for generating personalized messages and analyzing responses.
+ * Requests go to the configured provider: OpenAI, an OpenAI-compatible server or Azure OpenAI
  */
 export class OpenAIManager {
-  private apiKey: string;
-  private baseUrl = 'https://api.openai.com/v1/chat/completions';
+  private static readonly RETRY_BASE_MS = 1000;
+
+  private provider: LlmProvider;
+  private timeoutMs: number;
+  private maxRetries: number;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  /**
+   * `onError` hears about failed requests that fall back to local messages
+   */
+  constructor(config: LlmConfig, private readonly onError?: (error: LlmError) => void) {
+    this.provider = LlmProvider.create(config);
+    this.timeoutMs = config.timeoutSeconds * 1000;
+    this.maxRetries = config.maxRetries;
   }
 
   /**
-   * Check if API key is configured
+   * Check if the LLM provider is configured
    */
   isConfigured(): boolean {
-    return this.apiKey.length > 0;
+    return this.provider.isConfigured();
   }
 
   /**
@@ -26,240 +100,447 @@ export class OpenAIManager {
     description: string;
     hasChanges: boolean;
     newFiles: string[];
-    detailedInfo?: string;
-  }): Promise<string> {
+    fileCount?: number;
+  }, task?: TaskContext | null, blockerType?: BlockerType): Promise<string> {
     if (!this.isConfigured()) {
       // Fallback messages if no API key
+      const taskPrefix = task ? `${this.describeTaskTime(task)} ` : '';
       if (gitAnalysis.isStuck) {
-        return 'I see you\'re stuck - nothing has changed in the code for a while.';
+        return taskPrefix + Localization.t('I see you\'re stuck - nothing has changed in the code for a while.');
       } else if (gitAnalysis.hasChanges) {
-        return `I see you\'re making changes: ${gitAnalysis.description}`;
+        return taskPrefix + Localization.t('I see you\'re making changes: {0}', gitAnalysis.description);
       } else {
-        return 'Looks like you haven\'t been coding for a while.';
+        return taskPrefix + Localization.t('Looks like you haven\'t been coding for a while.');
       }
     }
 
-    const prompt = this.buildOpeningPromptWithGitAnalysis(gitAnalysis);
-    const response = await this.callOpenAI([
-      { role: 'system', content: 'You are a friendly developer coach. Comment on the developer\'s progress based on Git analysis. Be encouraging but honest about progress. Speak in English, keep it brief and personal.' },
-      { role: 'user', content: prompt }
-    ]);
+    const response = await this.callOpenAI('opening', this.buildOpeningMessages(gitAnalysis, task, blockerType));
 
-    return response || this.getFallbackOpeningMessage(gitAnalysis);
+    return response || `${task ? this.describeTaskTime(task) + ' ' : ''}${this.getFallbackOpeningMessage(gitAnalysis)}`;
   }
 
   /**
    * Analyze developer answers and generate encouraging response
    */
-  async analyzeAnswersAndEncourage(questions: string[], answers: string[]): Promise<string> {
+  async analyzeAnswersAndEncourage(survey: SurveyAnswers, estimateNote?: string, blockerType?: BlockerType, task?: TaskContext | null): Promise<string> {
+    const fallback = () => estimateNote
+      ? `${this.getFallbackEncouragement(survey.answers)} ${estimateNote}`
+      : this.getFallbackEncouragement(survey.answers);
+
     if (!this.isConfigured()) {
-      return this.getFallbackEncouragement(answers);
+      return fallback();
     }
 
-    // Определяем настроение из ответов
-    const moodAnswer = this.findMoodAnswer(questions, answers);
-    const prompt = this.buildAnalysisPrompt(questions, answers, moodAnswer);
-
-    const systemPrompt = this.buildSystemPromptWithMood(moodAnswer);
+    const response = await this.callOpenAI('analysis', this.buildAnalysisMessages(survey, estimateNote, blockerType, task));
 
-    const response = await this.callOpenAI([
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: prompt }
-    ]);
-
-    return response || this.getFallbackEncouragement(answers);
+    return response || fallback();
   }
 
   /**
-   * Find mood answer in responses
+   * Messages for the opening message, from the `openingSystem` and `opening` templates
    */
-  private findMoodAnswer(questions: string[], answers: string[]): string {
-    for (let i = 0; i < questions.length && i < answers.length; i++) {
-      if (questions[i].toLowerCase().includes('настроение')) {
-        return answers[i];
-      }
-    }
-    return '';
+  buildOpeningMessages(gitAnalysis: {
+    isStuck: boolean;
+    description: string;
+    hasChanges: boolean;
+    newFiles: string[];
+    fileCount?: number;
+  }, task?: TaskContext | null, blockerType?: BlockerType): OpenAIMessage[] {
+    const variables: PromptVariables = {
+      gitSummary: this.describeGitProgress(gitAnalysis),
+      task: task ? this.describeTask(task) : '',
+      blockerType: this.describeBlockerType(blockerType)
+    };
+
+    return [
+      { role: 'system', content: PromptTemplates.render('openingSystem', variables) },
+      { role: 'user', content: PromptTemplates.render('opening', variables) }
+    ];
   }
 
   /**
-   * Build system prompt considering mood
+   * Messages for the answer analysis, from the `analysisSystem` and `analysis` templates.
+   * The tone depends on the mood
    */
-  private buildSystemPromptWithMood(moodAnswer: string): string {
-    let basePrompt = 'Ты - опытный ментор разработчиков. Проанализируй ответы и дай короткий подбадривающий совет на русском языке.';
-
-    if (moodAnswer) {
-      const mood = moodAnswer.toLowerCase();
-      if (mood.includes('плохо') || mood.includes('грустн') || mood.includes('устал') || mood.includes('депресс')) {
-        basePrompt += ' ВАЖНО: Разработчик в плохом настроении, будь особенно поддерживающим и мотивирующим.';
-      } else if (mood.includes('хорошо') || mood.includes('отлично') || mood.includes('весел') || mood.includes('бодр')) {
-        basePrompt += ' Разработчик в хорошем настроении, поддержи эту энергию!';
-      } else if (mood.includes('нормально') || mood.includes('обычно')) {
-        basePrompt += ' Разработчик в нейтральном настроении, мотивируй на продуктивность.';
-      }
-    }
+  buildAnalysisMessages(survey: SurveyAnswers, estimateNote?: string, blockerType?: BlockerType, task?: TaskContext | null): OpenAIMessage[] {
+    const moodAnswer = AnswerExtractor.findMood(survey) || '';
+    const unknownAnswers = this.countUnknownAnswers(survey.answers);
+    const variables: PromptVariables = {
+      answers: this.describeAnswers(survey),
+      mood: moodAnswer,
+      moodGuidance: moodAnswer ? this.describeMood(moodAnswer) : '',
+      unknownAnswers: unknownAnswers > 0 ? String(unknownAnswers) : '',
+      estimate: estimateNote ?? '',
+      blockerType: this.describeBlockerType(blockerType),
+      task: task ? this.describeTask(task) : ''
+    };
+
+    return [
+      { role: 'system', content: PromptTemplates.render('analysisSystem', variables) },
+      { role: 'user', content: PromptTemplates.render('analysis', variables) }
+    ];
+  }
 
-    return basePrompt;
+  /**
+   * System prompt of the chat, from the `chatSystem` template
+   */
+  buildChatSystemMessage(task?: TaskContext | null, blockerType?: BlockerType): OpenAIMessage {
+    return {
+      role: 'system',
+      content: PromptTemplates.render('chatSystem', {
+        task: task ? this.describeTask(task) : '',
+        blockerType: this.describeBlockerType(blockerType)
+      })
+    };
   }
 
   /**
-   * Build prompt for opening message generation
+   * Blocker for prompts; empty when nothing is blocking
    */
-  private buildOpeningPrompt(gitAnalysis: {
-    isStuck: boolean;
-    description: string;
-    hasChanges: boolean;
-  }): string {
-    let basePrompt = 'Сгенерируй короткое дружелюбное сообщение (1-2 предложения) для разработчика на основе анализа его Git активности:\n\n';
+  private describeBlockerType(blockerType?: BlockerType): string {
+    return blockerType && blockerType !== 'none' ? StatusBarManager.describeBlocker(blockerType) : '';
+  }
 
-    if (gitAnalysis.isStuck) {
-      basePrompt += `Разработчик застрял - изменения в коде не появляются или повторяются. ${gitAnalysis.description}`;
-    } else if (gitAnalysis.hasChanges) {
-      basePrompt += `Разработчик активно работает: ${gitAnalysis.description}`;
-    } else {
-      basePrompt += 'Разработчик давно не вносил изменения в код.';
+  /**
+   * Describe time spent on the task, e.g. "You've spent 3h on X today."
+   */
+  private describeTaskTime(task: TaskContext): string {
+    if (task.todayMs < 60 * 1000) {
+      return Localization.t('You\'re working on "{0}".', task.title);
     }
 
-    basePrompt += '\n\nСообщение должно быть:\n- Дружелюбным\n- Мотивирующим\n- На русском языке\n- Без "я вижу что"\n- Максимум 2 предложения';
+    const today = BlockerTracker.formatDuration(task.todayMs);
+    return task.totalMs > task.todayMs
+      ? Localization.t('You\'ve spent {0} on "{1}" today ({2} in total).', today, task.title, BlockerTracker.formatDuration(task.totalMs))
+      : Localization.t('You\'ve spent {0} on "{1}" today.', today, task.title);
+  }
 
-    return basePrompt;
+  /**
+   * How to take the mood into account, for the analysis system prompt.
+   * Scored like the insights dashboard, so scale answers such as "2/5" count too
+   */
+  private describeMood(moodAnswer: string): string {
+    const score = InsightsCalculator.scoreMood(moodAnswer);
+    if (score === null) {
+      return '';
+    } else if (score <= 2) {
+      return Localization.t('IMPORTANT: The developer is in a bad mood, be especially supportive and motivating.');
+    } else if (score >= 4) {
+      return Localization.t('The developer is in a good mood, keep that energy up!');
+    }
+    return Localization.t('The developer is in a neutral mood, motivate them to be productive.');
   }
 
   /**
-   * Build prompt with detailed Git analysis for opening message
+   * Git progress for the opening prompt
    */
-  private buildOpeningPromptWithGitAnalysis(gitAnalysis: {
+  private describeGitProgress(gitAnalysis: {
     isStuck: boolean;
     description: string;
     hasChanges: boolean;
     newFiles: string[];
-    detailedInfo?: string;
+    fileCount?: number;
   }): string {
-    let prompt = 'Generate a brief, encouraging message (1-2 sentences) for a developer based on their Git progress analysis:\n\n';
-
-    // Add progress context
+    let summary: string;
     if (gitAnalysis.isStuck && gitAnalysis.hasChanges) {
-      prompt += `🔄 STUCK: Developer is working on the same files with no progress. ${gitAnalysis.description}`;
+      summary = '🔄 ' + Localization.t('STUCK: Developer is working on the same files with no progress. {0}', gitAnalysis.description);
     } else if (gitAnalysis.newFiles.length > 0) {
-      prompt += `✅ PROGRESS: New changes detected in: ${gitAnalysis.newFiles.join(', ')}. ${gitAnalysis.description}`;
+      summary = '✅ ' + Localization.t('PROGRESS: New changes detected in: {0}. {1}', gitAnalysis.newFiles.join(', '), gitAnalysis.description);
     } else if (gitAnalysis.hasChanges) {
-      prompt += `📝 ACTIVE: Developer is making changes. ${gitAnalysis.description}`;
+      summary = '📝 ' + Localization.t('ACTIVE: Developer is making changes. {0}', gitAnalysis.description);
     } else {
-      prompt += `💤 INACTIVE: No recent code changes detected.`;
+      summary = '💤 ' + Localization.t('INACTIVE: No recent code changes detected.');
     }
 
-    // Add file count context if available
-    if (gitAnalysis.detailedInfo) {
-      const fileCountMatch = gitAnalysis.detailedInfo.match(/Files in diff now: (\d+)/);
-      if (fileCountMatch) {
-        const fileCount = fileCountMatch[1];
-        prompt += ` Currently ${fileCount} files in working state.`;
-      }
+    if (gitAnalysis.fileCount) {
+      summary += ' ' + Localization.t('Currently {0} files in working state.', gitAnalysis.fileCount);
     }
 
-    prompt += '\n\nGenerate a message that:\n- Comments specifically on their progress (stuck/progressing/active)\n- Is encouraging and supportive\n- Is personal and conversational\n- Uses English\n- Is maximum 2 sentences\n- Does NOT start with "I see that"';
+    return summary;
+  }
 
-    return prompt;
+  /**
+   * Current task with the time spent on it
+   */
+  private describeTask(task: TaskContext): string {
+    const current = task.branch
+      ? Localization.t('Current task: "{0}" on branch {1}.', task.title, task.branch)
+      : Localization.t('Current task: "{0}".', task.title);
+    return `${current} ${this.describeTaskTime(task)}`;
   }
 
   /**
-   * Build prompt for answer analysis
+   * Questions and answers for the analysis prompt
    */
-  private buildAnalysisPrompt(questions: string[], answers: string[], moodAnswer?: string): string {
-    let prompt = 'Проанализируй ответы разработчика на вопросы и дай короткий подбадривающий совет:\n\n';
+  private describeAnswers(survey: SurveyAnswers): string {
+    const { questions, answers } = survey;
+    const roles = AnswerExtractor.getRoles(survey);
+    const blocks: string[] = [];
 
     for (let i = 0; i < questions.length && i < answers.length; i++) {
-      prompt += `Вопрос: ${questions[i]}\nОтвет: ${answers[i]}\n\n`;
+      const topic = this.describeRole(roles[i]);
+      blocks.push(
+        (topic ? Localization.t('Question ({0}): {1}', topic, questions[i]) : Localization.t('Question: {0}', questions[i])) + '\n' +
+        Localization.t('Answer: {0}', answers[i])
+      );
     }
 
-    // Добавляем особые инструкции для ответов "не знаю"
-    const unknownAnswers = answers.filter(answer =>
+    return blocks.join('\n\n');
+  }
+
+  /**
+   * Answers the developer didn't know or skipped, which get specific advice
+   */
+  private countUnknownAnswers(answers: string[]): number {
+    return answers.filter(answer =>
+      answer.toLowerCase().includes('don\'t know') ||
       answer.toLowerCase().includes('не знаю') ||
       answer.toLowerCase().includes('незнаю') ||
+      answer === '(skipped)' ||
       answer === '(пропущено)'
-    );
+    ).length;
+  }
 
-    if (unknownAnswers.length > 0) {
-      prompt += `\nОсобое внимание: разработчик ответил "не знаю" на ${unknownAnswers.length} вопрос(ов). Дай конкретные советы и подскажи к кому можно обратиться за помощью.\n`;
+  /**
+   * What an answer with the role is about, so the prompt doesn't depend on how questions are worded
+   */
+  private describeRole(role: QuestionRole): string | undefined {
+    switch (role) {
+      case 'task':
+        return Localization.t('current task');
+      case 'mood':
+        return Localization.t('mood');
+      case 'blocker':
+        return Localization.t('blocker');
+      case 'next_step':
+        return Localization.t('next step');
+      case 'helper':
+        return Localization.t('who can help');
+      case 'estimate':
+        return Localization.t('time estimate');
+      default:
+        return undefined;
     }
+  }
 
-    if (moodAnswer) {
-      prompt += `\nНастроение разработчика: ${moodAnswer}. Учти это в тоне ответа.\n`;
+  /**
+   * Ask for a blocker classification as JSON. Returns the raw response, or null if AI is unavailable
+   */
+  async classifyBlocker(blockerAnswer: string, helperAnswer?: string): Promise<string | null> {
+    if (!this.isConfigured()) {
+      return null;
     }
 
-    prompt += '\nОтвет должен быть:\n- Коротким (1-2 предложения)\n- Подбадривающим\n- Конструктивным\n- На русском языке\n- С конкретными советами для "не знаю" ответов';
+    let prompt = Localization.t('Blocker answer: {0}', blockerAnswer);
+    if (helperAnswer) {
+      prompt += '\n' + Localization.t('Who can help: {0}', helperAnswer);
+    }
+
+    // A short JSON answer, whatever the analysis limit is
+    return this.callOpenAI('analysis', [
+      {
+        role: 'system',
+        content: 'Classify what is blocking a developer. Reply with JSON only: {"type": "none" | "waiting_for_person" | "waiting_for_process" | "other", "confidence": number from 0 to 1, "subject": name of the person or process being waited on, or null}. Use "none" when nothing is blocking, "waiting_for_person" for reviews, answers or approvals from people, "waiting_for_process" for CI, builds, deploys and other automated processes. The answer may be in English or Russian.'
+      },
+      { role: 'user', content: prompt }
+    ], 100);
+  }
+
+  /**
+   * Polish a Markdown standup summary. Returns the original text if AI is unavailable
+   */
+  async polishStandup(markdown: string): Promise<string> {
+    if (!this.isConfigured()) {
+      return markdown;
+    }
 
-    return prompt;
+    // Standups are longer than the other answers, so they get their own limit
+    const response = await this.callOpenAI('analysis', [
+      { role: 'system', content: 'You help developers write daily standup updates. Rewrite the notes into a concise, natural standup in the same language as the notes. Keep the Markdown headings, every fact, commit and blocker, and do not invent anything.' },
+      { role: 'user', content: markdown }
+    ], 600);
+
+    return response || markdown;
   }
 
   /**
-   * Generate chat response for general conversation
+   * Generate chat response for general conversation, passing text on as it arrives.
+   * Failures come back as `error`, with whatever text arrived before them
    */
-  async generateChatResponse(messages: OpenAIMessage[]): Promise<string> {
+  async generateChatResponse(
+    messages: OpenAIMessage[],
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatResponse> {
     if (!this.isConfigured()) {
-      return 'OpenAI API key is required for full communication. Please configure it in extension settings.';
+      return { content: '', truncated: false, stopped: false, error: new LlmError('notConfigured', 'No LLM provider configured').toFailure() };
+    }
+    const budgetError = await this.getBudgetError();
+    if (budgetError) {
+      return { content: '', truncated: false, stopped: false, error: budgetError.toFailure() };
     }
 
+    const parser = new ChatStreamParser();
+    let guard: RequestGuard | undefined;
     try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages,
-          max_tokens: 300,
-          temperature: 0.8
-        })
-      });
-
-      if (!response.ok) {
-        console.error('OpenAI Chat API error:', response.status, response.statusText);
-        return 'Error calling OpenAI API. Check your API key and internet connection.';
+      const sent = await this.send('chat', messages, { stream: true, signal });
+      guard = sent.guard;
+      if (!sent.response.body) {
+        throw new LlmError('server', 'Empty response body');
       }
 
-      const data = await response.json() as any;
-      return data.choices?.[0]?.message?.content?.trim() || 'Could not get response from AI.';
+      const reader = sent.response.body.getReader();
+      const decoder = new TextDecoder();
+      while (!parser.done) {
+        const { value, done } = await reader.read();
+        guard.touch();
+        const text = done
+          ? parser.push(decoder.decode()) + parser.flush()
+          : parser.push(decoder.decode(value, { stream: true }));
+        if (text) {
+          onDelta(text);
+        }
+        if (done) {
+          break;
+        }
+      }
+      await reader.cancel().catch(() => undefined);
+
+      const content = parser.content.trim();
+      return {
+        content,
+        truncated: parser.finishReason === 'length',
+        stopped: false,
+        error: content ? undefined : new LlmError('server', 'Empty answer').toFailure()
+      };
     } catch (error) {
-      console.error('OpenAI Chat API call failed:', error);
-      return 'Error connecting to OpenAI. Check your settings.';
+      const llmError = guard ? guard.toError(error) : LlmError.fromException(error);
+      if (llmError.kind === 'cancelled') {
+        return { content: parser.content.trim(), truncated: false, stopped: true };
+      }
+      console.error(`LLM chat request failed (${llmError.kind}):`, llmError.message);
+      return { content: parser.content.trim(), truncated: false, stopped: false, error: llmError.toFailure() };
+    } finally {
+      guard?.dispose();
+      // Stopped and failed streams are billed for what was generated
+      if (guard) {
+        this.recordUsage('chat', messages, parser.usage, parser.content);
+      }
     }
   }
 
   /**
-   * Make API call to OpenAI
+   * Make a completion call with the use case's model settings. Failures are
+   * logged and reported to the error handler, and the caller falls back to a local message
    */
-  private async callOpenAI(messages: OpenAIMessage[]): Promise<string | null> {
-    try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages,
-          max_tokens: 150,
-          temperature: 0.7
-        })
-      });
-
-      if (!response.ok) {
-        console.error('OpenAI API error:', response.status, response.statusText);
-        return null;
-      }
+  private async callOpenAI(useCase: LlmUseCase, messages: OpenAIMessage[], maxTokens?: number): Promise<string | null> {
+    const budgetError = await this.getBudgetError();
+    if (budgetError) {
+      console.log(`LLM request skipped: ${budgetError.message}`);
+      this.onError?.(budgetError);
+      return null;
+    }
 
-      const data = await response.json() as any;
-      return data.choices?.[0]?.message?.content?.trim() || null;
+    let guard: RequestGuard | undefined;
+    try {
+      const sent = await this.send(useCase, messages, { maxTokens });
+      guard = sent.guard;
+      const data = await sent.response.json() as any;
+      const content = data.choices?.[0]?.message?.content?.trim() || null;
+      this.recordUsage(useCase, messages, ChatStreamParser.readUsage(data.usage), content ?? '');
+      return content;
     } catch (error) {
-      console.error('OpenAI API call failed:', error);
+      const llmError = guard ? guard.toError(error) : LlmError.fromException(error);
+      console.error(`LLM request failed (${llmError.kind}):`, llmError.message);
+      this.onError?.(llmError);
       return null;
+    } finally {
+      guard?.dispose();
+    }
+  }
+
+  /**
+   * Send a chat completion request to the provider, retrying transient failures
+   * with exponential backoff. The returned guard keeps the timeout running while
+   * the body is read and must be disposed
+   */
+  private async send(
+    useCase: LlmUseCase,
+    messages: OpenAIMessage[],
+    options: { maxTokens?: number; stream?: boolean; signal?: AbortSignal } = {}
+  ): Promise<{ response: Response; guard: RequestGuard }> {
+    const request = this.provider.buildRequest(messages, useCase, options.maxTokens);
+    const body = JSON.stringify(options.stream ? { ...request.body, ...this.provider.getStreamFields() } : request.body);
+
+    for (let attempt = 0; ; attempt++) {
+      const guard = new RequestGuard(this.timeoutMs, options.signal);
+      let error: LlmError;
+      try {
+        const response = await fetch(request.url, { method: 'POST', headers: request.headers, body, signal: guard.signal });
+        if (response.ok) {
+          return { response, guard };
+        }
+        error = LlmError.fromResponse(response.status, await response.text().catch(() => ''), response.headers.get('retry-after'));
+      } catch (exception) {
+        error = guard.toError(exception);
+      }
+      guard.dispose();
+
+      if (!error.retryable || attempt >= this.maxRetries) {
+        throw error;
+      }
+
+      const delay = error.retryAfterMs ?? OpenAIManager.RETRY_BASE_MS * 2 ** attempt * (1 + Math.random() / 2);
+      console.warn(`LLM request failed (${error.kind}: ${error.message}), retry ${attempt + 1} of ${this.maxRetries} in ${Math.round(delay)} ms`);
+      await OpenAIManager.wait(delay, options.signal);
     }
   }
 
+  /**
+   * Error for a used up budget, while AI features fall back to local messages
+   */
+  private async getBudgetError(): Promise<LlmError | undefined> {
+    switch (await UsageTracker.getCapReached()) {
+      case 'daily':
+        return new LlmError('budget', Localization.t('The daily AI budget is used up. AI features use offline messages until tomorrow.'));
+      case 'monthly':
+        return new LlmError('budget', Localization.t('The monthly AI budget is used up. AI features use offline messages until next month.'));
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Add a completion to the usage log. The model is the deployment name for Azure
+   */
+  private recordUsage(useCase: LlmUseCase, messages: OpenAIMessage[], usage: LlmUsage | undefined, completion: string): void {
+    const model = this.provider.getModelSettings(useCase).model;
+    const prompt = messages.map(message => message.content).join('\n');
+    UsageTracker.recordCompletion(useCase, model, usage, prompt, completion)
+      .catch(error => console.error('Failed to record AI usage:', error));
+  }
+
+  /**
+   * Wait between retries, unless the request is cancelled
+   */
+  private static wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new LlmError('cancelled', 'Request cancelled'));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new LlmError('cancelled', 'Request cancelled'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
   /**
    * Fallback opening message when API is not available
    */
@@ -269,11 +550,11 @@ export class OpenAIManager {
     hasChanges: boolean;
   }): string {
     if (gitAnalysis.isStuck) {
-      return 'Looks like you\'re stuck in the code. Maybe take a break or ask for help?';
+      return Localization.t('Looks like you\'re stuck in the code. Maybe take a break or ask for help?');
     } else if (gitAnalysis.hasChanges) {
-      return `I see activity in the code: ${gitAnalysis.description}. How are things with the task?`;
+      return Localization.t('I see activity in the code: {0}. How are things with the task?', gitAnalysis.description);
     } else {
-      return 'Haven\'t seen code changes in a while. Is everything okay with the task?';
+      return Localization.t('Haven\'t seen code changes in a while. Is everything okay with the task?');
     }
   }
 
@@ -282,11 +563,11 @@ export class OpenAIManager {
    */
   private getFallbackEncouragement(answers: string[]): string {
     const encouragements = [
-      'Sounds like a plan! Good luck with implementation!',
-      'Great that you know who to reach out to. Go for it!',
-      'The task seems challenging, but you can handle it!',
-      'Step-by-step approach is the right way. Good luck!',
-      'Excellent work! Keep up the momentum!'
+      Localization.t('Sounds like a plan! Good luck with implementation!'),
+      Localization.t('Great that you know who to reach out to. Go for it!'),
+      Localization.t('The task seems challenging, but you can handle it!'),
+      Localization.t('Step-by-step approach is the right way. Good luck!'),
+      Localization.t('Excellent work! Keep up the momentum!')
     ];
 
     return encouragements[Math.floor(Math.random() * encouragements.length)];
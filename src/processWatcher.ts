@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { ProcessDetectionConfig, RunningProcess } from './types';
+
+/**
+ * Detects running tasks, long terminal commands and debug sessions
+ */
+export class ProcessWatcher implements vscode.Disposable {
+  private onDidChangeEmitter = new vscode.EventEmitter<RunningProcess[]>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  private onDidFinishEmitter = new vscode.EventEmitter<RunningProcess>();
+  readonly onDidFinish = this.onDidFinishEmitter.event;
+
+  private tasks = new Map<vscode.TaskExecution, RunningProcess>();
+  private debugSessions = new Map<string, RunningProcess>();
+  private terminalCommands = new Map<vscode.TerminalShellExecution, RunningProcess>();
+  private pendingTerminalCommands = new Map<vscode.TerminalShellExecution, NodeJS.Timeout>();
+  private commandTerminals = new Map<vscode.TerminalShellExecution, vscode.Terminal>(); // To clean up when a terminal closes
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private getConfig: () => ProcessDetectionConfig) {
+    this.disposables.push(this.onDidChangeEmitter, this.onDidFinishEmitter);
+    this.registerListeners();
+  }
+
+  /**
+   * Currently running processes, respecting configuration
+   */
+  getRunning(): RunningProcess[] {
+    const config = this.getConfig();
+    if (!config.enabled) {
+      return [];
+    }
+
+    return [
+      ...(config.tasks ? this.tasks.values() : []),
+      ...(config.terminalCommands ? this.terminalCommands.values() : []),
+      ...(config.debugSessions ? this.debugSessions.values() : [])
+    ];
+  }
+
+  /**
+   * Check whether a running process should still hold pings. Dev servers and
+   * watchers started in a terminal never finish, so they stop holding after a while
+   */
+  isHolding(now = Date.now()): boolean {
+    return ProcessWatcher.holdsPings(this.getRunning(), this.getConfig().maxHoldMinutes, now);
+  }
+
+  /**
+   * Check whether any of the processes started less than the maximum hold time ago
+   */
+  static holdsPings(running: RunningProcess[], maxHoldMinutes: number, now = Date.now()): boolean {
+    const maxHoldMs = maxHoldMinutes * 60 * 1000;
+    return running.some(process => maxHoldMs <= 0 || now - process.startedAt < maxHoldMs);
+  }
+
+  /**
+   * Subscribe to task, terminal and debug events
+   */
+  private registerListeners(): void {
+    this.disposables.push(
+      vscode.tasks.onDidStartTaskProcess(event => {
+        // Background tasks (watchers, dev servers) never finish, so they are not a wait
+        if (event.execution.task.isBackground) {
+          return;
+        }
+        this.tasks.set(event.execution, {
+          kind: 'task',
+          name: event.execution.task.name,
+          startedAt: Date.now()
+        });
+        this.fireChange();
+      }),
+      vscode.tasks.onDidEndTaskProcess(event => {
+        const process = this.tasks.get(event.execution);
+        if (process) {
+          this.tasks.delete(event.execution);
+          this.finish({ ...process, exitCode: event.exitCode }, this.getConfig().tasks);
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.window.onDidStartTerminalShellExecution(event => {
+        const process: RunningProcess = {
+          kind: 'terminal',
+          name: event.execution.commandLine.value || event.terminal.name,
+          startedAt: Date.now()
+        };
+
+        // Only commands that keep running past the threshold count as a wait
+        const timer = setTimeout(() => {
+          this.pendingTerminalCommands.delete(event.execution);
+          this.terminalCommands.set(event.execution, process);
+          this.fireChange();
+        }, this.getConfig().longRunningSeconds * 1000);
+
+        this.pendingTerminalCommands.set(event.execution, timer);
+        this.commandTerminals.set(event.execution, event.terminal);
+      }),
+      vscode.window.onDidEndTerminalShellExecution(event => {
+        this.forgetPendingCommand(event.execution);
+
+        const process = this.terminalCommands.get(event.execution);
+        if (process) {
+          this.terminalCommands.delete(event.execution);
+          this.finish({ ...process, exitCode: event.exitCode }, this.getConfig().terminalCommands);
+        }
+      }),
+      // Closing a terminal doesn't always end its command first
+      vscode.window.onDidCloseTerminal(terminal => {
+        let changed = false;
+        for (const [execution, commandTerminal] of [...this.commandTerminals]) {
+          if (commandTerminal === terminal) {
+            this.forgetPendingCommand(execution);
+            changed = this.terminalCommands.delete(execution) || changed;
+          }
+        }
+        if (changed) {
+          this.fireChange();
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.debug.onDidStartDebugSession(session => {
+        this.debugSessions.set(session.id, {
+          kind: 'debug',
+          name: session.name,
+          startedAt: Date.now()
+        });
+        this.fireChange();
+      }),
+      vscode.debug.onDidTerminateDebugSession(session => {
+        const process = this.debugSessions.get(session.id);
+        if (process) {
+          this.debugSessions.delete(session.id);
+          // Debug sessions end when the user stops them, no "finished" nudge needed
+          this.fireChange();
+        }
+      })
+    );
+  }
+
+  /**
+   * Report a finished process if it ran long enough to matter
+   */
+  private finish(process: RunningProcess, tracked: boolean): void {
+    this.fireChange();
+
+    const config = this.getConfig();
+    const duration = Date.now() - process.startedAt;
+    if (config.enabled && tracked && duration >= config.longRunningSeconds * 1000) {
+      this.onDidFinishEmitter.fire(process);
+    }
+  }
+
+  private forgetPendingCommand(execution: vscode.TerminalShellExecution): void {
+    const timer = this.pendingTerminalCommands.get(execution);
+    if (timer) {
+      clearTimeout(timer);
+      this.pendingTerminalCommands.delete(execution);
+    }
+    this.commandTerminals.delete(execution);
+  }
+
+  private fireChange(): void {
+    this.onDidChangeEmitter.fire(this.getRunning());
+  }
+
+  /**
+   * Dispose of listeners and pending timers
+   */
+  dispose(): void {
+    this.pendingTerminalCommands.forEach(timer => clearTimeout(timer));
+    this.pendingTerminalCommands.clear();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PromptTemplate, PromptTemplateId, PromptVariable, PromptVariables } from './types';
+import { ConfigManager } from './config';
+import { Localization } from './localization';
+
+/**
+ * Prompt templates with `{{name}}` variables and `{{#name}}...{{/name}}` sections,
+ * which are dropped when the variable is empty. A template from the `taskNudge.prompts`
+ * setting wins over `.task-nudge/prompts/<id>.md` in a trusted workspace, which wins over the built-in one
+ */
+export class PromptTemplates {
+  static readonly PREVIEW_COMMAND = 'task-nudge.previewPrompt';
+  static readonly FOLDER = path.join('.task-nudge', 'prompts');
+
+  static readonly IDS: PromptTemplateId[] = ['openingSystem', 'opening', 'analysisSystem', 'analysis', 'chatSystem'];
+
+  static readonly VARIABLES: PromptVariable[] = [
+    'language', 'gitSummary', 'task', 'answers', 'mood', 'moodGuidance', 'unknownAnswers', 'estimate', 'blockerType'
+  ];
+
+  /**
+   * Render the template in use for a prompt
+   */
+  static render(id: PromptTemplateId, variables: PromptVariables): string {
+    return this.renderTemplate(this.get(id).text, variables);
+  }
+
+  /**
+   * The template in use for a prompt and where it comes from
+   */
+  static get(id: PromptTemplateId): PromptTemplate {
+    const fromSettings = ConfigManager.getConfig().prompts[id];
+    if (fromSettings?.trim()) {
+      return { id, text: fromSettings, source: 'settings' };
+    }
+
+    // Files from an untrusted workspace could steer the prompts, so only trusted ones are read
+    const folders = vscode.workspace.isTrusted ? vscode.workspace.workspaceFolders ?? [] : [];
+    for (const folder of folders) {
+      const file = path.join(folder.uri.fsPath, this.FOLDER, `${id}.md`);
+      try {
+        if (fs.existsSync(file)) {
+          return { id, text: fs.readFileSync(file, 'utf8'), source: 'file', path: file };
+        }
+      } catch (error) {
+        console.error(`Failed to read prompt template ${file}:`, error);
+      }
+    }
+
+    return { id, text: this.getDefault(id), source: 'default' };
+  }
+
+  /**
+   * Fill in variables. Variables the extension doesn't know are left as they are
+   */
+  static renderTemplate(template: string, variables: PromptVariables): string {
+    const withSections = template.replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_section, name: string, content: string) =>
+      this.getValue(name, variables) ? content : ''
+    );
+    // One pass, so {{...}} in answers is never expanded
+    return withSections
+      .replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        this.isVariable(name) ? this.getValue(name, variables) : placeholder
+      )
+      .trim();
+  }
+
+  /**
+   * Variable names in a template that the extension doesn't know, e.g. typos
+   */
+  static findUnknownVariables(template: string): string[] {
+    const names = [...template.matchAll(/\{\{\s*[#/]?(\w+)\s*\}\}/g)].map(match => match[1]);
+    return [...new Set(names)].filter(name => !this.isVariable(name));
+  }
+
+  /**
+   * Name of the UI language in English, for templates that ask for answers "in {{language}}"
+   */
+  static getLanguageName(): string {
+    const code = Localization.getLanguage();
+    try {
+      return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code;
+    } catch {
+      return code;
+    }
+  }
+
+  /**
+   * Built-in templates, in the UI language
+   */
+  static getDefault(id: PromptTemplateId): string {
+    switch (id) {
+      case 'openingSystem':
+        return Localization.t('You are a friendly developer coach. Comment on the developer\'s progress based on Git analysis. Be encouraging but honest about progress. Speak in English, keep it brief and personal.');
+      case 'opening':
+        return Localization.t('Generate a brief, encouraging message (1-2 sentences) for a developer based on their Git progress analysis:') +
+          '\n\n{{gitSummary}}\n\n' +
+          Localization.t('Generate a message that:\n- Comments specifically on their progress (stuck/progressing/active)\n- Is encouraging and supportive\n- Is personal and conversational\n- Uses English\n- Is maximum 2 sentences\n- Does NOT start with "I see that"') +
+          '{{#task}}\n\n{{task}} ' + Localization.t('Mention the time spent on the task.') + '{{/task}}';
+      case 'analysisSystem':
+        return Localization.t('You are an experienced developer mentor. Analyze the answers and give short, encouraging advice in English.') +
+          '{{#moodGuidance}} {{moodGuidance}}{{/moodGuidance}}';
+      case 'analysis':
+        return Localization.t('Analyze the developer\'s answers to the questions and give short, encouraging advice:') +
+          '\n\n{{answers}}\n\n' +
+          '{{#unknownAnswers}}' + Localization.t('Pay special attention: the developer answered "don\'t know" to {0} question(s). Give specific advice and suggest who they could ask for help.', '{{unknownAnswers}}') + '\n\n{{/unknownAnswers}}' +
+          '{{#mood}}' + Localization.t('The developer\'s mood: {0}. Take it into account in the tone of the answer.', '{{mood}}') + '\n\n{{/mood}}' +
+          Localization.t('The answer should be:\n- Short (1-2 sentences)\n- Encouraging\n- Constructive\n- In English\n- With specific advice for "don\'t know" answers') +
+          '{{#estimate}}\n\n' + Localization.t('Estimate accuracy: {0} Briefly comment on how the developer estimates tasks.', '{{estimate}}') + '{{/estimate}}';
+      case 'chatSystem':
+        return Localization.t('You are a friendly developer assistant in the Task Nudge extension. You help with tasks, give advice, and provide support. Answer concisely and to the point in English.');
+    }
+  }
+
+  private static isVariable(name: string): name is PromptVariable {
+    return (this.VARIABLES as string[]).includes(name);
+  }
+
+  private static getValue(name: string, variables: PromptVariables): string {
+    if (name === 'language') {
+      return variables.language ?? this.getLanguageName();
+    }
+    return this.isVariable(name) ? (variables[name] ?? '').trim() : '';
+  }
+}
@@ -0,0 +1,277 @@
+import { QuestionContext, QuestionDefinition, QuestionRole, QuestionSet, QuestionSkipRule, QuestionType } from './types';
+
+/**
+ * Normalizes configured check-in questions. Settings may hold plain strings
+ * (the format of older versions) or question objects with a type and id
+ */
+export class QuestionSchema {
+  static readonly SCALE_MIN = 1;
+  static readonly SCALE_MAX = 5;
+
+  private static readonly TYPES: QuestionType[] = ['text', 'scale', 'single', 'multi', 'yesno'];
+
+  private static readonly CONDITIONS: Array<keyof QuestionContext> = ['firstPingOfDay', 'stuck', 'waiting', 'endOfDay'];
+
+  private static readonly ROLES: QuestionRole[] = ['task', 'mood', 'blocker', 'next_step', 'helper', 'estimate', 'custom'];
+
+  // Wording of questions without a declared role, checked in order (estimate questions mention the task too)
+  private static readonly ROLE_KEYWORDS: Array<[QuestionRole, string[]]> = [
+    ['estimate', ['how much time', 'how long', 'estimate', 'сколько времени', 'оценк']],
+    ['mood', ['mood', 'feel', 'настроение', 'самочувств']],
+    ['blocker', ['block', 'блок', 'затрудн', 'challeng', 'stuck']],
+    ['helper', ['help', 'помощ', 'обратиться', 'reach out']],
+    ['next_step', ['next', 'следующ']],
+    ['task', ['task', 'задач', 'working on', 'работаешь']]
+  ];
+
+  /**
+   * Turn a configured list into question definitions. Strings become free-text
+   * questions; malformed entries are dropped and invalid types fall back to text
+   */
+  static normalize(raw: unknown): QuestionDefinition[] {
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+
+    const questions: QuestionDefinition[] = [];
+    const usedIds = new Set<string>();
+
+    raw.forEach((item, index) => {
+      const question = typeof item === 'string' ? this.fromText(item, index) : this.fromObject(item, index);
+      if (!question) {
+        return;
+      }
+
+      // Answers are looked up by id, so ids must be unique within a list
+      let id = question.id;
+      for (let n = 2; usedIds.has(id); n++) {
+        id = `${question.id}-${n}`;
+      }
+      usedIds.add(id);
+      questions.push({ ...question, id });
+    });
+
+    return questions;
+  }
+
+  /**
+   * Read configured question sets. Strings in a set's questions are ids of the
+   * regular questions; objects are questions of their own
+   */
+  static normalizeSets(raw: unknown, regular: QuestionDefinition[]): QuestionSet[] {
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+
+    const sets: QuestionSet[] = [];
+    raw.forEach((item, index) => {
+      if (typeof item !== 'object' || item === null || !Array.isArray((item as Record<string, unknown>).questions)) {
+        return;
+      }
+
+      const set = item as Record<string, unknown>;
+      const questions: QuestionDefinition[] = [];
+      (set.questions as unknown[]).forEach((question, questionIndex) => {
+        const resolved = typeof question === 'string'
+          ? regular.find(q => q.id === question)
+          : this.fromObject(question, questionIndex);
+        if (resolved && !questions.some(q => q.id === resolved.id)) {
+          questions.push(resolved);
+        }
+      });
+      if (questions.length === 0) {
+        return;
+      }
+
+      const when: Partial<QuestionContext> = {};
+      const rawWhen = typeof set.when === 'object' && set.when !== null ? set.when as Record<string, unknown> : {};
+      for (const condition of this.CONDITIONS) {
+        if (typeof rawWhen[condition] === 'boolean') {
+          when[condition] = rawWhen[condition] as boolean;
+        }
+      }
+
+      sets.push({ id: typeof set.id === 'string' && set.id ? set.id : `set-${index + 1}`, when, questions });
+    });
+
+    return sets;
+  }
+
+  /**
+   * First set whose conditions all hold in the context. A set without conditions always matches
+   */
+  static selectSet(sets: QuestionSet[], context: QuestionContext): QuestionSet | undefined {
+    return sets.find(set => this.CONDITIONS.every(condition =>
+      set.when[condition] === undefined || set.when[condition] === context[condition]
+    ));
+  }
+
+  /**
+   * Check whether a configured list still contains plain string questions
+   */
+  static needsMigration(raw: unknown): boolean {
+    return Array.isArray(raw) && raw.some(item => typeof item === 'string');
+  }
+
+  /**
+   * Guess the role of a question from its wording. Only for plain string
+   * questions and history saved before questions had roles
+   */
+  static inferRole(text: string): QuestionRole {
+    const normalized = text.toLowerCase();
+    return this.ROLE_KEYWORDS.find(([, keywords]) => keywords.some(k => normalized.includes(k)))?.[0] ?? 'custom';
+  }
+
+  /**
+   * Check whether a value is a known question role
+   */
+  static isRole(value: unknown): value is QuestionRole {
+    return this.ROLES.includes(value as QuestionRole);
+  }
+
+  /**
+   * Question roles, in order
+   */
+  static getRoles(questions: QuestionDefinition[]): QuestionRole[] {
+    return questions.map(question => question.role);
+  }
+
+  /**
+   * Question wording, in order
+   */
+  static getTexts(questions: QuestionDefinition[]): string[] {
+    return questions.map(question => question.text);
+  }
+
+  /**
+   * Question ids, in order
+   */
+  static getIds(questions: QuestionDefinition[]): string[] {
+    return questions.map(question => question.id);
+  }
+
+  private static fromText(text: string, index: number): QuestionDefinition | undefined {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return undefined;
+    }
+    const role = this.inferRole(trimmed);
+    return { id: this.defaultId(role, index), text: trimmed, type: 'text', role };
+  }
+
+  private static defaultId(role: QuestionRole, index: number): string {
+    return role === 'custom' ? `question-${index + 1}` : role.replace('_', '-');
+  }
+
+  /**
+   * Declared role, or the role named by the id ("next-step"), or custom
+   */
+  private static getRole(raw: Record<string, unknown>): QuestionRole {
+    if (this.isRole(raw.role)) {
+      return raw.role;
+    }
+    const fromId = typeof raw.id === 'string' ? raw.id.trim().replace('-', '_') : '';
+    return this.isRole(fromId) ? fromId : 'custom';
+  }
+
+  private static fromObject(item: unknown, index: number): QuestionDefinition | undefined {
+    if (typeof item !== 'object' || item === null) {
+      return undefined;
+    }
+
+    const raw = item as Record<string, unknown>;
+    const text = typeof raw.text === 'string' ? raw.text.trim() : '';
+    if (!text) {
+      return undefined;
+    }
+
+    const options = Array.isArray(raw.options)
+      ? raw.options.filter((option): option is string => typeof option === 'string' && option.trim().length > 0)
+      : [];
+    let type: QuestionType = this.TYPES.includes(raw.type as QuestionType) ? raw.type as QuestionType : 'text';
+    if ((type === 'single' || type === 'multi') && options.length === 0) {
+      type = 'text';
+    }
+
+    const role = this.getRole(raw);
+    const question: QuestionDefinition = {
+      id: typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : this.defaultId(role, index),
+      text,
+      type,
+      role
+    };
+
+    if (typeof raw.required === 'boolean') {
+      question.required = raw.required;
+    }
+    if (type === 'single' || type === 'multi') {
+      question.options = options;
+    }
+    if (type === 'scale') {
+      if (typeof raw.lowLabel === 'string') {
+        question.lowLabel = raw.lowLabel;
+      }
+      if (typeof raw.highLabel === 'string') {
+        question.highLabel = raw.highLabel;
+      }
+    }
+
+    const defaultValue = this.normalizeDefault(raw.default, question);
+    if (defaultValue !== undefined) {
+      question.default = defaultValue;
+    }
+
+    const skipIf = this.normalizeSkipRule(raw.skipIf);
+    if (skipIf) {
+      question.skipIf = skipIf;
+    }
+
+    return question;
+  }
+
+  private static normalizeSkipRule(value: unknown): QuestionSkipRule | undefined {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+
+    const raw = value as Record<string, unknown>;
+    const answers = Array.isArray(raw.answers)
+      ? raw.answers.filter((answer): answer is string => typeof answer === 'string')
+      : [];
+    if (typeof raw.question !== 'string' || !raw.question || (answers.length === 0 && raw.empty !== true)) {
+      return undefined;
+    }
+
+    const rule: QuestionSkipRule = { question: raw.question };
+    if (answers.length > 0) {
+      rule.answers = answers;
+    }
+    if (raw.empty === true) {
+      rule.empty = true;
+    }
+    return rule;
+  }
+
+  /**
+   * Keep a default only when it fits the question type
+   */
+  private static normalizeDefault(value: unknown, question: QuestionDefinition): QuestionDefinition['default'] {
+    switch (question.type) {
+      case 'text':
+        return typeof value === 'string' ? value : undefined;
+      case 'scale':
+        return typeof value === 'number' && Number.isInteger(value) && value >= this.SCALE_MIN && value <= this.SCALE_MAX
+          ? value
+          : undefined;
+      case 'single':
+        return typeof value === 'string' && question.options?.includes(value) ? value : undefined;
+      case 'multi': {
+        const values = Array.isArray(value) ? value : [value];
+        const picked = values.filter((v): v is string => typeof v === 'string' && !!question.options?.includes(v));
+        return picked.length > 0 ? picked : undefined;
+      }
+      case 'yesno':
+        return typeof value === 'boolean' ? value : undefined;
+    }
+  }
+}
@@ -0,0 +1,218 @@
+import { SessionState, Weekday, WorkingHoursConfig } from './types';
+import { DurationParser } from './duration';
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+interface LocalTime {
+  dateKey: string; // YYYY-MM-DD
+  weekday: Weekday;
+  minutes: number; // Minutes since local midnight
+}
+
+interface TimeRange {
+  start: number;
+  end: number; // Past 24:00 for ranges that end the next day
+}
+
+const DAY_MINUTES = 24 * 60;
+
+/**
+ * Working-hours schedule: decides when nudges are allowed
+ */
+export class ScheduleManager {
+  private static warnedTimeZones = new Set<string>();
+  private static warnedRanges = new Set<string>();
+
+  private formatter: Intl.DateTimeFormat;
+
+  constructor(private config: WorkingHoursConfig) {
+    this.formatter = this.createFormatter(config.timeZone);
+  }
+
+  /**
+   * Check whether the given moment is inside working hours
+   */
+  isWorkingTime(now: number = Date.now()): boolean {
+    if (!this.config.enabled) {
+      return true;
+    }
+
+    const local = this.getLocalTime(now);
+    const yesterday = this.getLocalTime(now - (local.minutes + 1) * 60 * 1000);
+
+    // A range belongs to the day it starts on, so a night shift runs on into the next date
+    const today = this.isDayOff(local.dateKey) ? [] : this.getRanges(local.weekday);
+    const fromYesterday = this.isDayOff(yesterday.dateKey) ? [] : this.getRanges(yesterday.weekday);
+    if (!today.some(range => this.contains(range, local.minutes)) &&
+      !fromYesterday.some(range => this.contains(range, local.minutes + DAY_MINUTES))) {
+      return false;
+    }
+
+    const lunch = this.config.lunchBreak.trim() ? ScheduleManager.parseRange(this.config.lunchBreak) : undefined;
+    if (lunch && (this.contains(lunch, local.minutes) || this.contains(lunch, local.minutes + DAY_MINUTES))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Find the start of the next working period. Returns undefined if none within two weeks
+   */
+  getNextWorkingTime(now: number = Date.now()): number | undefined {
+    if (this.isWorkingTime(now)) {
+      return now;
+    }
+
+    const step = 15 * 60 * 1000;
+    const limit = now + 14 * 24 * 60 * 60 * 1000;
+
+    // Coarse search in 15 minute steps, then refine minute by minute
+    for (let candidate = now + step; candidate <= limit; candidate += step) {
+      if (this.isWorkingTime(candidate)) {
+        let earliest = candidate;
+        for (let refined = candidate - 60 * 1000; refined > candidate - step; refined -= 60 * 1000) {
+          if (!this.isWorkingTime(refined)) {
+            break;
+          }
+          earliest = refined;
+        }
+        return earliest;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the calendar date (YYYY-MM-DD) in the schedule's time zone
+   */
+  getDateKey(now: number = Date.now()): string {
+    return this.getLocalTime(now).dateKey;
+  }
+
+  /**
+   * Check whether no check-in has been answered yet today
+   */
+  isFirstPingOfDay(state: SessionState, now: number = Date.now()): boolean {
+    return state.lastPingDate !== this.getDateKey(now);
+  }
+
+  /**
+   * Check whether the working day ends within the given minutes. Without a
+   * working-hours schedule the day is assumed to end at 18:00
+   */
+  isEndOfDay(withinMinutes: number, now: number = Date.now()): boolean {
+    const local = this.getLocalTime(now);
+    const isNearEnd = (minutes: number, dayEnd: number) => minutes < dayEnd && minutes >= dayEnd - withinMinutes;
+
+    if (!this.config.enabled) {
+      return isNearEnd(local.minutes, DurationParser.END_OF_DAY_HOUR * 60);
+    }
+
+    // The end of a night shift that started yesterday
+    const yesterday = this.getLocalTime(now - (local.minutes + 1) * 60 * 1000);
+    const overnightEnds = this.isDayOff(yesterday.dateKey) ? [] : this.getRanges(yesterday.weekday)
+      .map(range => range.end)
+      .filter(end => end > DAY_MINUTES);
+    if (overnightEnds.some(end => isNearEnd(local.minutes + DAY_MINUTES, end))) {
+      return true;
+    }
+
+    const ends = this.getRanges(local.weekday).map(range => range.end);
+    if (ends.length === 0 || this.isDayOff(local.dateKey)) {
+      return false;
+    }
+    return isNearEnd(local.minutes, Math.max(...ends));
+  }
+
+  /**
+   * Working time ranges of a weekday. Ranges that can't be parsed are skipped with a warning
+   */
+  private getRanges(weekday: Weekday): TimeRange[] {
+    return (this.config.schedule[weekday] || [])
+      .map(range => ScheduleManager.parseRange(range))
+      .filter((range): range is TimeRange => range !== undefined);
+  }
+
+  private contains(range: TimeRange, minutes: number): boolean {
+    return minutes >= range.start && minutes < range.end;
+  }
+
+  /**
+   * Check whether the date is listed as a day off (single dates or "from..to" ranges)
+   */
+  private isDayOff(dateKey: string): boolean {
+    return this.config.daysOff.some(entry => {
+      const [from, to] = entry.split('..').map(part => part.trim());
+      return to ? dateKey >= from && dateKey <= to : dateKey === from;
+    });
+  }
+
+  /**
+   * Convert a timestamp to local date/time in the configured time zone
+   */
+  private getLocalTime(now: number): LocalTime {
+    const parts: Record<string, string> = {};
+    for (const part of this.formatter.formatToParts(new Date(now))) {
+      parts[part.type] = part.value;
+    }
+
+    const weekday = parts.weekday.toLowerCase() as Weekday;
+    const hour = parseInt(parts.hour, 10) % 24;
+    const minute = parseInt(parts.minute, 10);
+
+    return {
+      dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+      weekday: WEEKDAYS.includes(weekday) ? weekday : 'monday',
+      minutes: hour * 60 + minute
+    };
+  }
+
+  /**
+   * Create a formatter for the time zone, falling back to the system zone if it is invalid
+   */
+  private createFormatter(timeZone: string): Intl.DateTimeFormat {
+    const options: Intl.DateTimeFormatOptions = {
+      weekday: 'long',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    };
+
+    try {
+      return new Intl.DateTimeFormat('en-US', { ...options, timeZone: timeZone || undefined });
+    } catch (error) {
+      if (!ScheduleManager.warnedTimeZones.has(timeZone)) {
+        ScheduleManager.warnedTimeZones.add(timeZone);
+        console.warn(`Invalid time zone "${timeZone}", using system time zone:`, error);
+      }
+      return new Intl.DateTimeFormat('en-US', options);
+    }
+  }
+
+  /**
+   * Parse "HH:MM-HH:MM" into minutes since midnight. A range that ends at or
+   * before its start ("22:00-06:00") ends the next day
+   */
+  static parseRange(range: string): TimeRange | undefined {
+    const match = range.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+    const start = match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : NaN;
+    const end = match ? parseInt(match[3], 10) * 60 + parseInt(match[4], 10) : NaN;
+
+    const valid = match && parseInt(match[2], 10) < 60 && parseInt(match[4], 10) < 60 &&
+      start < DAY_MINUTES && end <= DAY_MINUTES && start !== end;
+    if (!valid) {
+      if (!ScheduleManager.warnedRanges.has(range)) {
+        ScheduleManager.warnedRanges.add(range);
+        console.warn(`Invalid working hours range "${range}", expected HH:MM-HH:MM`);
+      }
+      return undefined;
+    }
+
+    return { start, end: end > start ? end : end + DAY_MINUTES };
+  }
+}
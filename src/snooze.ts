@@ -0,0 +1,108 @@
+import { SessionState, SnoozeRequest, SnoozeState } from './types';
+import { Localization } from './localization';
+
+/**
+ * Manages snoozing of nudges (postpone, disable for a while, custom durations)
+ */
+export class SnoozeManager {
+  static readonly POSTPONE_MINUTES = 15;
+  static readonly DISABLE_MINUTES = 60;
+  static readonly MORNING_HOUR = 9;
+
+  /**
+   * Apply a snooze request to the session state
+   */
+  applySnooze(state: SessionState, request: SnoozeRequest, now: number = Date.now()): SnoozeState {
+    let snooze: SnoozeState;
+
+    switch (request.type) {
+      case 'duration':
+        snooze = { startedAt: now, until: now + request.minutes * 60 * 1000, untilFileSave: false };
+        break;
+      case 'until':
+        snooze = { startedAt: now, until: request.timestamp, untilFileSave: false };
+        break;
+      case 'untilFileSave':
+        snooze = { startedAt: now, until: null, untilFileSave: true };
+        break;
+      case 'indefinite':
+        snooze = { startedAt: now, until: null, untilFileSave: false };
+        break;
+    }
+
+    state.snooze = snooze;
+    return snooze;
+  }
+
+  /**
+   * Lift any active snooze
+   */
+  resume(state: SessionState): void {
+    state.snooze = null;
+  }
+
+  /**
+   * Check whether nudges are currently snoozed
+   */
+  isSnoozed(state: SessionState, now: number = Date.now()): boolean {
+    if (!state.snooze) {
+      return false;
+    }
+
+    return state.snooze.until === null || state.snooze.until > now;
+  }
+
+  /**
+   * Clear a snooze whose time has passed. Returns true if the snooze was cleared
+   */
+  clearIfExpired(state: SessionState, now: number = Date.now()): boolean {
+    if (state.snooze && state.snooze.until !== null && state.snooze.until <= now) {
+      state.snooze = null;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Handle a file save. Returns true if a "until I save a file" snooze was lifted
+   */
+  handleFileSaved(state: SessionState): boolean {
+    if (state.snooze?.untilFileSave) {
+      state.snooze = null;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Human readable description of the snooze end
+   */
+  describe(snooze: SnoozeState): string {
+    if (snooze.untilFileSave) {
+      return Localization.t('until you save a file');
+    }
+
+    if (snooze.until === null) {
+      return Localization.t('until resumed');
+    }
+
+    const until = new Date(snooze.until);
+    const time = until.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+    if (until.toDateString() === new Date().toDateString()) {
+      return Localization.t('until {0}', time);
+    }
+
+    return Localization.t('until {0}', `${until.toLocaleDateString()} ${time}`);
+  }
+
+  /**
+   * Get timestamp for tomorrow at the given hour (local time)
+   */
+  static getTomorrowAt(hour: number, now: number = Date.now()): number {
+    const date = new Date(now);
+    date.setDate(date.getDate() + 1);
+    date.setHours(hour, 0, 0, 0);
+    return date.getTime();
+  }
+}
@@ -0,0 +1,177 @@
+import { ActiveBlocker, CheckInRecord, GitCommit } from './types';
+import { HistoryStore } from './history';
+import { GitManager } from './git';
+import { AnswerExtractor } from './answers';
+import { BlockerTracker } from './blockers';
+import { StatusBarManager } from './statusBar';
+import { Localization } from './localization';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds a yesterday / today / blockers standup summary from check-ins and git activity
+ */
+export class StandupGenerator {
+  private static readonly LOOKBACK_DAYS = 7;
+
+  constructor(
+    private historyStore: HistoryStore,
+    private gitManager: GitManager
+  ) {}
+
+  /**
+   * Generate the standup summary as Markdown
+   */
+  async generate(activeBlocker?: ActiveBlocker | null, now: number = Date.now()): Promise<string> {
+    const todayStart = StandupGenerator.startOfDay(now);
+    const workspace = HistoryStore.getWorkspaceName();
+
+    const recentCheckIns = await this.historyStore.query({
+      from: todayStart - StandupGenerator.LOOKBACK_DAYS * DAY_MS,
+      workspace
+    });
+    const recentCommits = await this.gitManager.getCommits(new Date(todayStart - StandupGenerator.LOOKBACK_DAYS * DAY_MS));
+
+    // "Yesterday" is the last day before today with any activity (skips weekends and days off)
+    const previousDayStart = this.findPreviousActiveDay(recentCheckIns, recentCommits, todayStart);
+    const inRange = (timestamp: number, from: number, to: number) => timestamp >= from && timestamp < to;
+
+    const yesterdayCheckIns = recentCheckIns.filter(r => inRange(r.timestamp, previousDayStart, previousDayStart + DAY_MS));
+    const yesterdayCommits = recentCommits.filter(c => inRange(c.timestamp, previousDayStart, previousDayStart + DAY_MS));
+    const todayCheckIns = recentCheckIns.filter(r => r.timestamp >= todayStart);
+    const todayCommits = recentCommits.filter(c => c.timestamp >= todayStart);
+    const changedFiles = await this.gitManager.getChangedFiles();
+
+    const lines: string[] = [];
+    lines.push(`# ${Localization.t('Standup — {0}', new Date(now).toLocaleDateString())}`);
+    lines.push('');
+
+    lines.push(`## ${Localization.t('Yesterday ({0})', new Date(previousDayStart).toLocaleDateString())}`);
+    lines.push(...this.describeWork(yesterdayCheckIns, yesterdayCommits));
+    lines.push('');
+
+    lines.push(`## ${Localization.t('Today')}`);
+    lines.push(...this.describePlan(recentCheckIns, todayCheckIns, todayCommits, changedFiles));
+    lines.push('');
+
+    lines.push(`## ${Localization.t('Blockers')}`);
+    lines.push(...this.describeBlockers(recentCheckIns, activeBlocker, now));
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Describe tasks and commits of a past day
+   */
+  private describeWork(checkIns: CheckInRecord[], commits: GitCommit[]): string[] {
+    const lines: string[] = [];
+
+    for (const task of this.unique(checkIns.map(r => AnswerExtractor.findTask(r)))) {
+      lines.push(`- ${Localization.t('Worked on: {0}', task)}`);
+    }
+
+    for (const commit of commits) {
+      lines.push(`- ${Localization.t('Committed: {0}', commit.subject)} (\`${commit.hash.slice(0, 7)}\`)`);
+    }
+
+    const files = this.unique(commits.flatMap(c => c.files));
+    if (files.length > 0) {
+      lines.push(`- ${Localization.t('Touched {0} file(s): {1}', files.length, this.formatFiles(files))}`);
+    }
+
+    return lines.length > 0 ? lines : [`- ${Localization.t('No check-ins or commits recorded.')}`];
+  }
+
+  /**
+   * Describe today's plan from the latest answers and current work
+   */
+  private describePlan(
+    recentCheckIns: CheckInRecord[],
+    todayCheckIns: CheckInRecord[],
+    todayCommits: GitCommit[],
+    changedFiles: string[]
+  ): string[] {
+    const lines: string[] = [];
+
+    for (const task of this.unique(todayCheckIns.map(r => AnswerExtractor.findTask(r)))) {
+      lines.push(`- ${Localization.t('Working on: {0}', task)}`);
+    }
+
+    // Latest known next step, even if it was given yesterday
+    const nextStep = [...recentCheckIns]
+      .reverse()
+      .map(r => AnswerExtractor.findNextStep(r))
+      .find(answer => answer !== undefined);
+    if (nextStep) {
+      lines.push(`- ${Localization.t('Next step: {0}', nextStep)}`);
+    }
+
+    for (const commit of todayCommits) {
+      lines.push(`- ${Localization.t('Committed: {0}', commit.subject)} (\`${commit.hash.slice(0, 7)}\`)`);
+    }
+
+    if (changedFiles.length > 0) {
+      lines.push(`- ${Localization.t('In progress (uncommitted): {0}', this.formatFiles(changedFiles))}`);
+    }
+
+    return lines.length > 0 ? lines : [`- ${Localization.t('No plan recorded yet.')}`];
+  }
+
+  /**
+   * Describe the active blocker and blockers mentioned in the latest check-in
+   */
+  private describeBlockers(recentCheckIns: CheckInRecord[], activeBlocker: ActiveBlocker | null | undefined, now: number): string[] {
+    const lines: string[] = [];
+
+    if (activeBlocker) {
+      const duration = BlockerTracker.formatDuration(now - activeBlocker.startedAt);
+      lines.push(`- ${StatusBarManager.describeBlocker(activeBlocker.type)}: ${Localization.t('{0} (for {1})', BlockerTracker.describeSubject(activeBlocker), duration)}`);
+    }
+
+    const latest = recentCheckIns[recentCheckIns.length - 1];
+    const blockerAnswer = latest ? AnswerExtractor.findBlocker(latest) : undefined;
+    if (blockerAnswer && blockerAnswer !== activeBlocker?.description && !StandupGenerator.isNothing(blockerAnswer)) {
+      lines.push(`- ${blockerAnswer}`);
+    }
+
+    return lines.length > 0 ? lines : [`- ${Localization.t('None')}`];
+  }
+
+  /**
+   * Find the start of the most recent day before today with check-ins or commits
+   */
+  private findPreviousActiveDay(checkIns: CheckInRecord[], commits: GitCommit[], todayStart: number): number {
+    const timestamps = [
+      ...checkIns.map(r => r.timestamp),
+      ...commits.map(c => c.timestamp)
+    ].filter(timestamp => timestamp < todayStart);
+
+    if (timestamps.length === 0) {
+      return StandupGenerator.startOfDay(todayStart - DAY_MS);
+    }
+
+    return StandupGenerator.startOfDay(Math.max(...timestamps));
+  }
+
+  private unique(values: Array<string | undefined>): string[] {
+    return [...new Set(values.filter((value): value is string => !!value))];
+  }
+
+  private formatFiles(files: string[]): string {
+    const shown = files.slice(0, 5).map(file => `\`${file}\``).join(', ');
+    return files.length > 5 ? Localization.t('{0} and {1} more', shown, files.length - 5) : shown;
+  }
+
+  /**
+   * Check whether a blocker answer means "nothing is blocking"
+   */
+  static isNothing(answer: string): boolean {
+    return /^(nothing|none|no|nope|n\/a|-|ничего|нет|ничто)\.?$/i.test(answer.trim());
+  }
+
+  private static startOfDay(timestamp: number): number {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+  }
+}
@@ -1,34 +1,42 @@
 import * as vscode from 'vscode';
-import { SessionState, BlockerType, QuestionDialogResult } from './types';
+import { SessionState, BlockerType, QuestionDialogResult, QuarantinedState, StateMigrationResult } from './types';
+import { AnswerExtractor } from './answers';
+import { StateSchema } from './stateSchema';
+import { Localization } from './localization';
 
 /**
  * Manages extension state persistence
  */
 export class StateManager {
+  private static readonly STATE_KEY = 'taskNudge.sessionState';
+  private static readonly QUARANTINE_KEY = 'taskNudge.sessionState.quarantine';
+  private static readonly LEGACY_GIT_SNAPSHOT_KEY = 'taskNudge.lastGitSnapshot';
+  private static readonly MAX_QUARANTINED = 5;
+
   constructor(private context: vscode.ExtensionContext) {}
 
   /**
-   * Load session state from workspace storage
+   * Load session state from workspace storage, migrating it to the current schema
    */
   loadState(): SessionState {
-    const stored = this.context.workspaceState.get<Partial<SessionState>>('taskNudge.sessionState', {});
+    const raw = this.context.workspaceState.get<unknown>(StateManager.STATE_KEY);
+    const legacyGitSnapshot = this.context.workspaceState.get<unknown>(StateManager.LEGACY_GIT_SNAPSHOT_KEY);
+    const result = StateSchema.migrate(raw, { gitSnapshot: legacyGitSnapshot });
+
+    if (result.problems.length > 0) {
+      this.quarantine(raw, result);
+    }
 
+    if ((raw !== undefined || legacyGitSnapshot !== undefined) && (result.fromVersion !== StateSchema.VERSION || result.problems.length > 0)) {
+      console.log(`Migrated session state from schema ${result.fromVersion ?? 'unknown'} to ${StateSchema.VERSION}`);
+      this.persistMigration(result);
+    }
+
+    const { schemaVersion, ...stored } = result.state;
     return {
-      lastTaskDescription: stored.lastTaskDescription,
-      lastUnclear: stored.lastUnclear,
-      lastTried: stored.lastTried,
-      lastTeammate: stored.lastTeammate,
-      lastBlocker: stored.lastBlocker,
-      blockerType: stored.blockerType || 'none',
-      isWaiting: stored.isWaiting || false,
-      baseIntervalMs: stored.baseIntervalMs || 15 * 60 * 1000, // 15 minutes
-      currentIntervalMs: stored.currentIntervalMs || 15 * 60 * 1000,
-      maxIntervalMs: stored.maxIntervalMs || 60 * 60 * 1000, // 1 hour
-      idleThresholdMs: stored.idleThresholdMs || 3 * 60 * 1000, // 3 minutes
+      ...stored,
       lastActivityAt: Date.now(),
-      pingScheduledAt: null,
-      lastGitSnapshot: stored.lastGitSnapshot,
-      lastQuestionAnswers: stored.lastQuestionAnswers || []
+      pingScheduledAt: null
     };
   }
 
@@ -36,20 +44,57 @@ export class StateManager {
    * Save session state to workspace storage
    */
   async saveState(state: SessionState): Promise<void> {
-    await this.context.workspaceState.update('taskNudge.sessionState', {
-      lastTaskDescription: state.lastTaskDescription,
-      lastUnclear: state.lastUnclear,
-      lastTried: state.lastTried,
-      lastTeammate: state.lastTeammate,
-      lastBlocker: state.lastBlocker,
-      blockerType: state.blockerType,
-      isWaiting: state.isWaiting,
-      baseIntervalMs: state.baseIntervalMs,
-      currentIntervalMs: state.currentIntervalMs,
-      maxIntervalMs: state.maxIntervalMs,
-      idleThresholdMs: state.idleThresholdMs,
-      lastGitSnapshot: state.lastGitSnapshot,
-      lastQuestionAnswers: state.lastQuestionAnswers
+    await this.context.workspaceState.update(StateManager.STATE_KEY, StateSchema.toStored(state));
+  }
+
+  /**
+   * Stored values that failed validation, newest first
+   */
+  getQuarantined(): QuarantinedState[] {
+    return this.context.workspaceState.get<QuarantinedState[]>(StateManager.QUARANTINE_KEY, []);
+  }
+
+  /**
+   * Keep the unreadable state aside, so it isn't silently replaced by defaults
+   */
+  private quarantine(raw: unknown, result: StateMigrationResult): void {
+    const entry: QuarantinedState = {
+      quarantinedAt: Date.now(),
+      schemaVersion: result.fromVersion,
+      problems: result.problems,
+      data: raw
+    };
+    const quarantined = [entry, ...this.getQuarantined()].slice(0, StateManager.MAX_QUARANTINED);
+
+    console.error('Task Nudge session state failed validation:', result.problems);
+    this.context.workspaceState.update(StateManager.QUARANTINE_KEY, quarantined).then(undefined, error => {
+      console.error('Failed to quarantine session state:', error);
+    });
+
+    const showSavedData = Localization.t('Show Saved Data');
+    vscode.window.showWarningMessage(
+      Localization.t('Task Nudge: some saved state could not be read and was reset ({0}). The original data was kept aside.', result.problems.join('; ')),
+      showSavedData
+    ).then(async action => {
+      if (action === showSavedData) {
+        const document = await vscode.workspace.openTextDocument({
+          content: JSON.stringify(quarantined, null, 2),
+          language: 'json'
+        });
+        await vscode.window.showTextDocument(document);
+      }
+    });
+  }
+
+  /**
+   * Write the migrated state and drop keys that moved into it
+   */
+  private persistMigration(result: StateMigrationResult): void {
+    Promise.all([
+      this.context.workspaceState.update(StateManager.STATE_KEY, result.state),
+      this.context.workspaceState.update(StateManager.LEGACY_GIT_SNAPSHOT_KEY, undefined)
+    ]).then(undefined, error => {
+      console.error('Failed to save migrated session state:', error);
     });
   }
 
@@ -59,12 +104,23 @@ export class StateManager {
   updateStateFromDialog(state: SessionState, dialogResult: QuestionDialogResult): void {
     // Save the answers
     state.lastQuestionAnswers = dialogResult.answers;
+    state.lastTaskDescription = AnswerExtractor.findTask(dialogResult) || state.lastTaskDescription;
+    state.lastBlocker = AnswerExtractor.findBlocker(dialogResult) || state.lastBlocker;
+    state.lastTeammate = dialogResult.blockerType === 'waiting_for_person' && dialogResult.blockerSubject
+      ? dialogResult.blockerSubject
+      : AnswerExtractor.findTeammate(dialogResult) || state.lastTeammate;
+
+    this.applyBlockerType(state, dialogResult.blockerType);
+  }
 
-    // Update blocker type and interval logic
+  /**
+   * Update blocker type and interval logic
+   */
+  applyBlockerType(state: SessionState, blockerType: BlockerType): void {
     const wasWaiting = state.isWaiting;
-    state.blockerType = dialogResult.blockerType;
+    state.blockerType = blockerType;
 
-    if (dialogResult.blockerType === 'waiting_for_person' || dialogResult.blockerType === 'waiting_for_process') {
+    if (blockerType === 'waiting_for_person' || blockerType === 'waiting_for_process') {
       if (!wasWaiting) {
         // First time entering waiting state - increase interval
         state.currentIntervalMs = Math.min(
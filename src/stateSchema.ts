@@ -0,0 +1,254 @@
+import { ActiveBlocker, BlockerType, GitSnapshot, SessionState, SnoozeState, StateMigrationResult, StoredSessionState } from './types';
+
+type StoredData = Record<string, unknown>;
+
+/**
+ * Values kept outside the session state by older versions
+ */
+export interface LegacyStateSources {
+  gitSnapshot?: unknown; // Former 'taskNudge.lastGitSnapshot' key
+}
+
+interface StateMigration {
+  version: number; // Schema version the step migrates to
+  description: string;
+  migrate(data: StoredData, legacy: LegacyStateSources): StoredData;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Versioned schema of the persisted session state: ordered migrations and validation.
+ * Has no VS Code dependencies, so it can be unit tested
+ */
+export class StateSchema {
+  static readonly VERSION = 2;
+
+  static readonly DEFAULT_BASE_INTERVAL_MS = 15 * MINUTE_MS;
+  static readonly DEFAULT_MAX_INTERVAL_MS = 60 * MINUTE_MS;
+  static readonly DEFAULT_IDLE_THRESHOLD_MS = 3 * MINUTE_MS;
+  // Longest stored interval; the interval and idle settings have the same maximum
+  static readonly MAX_INTERVAL_MS = 24 * 60 * MINUTE_MS;
+
+  private static readonly BLOCKER_TYPES: BlockerType[] = ['none', 'waiting_for_person', 'waiting_for_process', 'other'];
+
+  // Each step runs once, in order, for state saved before its version
+  private static readonly MIGRATIONS: StateMigration[] = [
+    {
+      version: 1,
+      description: 'Drop the unused string Git snapshot field of unversioned state',
+      migrate: data => {
+        const { lastGitSnapshot, ...rest } = data;
+        return typeof lastGitSnapshot === 'string' ? rest : data;
+      }
+    },
+    {
+      version: 2,
+      description: 'Move the last Git snapshot from its own storage key into the session state',
+      migrate: (data, legacy) => legacy.gitSnapshot !== undefined && data.lastGitSnapshot === undefined
+        ? { ...data, lastGitSnapshot: legacy.gitSnapshot }
+        : data
+    }
+  ];
+
+  /**
+   * Bring a stored value up to the current schema and validate it.
+   * Anything that can't be read is reported in problems and replaced by its default
+   */
+  static migrate(raw: unknown, legacy: LegacyStateSources = {}): StateMigrationResult {
+    const problems: string[] = [];
+
+    if (raw !== undefined && raw !== null && (typeof raw !== 'object' || Array.isArray(raw))) {
+      problems.push('Stored state is not an object');
+      return { state: this.validate({}).state, fromVersion: undefined, problems };
+    }
+
+    let data: StoredData = { ...(raw as StoredData | null | undefined) };
+    const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+
+    if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+      problems.push(`Unknown schema version ${String(data.schemaVersion)}`);
+    } else if (fromVersion > this.VERSION) {
+      problems.push(`State was saved by a newer version of Task Nudge (schema ${fromVersion})`);
+    }
+
+    for (const migration of this.MIGRATIONS) {
+      if (migration.version <= fromVersion) {
+        continue;
+      }
+      try {
+        data = migration.migrate(data, legacy);
+      } catch (error) {
+        problems.push(`Migration to schema ${migration.version} (${migration.description}) failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const validated = this.validate(data);
+    return { state: validated.state, fromVersion, problems: [...problems, ...validated.problems] };
+  }
+
+  /**
+   * Check every field of migrated data, replacing invalid values with defaults
+   */
+  static validate(data: StoredData): { state: StoredSessionState; problems: string[] } {
+    const problems: string[] = [];
+
+    const optionalString = (field: string): string | undefined => {
+      const value = data[field];
+      if (value === undefined || value === null || typeof value === 'string') {
+        return value ?? undefined;
+      }
+      problems.push(`${field} is not a string`);
+      return undefined;
+    };
+
+    const interval = (field: string, defaultMs: number, minMs: number): number => {
+      const value = data[field];
+      if (value === undefined) {
+        return defaultMs;
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < minMs || value > this.MAX_INTERVAL_MS) {
+        problems.push(`${field} is out of bounds (${String(value)})`);
+        return defaultMs;
+      }
+      return value;
+    };
+
+    let blockerType: BlockerType = 'none';
+    if (data.blockerType !== undefined) {
+      if (this.isBlockerType(data.blockerType)) {
+        blockerType = data.blockerType;
+      } else {
+        problems.push(`Unknown blocker type "${String(data.blockerType)}"`);
+      }
+    }
+
+    let isWaiting = blockerType === 'waiting_for_person' || blockerType === 'waiting_for_process';
+    if (data.isWaiting !== undefined) {
+      if (typeof data.isWaiting === 'boolean') {
+        isWaiting = data.isWaiting;
+      } else {
+        problems.push('isWaiting is not a boolean');
+      }
+    }
+
+    const baseIntervalMs = interval('baseIntervalMs', this.DEFAULT_BASE_INTERVAL_MS, MINUTE_MS);
+    const maxIntervalMs = Math.max(interval('maxIntervalMs', this.DEFAULT_MAX_INTERVAL_MS, MINUTE_MS), baseIntervalMs);
+    // A current interval above the maximum is expected after the maximum was lowered, so it's clamped silently
+    const currentIntervalMs = Math.min(interval('currentIntervalMs', baseIntervalMs, MINUTE_MS), maxIntervalMs);
+    const idleThresholdMs = interval('idleThresholdMs', this.DEFAULT_IDLE_THRESHOLD_MS, 1000);
+
+    let lastGitSnapshot: GitSnapshot | undefined;
+    if (data.lastGitSnapshot !== undefined && data.lastGitSnapshot !== null) {
+      if (this.isGitSnapshot(data.lastGitSnapshot)) {
+        lastGitSnapshot = data.lastGitSnapshot;
+      } else {
+        problems.push('lastGitSnapshot is malformed');
+      }
+    }
+
+    let lastQuestionAnswers: string[] = [];
+    if (data.lastQuestionAnswers !== undefined) {
+      if (this.isStringArray(data.lastQuestionAnswers)) {
+        lastQuestionAnswers = data.lastQuestionAnswers;
+      } else {
+        problems.push('lastQuestionAnswers is not a list of strings');
+      }
+    }
+
+    let snooze: SnoozeState | null = null;
+    if (data.snooze !== undefined && data.snooze !== null) {
+      if (this.isSnooze(data.snooze)) {
+        snooze = data.snooze;
+      } else {
+        problems.push('snooze is malformed');
+      }
+    }
+
+    let lastPingDate: string | undefined;
+    if (data.lastPingDate !== undefined) {
+      if (typeof data.lastPingDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(data.lastPingDate)) {
+        lastPingDate = data.lastPingDate;
+      } else {
+        problems.push(`lastPingDate is not a YYYY-MM-DD date (${String(data.lastPingDate)})`);
+      }
+    }
+
+    let activeBlocker: ActiveBlocker | null = null;
+    if (data.activeBlocker !== undefined && data.activeBlocker !== null) {
+      const blocker = data.activeBlocker as Partial<ActiveBlocker>;
+      if (typeof blocker !== 'object' || !this.isTimestamp(blocker.startedAt)) {
+        problems.push('activeBlocker is malformed');
+      } else if (!this.isBlockerType(blocker.type)) {
+        problems.push(`Unknown active blocker type "${String(blocker.type)}"`);
+      } else {
+        activeBlocker = {
+          type: blocker.type,
+          subject: typeof blocker.subject === 'string' ? blocker.subject : undefined,
+          description: typeof blocker.description === 'string' ? blocker.description : undefined,
+          startedAt: blocker.startedAt,
+          lastFollowUpAt: this.isTimestamp(blocker.lastFollowUpAt) ? blocker.lastFollowUpAt : undefined
+        };
+      }
+    }
+
+    return {
+      state: {
+        schemaVersion: this.VERSION,
+        lastTaskDescription: optionalString('lastTaskDescription'),
+        lastUnclear: optionalString('lastUnclear'),
+        lastTried: optionalString('lastTried'),
+        lastTeammate: optionalString('lastTeammate'),
+        lastBlocker: optionalString('lastBlocker'),
+        blockerType,
+        isWaiting,
+        baseIntervalMs,
+        currentIntervalMs,
+        maxIntervalMs,
+        idleThresholdMs,
+        lastGitSnapshot,
+        lastQuestionAnswers,
+        snooze,
+        lastPingDate,
+        activeBlocker
+      },
+      problems
+    };
+  }
+
+  /**
+   * Persistable part of the session state, tagged with the current schema version
+   */
+  static toStored(state: SessionState): StoredSessionState {
+    const { lastActivityAt, pingScheduledAt, ...stored } = state;
+    return { ...stored, schemaVersion: this.VERSION };
+  }
+
+  private static isBlockerType(value: unknown): value is BlockerType {
+    return this.BLOCKER_TYPES.includes(value as BlockerType);
+  }
+
+  private static isGitSnapshot(value: unknown): value is GitSnapshot {
+    const snapshot = value as Partial<GitSnapshot>;
+    return typeof snapshot === 'object' &&
+      this.isTimestamp(snapshot.timestamp) &&
+      this.isStringArray(snapshot.changedFiles) &&
+      typeof snapshot.summary === 'string';
+  }
+
+  private static isSnooze(value: unknown): value is SnoozeState {
+    const snooze = value as Partial<SnoozeState>;
+    return typeof snooze === 'object' &&
+      this.isTimestamp(snooze.startedAt) &&
+      (snooze.until === null || this.isTimestamp(snooze.until)) &&
+      typeof snooze.untilFileSave === 'boolean';
+  }
+
+  private static isTimestamp(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0;
+  }
+
+  private static isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+}
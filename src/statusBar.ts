@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import { ActivityKind, BlockerType, NudgeStatus } from './types';
+import { SnoozeManager } from './snooze';
+import { BlockerTracker } from './blockers';
+import { Localization } from './localization';
+
+/**
+ * Status bar indicator with countdown to the next check-in
+ */
+export class StatusBarManager implements vscode.Disposable {
+  static readonly MENU_COMMAND = 'task-nudge.showMenu';
+
+  private item: vscode.StatusBarItem;
+  private refreshInterval: NodeJS.Timeout | undefined;
+
+  constructor(
+    private getStatus: () => NudgeStatus,
+    private snoozeManager: SnoozeManager
+  ) {
+    this.item = vscode.window.createStatusBarItem('task-nudge.status', vscode.StatusBarAlignment.Right, 100);
+    this.item.name = 'Task Nudge';
+    this.item.command = StatusBarManager.MENU_COMMAND;
+
+    this.refresh();
+    this.item.show();
+
+    // Refresh every second so the countdown stays current
+    this.refreshInterval = setInterval(() => {
+      this.refresh();
+    }, 1000);
+  }
+
+  /**
+   * Re-render the status bar item from the current status
+   */
+  refresh(): void {
+    const status = this.getStatus();
+    this.item.text = this.buildText(status);
+    this.item.tooltip = this.buildTooltip(status);
+    this.item.backgroundColor = status.blockerType === 'other'
+      ? new vscode.ThemeColor('statusBarItem.warningBackground')
+      : undefined;
+  }
+
+  /**
+   * Build the status bar text
+   */
+  private buildText(status: NudgeStatus): string {
+    if (!status.enabled) {
+      return `$(bell-slash) ${Localization.t('Nudges off')}`;
+    }
+
+    if (status.snooze) {
+      return status.snooze.until === null && !status.snooze.untilFileSave
+        ? `$(debug-pause) ${Localization.t('Paused')}`
+        : `$(debug-pause) ${Localization.t('Snoozed {0}', this.snoozeManager.describe(status.snooze))}`;
+    }
+
+    if (status.outsideWorkingHours && !status.pingScheduled) {
+      return `$(moon) ${Localization.t('Off hours')}`;
+    }
+
+    if (status.runningProcesses.length > 0 && !status.pingScheduled) {
+      const name = status.runningProcesses[0].name;
+      return `$(sync~spin) ${name.length > 30 ? name.slice(0, 29) + '…' : name}`;
+    }
+
+    const countdown = status.nextPingAt !== null
+      ? StatusBarManager.formatCountdown(status.nextPingAt - Date.now())
+      : '';
+    const prefix = status.pingScheduled ? '' : '~';
+
+    if (status.isWaiting) {
+      return `$(watch) ${Localization.t('Waiting')} · ${prefix}${countdown}`;
+    }
+
+    if (status.blockerType === 'other') {
+      return `$(error) ${Localization.t('Blocked')} · ${prefix}${countdown}`;
+    }
+
+    return `$(bell) ${prefix}${countdown}`;
+  }
+
+  /**
+   * Build the tooltip with detailed state
+   */
+  private buildTooltip(status: NudgeStatus): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown('**Task Nudge**\n\n');
+
+    if (!status.enabled) {
+      tooltip.appendMarkdown(Localization.t('Nudges are disabled in settings.') + '\n\n');
+    } else if (status.snooze) {
+      tooltip.appendMarkdown(Localization.t('Nudges are paused {0}.', this.snoozeManager.describe(status.snooze)) + '\n\n');
+    } else if (status.outsideWorkingHours && !status.pingScheduled) {
+      tooltip.appendMarkdown(Localization.t('Outside working hours, no nudges.') + '\n\n');
+    } else if (status.nextPingAt !== null) {
+      const at = new Date(status.nextPingAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      tooltip.appendMarkdown(status.pingScheduled
+        ? Localization.t('Next check-in at {0}.', at) + '\n\n'
+        : Localization.t('Next check-in around {0} if you stay idle.', at) + '\n\n');
+    }
+
+    if (status.activeTask) {
+      const branch = status.activeTask.branch ? ` (\`${status.activeTask.branch}\`)` : '';
+      tooltip.appendMarkdown(`- ${Localization.t('Task: {0}{1}, {2} today', status.activeTask.title, branch, BlockerTracker.formatDuration(status.activeTask.todayMs))}\n`);
+    }
+    tooltip.appendMarkdown(`- ${Localization.t('Interval: {0} min', Math.round(status.currentIntervalMs / 60000))}\n`);
+    tooltip.appendMarkdown(`- ${Localization.t('Blocker: {0}', StatusBarManager.describeBlocker(status.blockerType))}\n`);
+    if (status.activeBlocker) {
+      const waited = BlockerTracker.formatDuration(Date.now() - status.activeBlocker.startedAt);
+      tooltip.appendMarkdown(`- ${Localization.t('Waiting on: {0} for {1}', BlockerTracker.describeSubject(status.activeBlocker), waited)}\n`);
+    }
+    tooltip.appendMarkdown(`- ${Localization.t('Waiting: {0}', status.isWaiting ? Localization.t('yes') : Localization.t('no'))}\n`);
+    if (status.runningProcesses.length > 0) {
+      tooltip.appendMarkdown(`- ${Localization.t('Running: {0}', status.runningProcesses.map(p => p.name).join(', '))}\n`);
+    }
+    if (status.lastActivity) {
+      const minutesAgo = Math.floor((Date.now() - status.lastActivity.timestamp) / 60000);
+      tooltip.appendMarkdown(`- ${Localization.t('Last activity: {0} ({1}), {2} min ago', StatusBarManager.describeActivity(status.lastActivity.kind), status.lastActivity.source, minutesAgo)}\n`);
+    }
+    tooltip.appendMarkdown('\n');
+    tooltip.appendMarkdown(Localization.t('Click for quick actions.'));
+
+    return tooltip;
+  }
+
+  /**
+   * Human readable blocker description
+   */
+  static describeBlocker(blockerType: BlockerType): string {
+    switch (blockerType) {
+      case 'waiting_for_person':
+        return Localization.t('waiting for a teammate');
+      case 'waiting_for_process':
+        return Localization.t('waiting for a process (CI, deploy, build)');
+      case 'other':
+        return Localization.t('blocked');
+      default:
+        return Localization.t('none');
+    }
+  }
+
+  /**
+   * Human readable activity kind
+   */
+  private static describeActivity(kind: ActivityKind): string {
+    switch (kind) {
+      case 'typing':
+        return Localization.t('typing');
+      case 'reading':
+        return Localization.t('reading');
+      case 'running':
+        return Localization.t('running');
+      default:
+        return Localization.t('focus');
+    }
+  }
+
+  /**
+   * Format remaining time as "m:ss" or "1h 05m"
+   */
+  static formatCountdown(remainingMs: number): string {
+    const totalSeconds = Math.max(0, Math.round(remainingMs / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (hours > 0) {
+      return Localization.t('{0}h {1}m', hours, minutes.toString().padStart(2, '0'));
+    }
+
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Dispose of the status bar item and refresh timer
+   */
+  dispose(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = undefined;
+    }
+    this.item.dispose();
+  }
+}
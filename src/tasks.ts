@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { EstimateAccuracy, TaskContext, TrackedTask } from './types';
+import { BlockerTracker } from './blockers';
+import { Localization } from './localization';
+import { LocalDates } from './dates';
+
+/**
+ * Keeps the developer's tasks and tracks active time on the current one
+ */
+export class TaskTracker {
+  private static readonly TASKS_KEY = 'taskNudge.tasks';
+  private static readonly MAX_FINISHED = 200;
+  private static readonly SAVE_INTERVAL_MS = 60 * 1000;
+
+  private tasks: TrackedTask[];
+  private lastSavedAt = 0;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.tasks = context.workspaceState.get<TrackedTask[]>(TaskTracker.TASKS_KEY, []);
+  }
+
+  /**
+   * Start a new task, pausing the current one
+   */
+  async start(title: string, branch?: string, now: number = Date.now()): Promise<TrackedTask> {
+    this.pauseActive();
+
+    const task: TrackedTask = {
+      id: randomUUID(),
+      title,
+      branch,
+      status: 'active',
+      createdAt: now,
+      trackedMs: 0,
+      dailyMs: {},
+      lastActivityAt: now
+    };
+    this.tasks.push(task);
+
+    await this.save();
+    return task;
+  }
+
+  /**
+   * Make an existing unfinished task the current one
+   */
+  async resume(taskId: string, now: number = Date.now()): Promise<TrackedTask | undefined> {
+    const task = this.tasks.find(t => t.id === taskId && t.status !== 'finished');
+    if (!task) {
+      return undefined;
+    }
+
+    this.pauseActive();
+    task.status = 'active';
+    task.lastActivityAt = now;
+
+    await this.save();
+    return task;
+  }
+
+  /**
+   * Finish the current task
+   */
+  async finish(now: number = Date.now()): Promise<TrackedTask | undefined> {
+    const task = this.getActive();
+    if (!task) {
+      return undefined;
+    }
+
+    task.status = 'finished';
+    task.finishedAt = now;
+    task.lastActivityAt = undefined;
+
+    await this.save();
+    return task;
+  }
+
+  /**
+   * Record an estimate of the time left on the current task
+   */
+  async addEstimate(minutes: number, now: number = Date.now()): Promise<void> {
+    const task = this.getActive();
+    if (!task) {
+      return;
+    }
+
+    task.estimates = [...(task.estimates || []), { at: now, minutes, trackedMs: task.trackedMs }];
+    await this.save();
+  }
+
+  /**
+   * Count time since the previous activity towards the current task,
+   * unless the developer was idle in between
+   */
+  recordActivity(timestamp: number, idleThresholdMs: number): void {
+    const task = this.getActive();
+    if (!task) {
+      return;
+    }
+
+    if (task.lastActivityAt !== undefined && timestamp > task.lastActivityAt) {
+      const gap = timestamp - task.lastActivityAt;
+      if (gap <= idleThresholdMs) {
+        const day = LocalDates.dateKey(timestamp);
+        task.trackedMs += gap;
+        task.dailyMs[day] = (task.dailyMs[day] || 0) + gap;
+      }
+    }
+
+    if (task.lastActivityAt === undefined || timestamp > task.lastActivityAt) {
+      task.lastActivityAt = timestamp;
+    }
+
+    // Activity is frequent, so persist at most once a minute
+    if (timestamp - this.lastSavedAt >= TaskTracker.SAVE_INTERVAL_MS) {
+      this.save().catch(error => console.error('Failed to save tasks:', error));
+    }
+  }
+
+  /**
+   * The task being worked on, if any
+   */
+  getActive(): TrackedTask | undefined {
+    return this.tasks.find(t => t.status === 'active');
+  }
+
+  /**
+   * Unfinished tasks other than the current one, most recently created first
+   */
+  getPaused(): TrackedTask[] {
+    return this.tasks.filter(t => t.status === 'paused').sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Finished tasks, most recently finished first
+   */
+  getFinished(): TrackedTask[] {
+    return this.tasks.filter(t => t.status === 'finished').sort((a, b) => (b.finishedAt || 0) - (a.finishedAt || 0));
+  }
+
+  /**
+   * Summary of the current task for messages and the status bar
+   */
+  getActiveContext(now: number = Date.now()): TaskContext | null {
+    const task = this.getActive();
+    if (!task) {
+      return null;
+    }
+
+    const latestEstimate = task.estimates?.[task.estimates.length - 1];
+    return {
+      title: task.title,
+      branch: task.branch,
+      todayMs: task.dailyMs[LocalDates.dateKey(now)] || 0,
+      totalMs: task.trackedMs,
+      estimate: latestEstimate
+        ? { minutes: latestEstimate.minutes, spentMs: task.trackedMs - latestEstimate.trackedMs }
+        : undefined
+    };
+  }
+
+  /**
+   * Compare the first estimate of a finished task with the time it actually took
+   */
+  static getEstimateAccuracy(task: TrackedTask): EstimateAccuracy | undefined {
+    const first = task.estimates?.[0];
+    if (task.status !== 'finished' || !first || first.minutes <= 0) {
+      return undefined;
+    }
+
+    const actualMinutes = (task.trackedMs - first.trackedMs) / 60000;
+    return {
+      taskId: task.id,
+      title: task.title,
+      finishedAt: task.finishedAt || first.at,
+      estimatedMinutes: first.minutes,
+      actualMinutes,
+      ratio: actualMinutes / first.minutes
+    };
+  }
+
+  /**
+   * Describe how time spent compares with an estimate,
+   * e.g. "You estimated 2h and have spent 2h 30m since (25% over)."
+   */
+  static describeEstimate(estimateMinutes: number, spentMs: number): string {
+    const estimated = BlockerTracker.formatDuration(estimateMinutes * 60000);
+    const spent = BlockerTracker.formatDuration(spentMs);
+    const percent = Math.round((spentMs / 60000 / estimateMinutes - 1) * 100);
+
+    if (percent > 0) {
+      return Localization.t('You estimated {0} and have spent {1} since ({2}% over).', estimated, spent, percent);
+    }
+    return Localization.t('You estimated {0} and have spent {1} so far.', estimated, spent);
+  }
+
+  /**
+   * Persist tasks, dropping the oldest finished ones
+   */
+  async save(): Promise<void> {
+    const finished = this.tasks.filter(t => t.status === 'finished');
+    if (finished.length > TaskTracker.MAX_FINISHED) {
+      const dropped = new Set(finished
+        .sort((a, b) => (a.finishedAt || 0) - (b.finishedAt || 0))
+        .slice(0, finished.length - TaskTracker.MAX_FINISHED)
+        .map(t => t.id));
+      this.tasks = this.tasks.filter(t => !dropped.has(t.id));
+    }
+
+    this.lastSavedAt = Date.now();
+    await this.context.workspaceState.update(TaskTracker.TASKS_KEY, this.tasks);
+  }
+
+  private pauseActive(): void {
+    const active = this.getActive();
+    if (active) {
+      active.status = 'paused';
+      active.lastActivityAt = undefined;
+    }
+  }
+}
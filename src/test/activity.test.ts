@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { ActivityTracker } from '../activity';
+import { DEFAULT_ACTIVITY_SOURCES } from '../config';
+import { ActivityEvent } from '../types';
+
+const IDLE_THRESHOLD_MS = 180 * 1000;
+
+suite('ActivityTracker Test Suite', () => {
+	test('lower weights count as activity that happened earlier', () => {
+		const tracker = new ActivityTracker(() => DEFAULT_ACTIVITY_SOURCES, () => IDLE_THRESHOLD_MS);
+		const delay = (event: ActivityEvent | undefined) => event ? event.timestamp - event.effectiveAt : undefined;
+
+		try {
+			tracker.record('textEdit');
+			assert.strictEqual(tracker.getLastEvent()?.kind, 'typing');
+			assert.strictEqual(delay(tracker.getLastEvent()), 0);
+
+			// Scrolling keeps the user active for half the idle threshold
+			tracker.record('scroll');
+			assert.strictEqual(tracker.getLastEvent()?.kind, 'reading');
+			assert.strictEqual(delay(tracker.getLastEvent()), IDLE_THRESHOLD_MS / 2);
+
+			tracker.record('windowFocus');
+			assert.strictEqual(tracker.getLastEvent()?.kind, 'focus');
+			assert.strictEqual(delay(tracker.getLastEvent()), IDLE_THRESHOLD_MS * 0.8);
+		} finally {
+			tracker.dispose();
+		}
+	});
+
+	test('ignores disabled sources and sources with no weight', () => {
+		const sources = {
+			...DEFAULT_ACTIVITY_SOURCES,
+			scroll: { enabled: false, weight: 1 },
+			selection: { enabled: true, weight: 0 }
+		};
+		const tracker = new ActivityTracker(() => sources, () => IDLE_THRESHOLD_MS);
+		const events: ActivityEvent[] = [];
+		tracker.onDidRecordActivity(event => events.push(event));
+
+		try {
+			tracker.record('scroll');
+			tracker.record('selection');
+			assert.strictEqual(tracker.getLastEvent(), undefined);
+
+			tracker.record('debug');
+			assert.deepStrictEqual(events.map(event => event.source), ['debug']);
+		} finally {
+			tracker.dispose();
+		}
+	});
+});
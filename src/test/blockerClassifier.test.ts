@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { BlockerClassifier } from '../blockerClassifier';
+
+const survey = (blocker: string, helper = '') => ({
+	questions: ['What is blocking you?', 'Who can help?'],
+	questionRoles: ['blocker', 'helper'] as ('blocker' | 'helper')[],
+	answers: [blocker, helper]
+});
+
+suite('BlockerClassifier Test Suite', () => {
+	test('classifies blocker answers locally with a subject', () => {
+		assert.deepStrictEqual(BlockerClassifier.classifyLocally(survey('Nothing.')), { type: 'none', confidence: 0.9, source: 'local' });
+		assert.deepStrictEqual(
+			BlockerClassifier.classifyLocally(survey('Waiting for Alex to review the deploy')),
+			{ type: 'waiting_for_person', confidence: 0.85, subject: 'Alex', source: 'local' }
+		);
+		assert.deepStrictEqual(
+			BlockerClassifier.classifyLocally(survey('Жду, пока пройдёт пайплайн')),
+			{ type: 'waiting_for_process', confidence: 0.85, subject: 'CI pipeline', source: 'local' }
+		);
+		assert.deepStrictEqual(
+			BlockerClassifier.classifyLocally(survey('need a code review', '@maria')),
+			{ type: 'waiting_for_person', confidence: 0.6, subject: '@maria', source: 'local' }
+		);
+		assert.strictEqual(BlockerClassifier.classifyLocally(survey('The API docs are confusing')).type, 'other');
+	});
+
+	test('reads the LLM answer and rejects invalid ones', () => {
+		assert.deepStrictEqual(
+			BlockerClassifier.parseResponse('```json\n{"type": "waiting_for_person", "confidence": 1.4, "subject": " Bob "}\n```'),
+			{ type: 'waiting_for_person', confidence: 1, subject: 'Bob', source: 'llm' }
+		);
+		assert.strictEqual(BlockerClassifier.parseResponse('{"type": "blocked"}'), undefined);
+		assert.strictEqual(BlockerClassifier.parseResponse('not json'), undefined);
+	});
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { BlockerTracker } from '../blockers';
+import { SessionState } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+
+// Workspace state kept in memory
+const createContext = (): vscode.ExtensionContext => {
+	const values = new Map<string, unknown>();
+	return {
+		workspaceState: {
+			get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+			update: async (key: string, value: unknown) => {
+				values.set(key, value);
+			}
+		}
+	} as unknown as vscode.ExtensionContext;
+};
+
+suite('BlockerTracker Test Suite', () => {
+	const config = { enabled: true, afterMinutes: 60, repeatMinutes: 30 };
+	const now = new Date(2024, 5, 3, 10).getTime();
+
+	test('suggests a follow-up after waiting long enough, then at most every repeat interval', async () => {
+		const tracker = new BlockerTracker(createContext());
+		const state = { activeBlocker: null } as SessionState;
+		await tracker.update(state, 'waiting_for_person', 'Anna', undefined, now);
+
+		assert.strictEqual(tracker.shouldFollowUp(state, config, now + 59 * MINUTE_MS), false);
+		assert.strictEqual(tracker.shouldFollowUp(state, config, now + 60 * MINUTE_MS), true);
+
+		tracker.markFollowedUp(state, now + 60 * MINUTE_MS);
+		assert.strictEqual(tracker.shouldFollowUp(state, config, now + 89 * MINUTE_MS), false);
+		assert.strictEqual(tracker.shouldFollowUp(state, config, now + 90 * MINUTE_MS), true);
+		assert.strictEqual(tracker.shouldFollowUp(state, { ...config, enabled: false }, now + 90 * MINUTE_MS), false);
+	});
+
+	test('only follows up on people, and restarts the wait when the blocker changes', async () => {
+		const tracker = new BlockerTracker(createContext());
+		const state = { activeBlocker: null } as SessionState;
+
+		await tracker.update(state, 'waiting_for_process', 'deploy', undefined, now);
+		assert.strictEqual(tracker.shouldFollowUp(state, config, now + 2 * 60 * MINUTE_MS), false);
+
+		// The same person keeps the original start, a new one starts a new wait
+		await tracker.update(state, 'waiting_for_person', 'Anna', undefined, now);
+		await tracker.update(state, 'waiting_for_person', undefined, 'still no review', now + 30 * MINUTE_MS);
+		assert.strictEqual(tracker.shouldFollowUp(state, config, now + 60 * MINUTE_MS), true);
+		await tracker.update(state, 'waiting_for_person', 'Boris', undefined, now + 60 * MINUTE_MS);
+		assert.strictEqual(tracker.shouldFollowUp(state, config, now + 90 * MINUTE_MS), false);
+
+		await tracker.resolve(state, now + 100 * MINUTE_MS);
+		assert.strictEqual(state.activeBlocker, null);
+		assert.deepStrictEqual(
+			tracker.getHistory().map(record => [record.subject, record.resolution]),
+			[['Boris', 'resolved'], ['Anna', 'replaced'], ['deploy', 'replaced']]
+		);
+	});
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { ChatStreamParser } from '../chatStream';
+
+const event = (content: string, finishReason: string | null = null) =>
+	`data: ${JSON.stringify({ choices: [{ delta: { content }, finish_reason: finishReason }] })}\n\n`;
+
+suite('ChatStreamParser Test Suite', () => {
+	test('joins deltas split across network chunks', () => {
+		const parser = new ChatStreamParser();
+		const body = ': keep-alive\n\n' + event('Hel') + event('lo!') + 'data: [DONE]\n\n' + event('ignored');
+
+		const added = [body.slice(0, 20), body.slice(20, 61), body.slice(61)].map(chunk => parser.push(chunk));
+
+		assert.strictEqual(added.join(''), 'Hello!');
+		assert.strictEqual(parser.content, 'Hello!');
+		assert.strictEqual(parser.done, true);
+	});
+
+	test('reports the finish reason and reads a last line without a newline', () => {
+		const parser = new ChatStreamParser();
+		const added = parser.push('data: {"choices":[]}\n\ndata: not json\n\n' + event('Long answer') + event(' cut', 'length').trimEnd());
+
+		assert.strictEqual(added, 'Long answer');
+		assert.strictEqual(parser.flush(), ' cut');
+		assert.strictEqual(parser.content, 'Long answer cut');
+		assert.strictEqual(parser.finishReason, 'length');
+		assert.strictEqual(parser.done, false);
+	});
+});
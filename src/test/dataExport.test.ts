@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { DataExporter } from '../dataExport';
+import { CheckInRecord, ExportBundle } from '../types';
+
+const checkIn = (overrides: Partial<CheckInRecord> = {}): CheckInRecord => ({
+	id: 'c1',
+	timestamp: new Date(2024, 4, 31, 10).getTime(),
+	workspace: 'app',
+	outcome: 'completed',
+	questions: ['What are you working on?', 'Any blockers?'],
+	answers: ['The "login" page,\nthen tests', '=HYPERLINK("http://example.com")'],
+	blockerType: 'waiting_for_person',
+	blockerSubject: '@anna',
+	gitAnalysis: { isStuck: false, hasChanges: true, description: '-2 files', newFiles: ['src/login.ts'] },
+	openingMessage: '+1 for the progress',
+	encouragement: 'Keep going',
+	intervalMs: 15 * 60000,
+	...overrides
+});
+
+const bundle = (checkIns: CheckInRecord[]): ExportBundle => ({
+	version: DataExporter.BUNDLE_VERSION,
+	exportedAt: 0,
+	checkIns,
+	chatMessages: [],
+	gitSnapshots: []
+});
+
+// Imported records spell out optional fields as undefined
+const plain = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+suite('DataExporter Test Suite', () => {
+	test('CSV keeps quotes, commas and newlines through export and import', () => {
+		const record = checkIn({ estimateMinutes: 90 });
+		const { bundle: imported, invalid } = DataExporter.parse(DataExporter.serialize(bundle([record]), 'csv'), 'history.csv');
+
+		assert.strictEqual(invalid, 0);
+		assert.deepStrictEqual(plain(imported.checkIns), [record]);
+	});
+
+	test('CSV cells never start with a formula character', () => {
+		const record = checkIn({ encouragement: '\'=already quoted' });
+		const csv = DataExporter.serialize(bundle([record]), 'csv');
+
+		assert.ok(csv.includes(',\'@anna,'));
+		assert.ok(csv.includes(',\'-2 files,'));
+		assert.ok(csv.includes(',\'+1 for the progress,'));
+		assert.ok(csv.endsWith(',\'\'=already quoted\r\n'));
+		assert.deepStrictEqual(plain(DataExporter.parse(csv, 'history.csv').bundle.checkIns), [record]);
+	});
+
+	test('imports CSV and JSON saved with a byte order mark', () => {
+		const record = checkIn();
+
+		const csv = DataExporter.parse('\ufeff' + DataExporter.serialize(bundle([record]), 'csv'), 'history.csv');
+		assert.deepStrictEqual(plain(csv.bundle.checkIns), [record]);
+
+		const json = DataExporter.parse('\ufeff' + DataExporter.serialize(bundle([record]), 'json'), 'history.json');
+		assert.deepStrictEqual(plain(json.bundle.checkIns), [record]);
+	});
+
+	test('drops and counts invalid rows', () => {
+		const lines = DataExporter.serialize(bundle([checkIn(), checkIn({ id: 'c2' })]), 'csv').split('\r\n');
+		// A row without a timestamp and one whose answers are not a JSON list
+		const broken = [
+			lines[0],
+			lines[1].replace(/^c1,\d+/, 'c3,'),
+			lines[2].replace('"[""The \\""login\\"" page', '"[oops'),
+			lines[2]
+		].join('\r\n');
+
+		const { bundle: imported, invalid } = DataExporter.parse(broken, 'history.csv');
+		assert.deepStrictEqual(imported.checkIns.map(record => record.id), ['c2']);
+		assert.strictEqual(invalid, 2);
+
+		assert.throws(() => DataExporter.parse('name,value\r\na,1\r\n', 'history.csv'));
+	});
+});
@@ -0,0 +1,9 @@
+import * as assert from 'assert';
+import { LocalDates } from '../dates';
+
+suite('LocalDates Test Suite', () => {
+	test('keys timestamps by their local day', () => {
+		assert.strictEqual(LocalDates.dateKey(new Date(2024, 0, 5, 0, 0).getTime()), '2024-01-05');
+		assert.strictEqual(LocalDates.dateKey(new Date(2024, 11, 31, 23, 59).getTime()), '2024-12-31');
+	});
+});
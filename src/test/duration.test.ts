@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { DurationParser } from '../duration';
+
+suite('DurationParser Test Suite', () => {
+	const now = new Date(2025, 0, 15, 14, 0, 0);
+
+	test('parses English durations', () => {
+		assert.strictEqual(DurationParser.parse('2h', now), 120);
+		assert.strictEqual(DurationParser.parse('about 45 minutes', now), 45);
+		assert.strictEqual(DurationParser.parse('1.5 hours', now), 90);
+		assert.strictEqual(DurationParser.parse('2h 30m', now), 150);
+		assert.strictEqual(DurationParser.parse('half an hour', now), 30);
+		assert.strictEqual(DurationParser.parse('an hour', now), 60);
+		assert.strictEqual(DurationParser.parse('a couple of hours', now), 120);
+		assert.strictEqual(DurationParser.parse('2 and a half hours', now), 150);
+		assert.strictEqual(DurationParser.parse('2-3 days', now), 2.5 * DurationParser.WORKDAY_MINUTES);
+	});
+
+	test('parses Russian durations', () => {
+		assert.strictEqual(DurationParser.parse('полчаса', now), 30);
+		assert.strictEqual(DurationParser.parse('час', now), 60);
+		assert.strictEqual(DurationParser.parse('полтора часа', now), 90);
+		assert.strictEqual(DurationParser.parse('2 часа', now), 120);
+		assert.strictEqual(DurationParser.parse('примерно 40 минут', now), 40);
+		assert.strictEqual(DurationParser.parse('1 час 20 минут', now), 80);
+		assert.strictEqual(DurationParser.parse('два с половиной часа', now), 150);
+		assert.strictEqual(DurationParser.parse('пару дней', now), 2 * DurationParser.WORKDAY_MINUTES);
+		assert.strictEqual(DurationParser.parse('1,5 ч', now), 90);
+	});
+
+	test('treats "until the end of the day" as the time left today', () => {
+		const minutesLeft = (DurationParser.END_OF_DAY_HOUR - 14) * 60;
+		assert.strictEqual(DurationParser.parse('до конца дня', now), minutesLeft);
+		assert.strictEqual(DurationParser.parse('by the end of the day', now), minutesLeft);
+		assert.strictEqual(DurationParser.parse('EOD', now), minutesLeft);
+		assert.strictEqual(DurationParser.parse('до конца дня', new Date(2025, 0, 15, 19, 0, 0)), undefined);
+	});
+
+	test('returns undefined when there is no duration', () => {
+		assert.strictEqual(DurationParser.parse('', now), undefined);
+		assert.strictEqual(DurationParser.parse('не знаю', now), undefined);
+		assert.strictEqual(DurationParser.parse('don\'t know', now), undefined);
+		assert.strictEqual(DurationParser.parse('a bug fix', now), undefined);
+		assert.strictEqual(DurationParser.parse('42', now), undefined);
+	});
+});
@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { HistoryStore } from '../history';
+import { CheckInRecord } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const checkIn = (id: string, timestamp: number, overrides: Partial<CheckInRecord> = {}): CheckInRecord => ({
+	id,
+	timestamp,
+	workspace: 'app',
+	outcome: 'completed',
+	questions: ['What are you working on?'],
+	answers: ['Login page'],
+	blockerType: 'none',
+	gitAnalysis: { isStuck: false, hasChanges: true, description: '', newFiles: [] },
+	openingMessage: '',
+	encouragement: '',
+	intervalMs: 15 * 60 * 1000,
+	...overrides
+});
+
+suite('HistoryStore Test Suite', () => {
+	let folder: string;
+	let store: HistoryStore;
+
+	setup(() => {
+		folder = fs.mkdtempSync(path.join(os.tmpdir(), 'task-nudge-history-'));
+		store = new HistoryStore({ globalStorageUri: { fsPath: folder } } as unknown as vscode.ExtensionContext);
+	});
+
+	teardown(() => {
+		fs.rmSync(folder, { recursive: true, force: true });
+	});
+
+	test('queries by date range and workspace, oldest first, without skipped pings', async () => {
+		const day = new Date(2024, 5, 3).getTime();
+		await store.import([
+			checkIn('b', day + 12 * HOUR_MS),
+			checkIn('a', day + 9 * HOUR_MS),
+			checkIn('other', day + 10 * HOUR_MS, { workspace: 'api' }),
+			checkIn('snoozed', day + 11 * HOUR_MS, { outcome: 'snoozed', questions: [], answers: [] }),
+			checkIn('yesterday', day - 2 * HOUR_MS)
+		]);
+
+		const ids = (records: CheckInRecord[]) => records.map(record => record.id);
+		assert.deepStrictEqual(ids(await store.query({ from: day, to: day + 24 * HOUR_MS, workspace: 'app' })), ['a', 'b']);
+		assert.deepStrictEqual(ids(await store.query({ from: day, workspace: 'app', includeSkipped: true })), ['a', 'snoozed', 'b']);
+		assert.deepStrictEqual(ids(await store.query({ to: day + 10 * HOUR_MS })), ['yesterday', 'a']);
+		assert.deepStrictEqual(await store.getWorkspaces(), ['api', 'app']);
+		assert.strictEqual((await store.getLatest('api'))?.id, 'other');
+	});
+
+	test('imports each check-in once, also when imports run at the same time', async () => {
+		const now = Date.now();
+		const first = [checkIn('a', now), checkIn('b', now + 1)];
+		const second = [checkIn('b', now + 1), checkIn('c', now + 2), checkIn('c', now + 2)];
+
+		const added = await Promise.all([store.import(first), store.import(second), store.import(first)]);
+
+		assert.deepStrictEqual(added, [2, 1, 0]);
+		assert.deepStrictEqual((await store.query()).map(record => record.id), ['a', 'b', 'c']);
+	});
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { InsightsCalculator } from '../insights';
+import { CheckInRecord, InsightsQuery } from '../types';
+
+const checkIn = (
+	id: string,
+	timestamp: Date,
+	mood: string,
+	overrides: Partial<CheckInRecord> = {}
+): CheckInRecord => ({
+	id,
+	timestamp: timestamp.getTime(),
+	workspace: 'app',
+	outcome: 'completed',
+	questions: ['How do you feel?'],
+	questionIds: ['mood'],
+	questionRoles: ['mood'],
+	answers: [mood],
+	blockerType: 'none',
+	gitAnalysis: { isStuck: false, hasChanges: true, description: '', newFiles: [] },
+	openingMessage: '',
+	encouragement: '',
+	intervalMs: 15 * 60 * 1000,
+	...overrides
+});
+
+suite('InsightsCalculator Test Suite', () => {
+	const records = [
+		checkIn('a', new Date(2024, 5, 3, 9), 'Great, on a roll', { blockerType: 'waiting_for_person' }),
+		checkIn('d', new Date(2024, 5, 3, 9, 30), 'tired', { workspace: 'api' }),
+		checkIn('b', new Date(2024, 5, 3, 10), '3/5', { gitAnalysis: { isStuck: true, hasChanges: false, description: '', newFiles: [] }, intervalMs: 30 * 60 * 1000 }),
+		checkIn('c', new Date(2024, 5, 4, 9), '', { outcome: 'snoozed', questions: [], questionIds: [], questionRoles: [], answers: [], intervalMs: 30 * 60 * 1000 }),
+		checkIn('later', new Date(2024, 5, 6, 9), 'great')
+	];
+	const query: InsightsQuery = { from: new Date(2024, 5, 3).getTime(), to: new Date(2024, 5, 6).getTime(), groupBy: 'day' };
+
+	test('scores moods from numbers and keywords', () => {
+		assert.strictEqual(InsightsCalculator.scoreMood('4/5 today'), 4);
+		assert.strictEqual(InsightsCalculator.scoreMood('Feeling awesome'), 5);
+		assert.strictEqual(InsightsCalculator.scoreMood('так себе'), 3);
+		assert.strictEqual(InsightsCalculator.scoreMood('12 tickets left'), null);
+		assert.strictEqual(InsightsCalculator.scoreMood(undefined), null);
+	});
+
+	test('groups check-ins by day, with empty days and skipped pings counted separately', () => {
+		const data = InsightsCalculator.calculate(records, query, ['api', 'app'], [], query.to);
+
+		assert.deepStrictEqual(data.buckets.map(bucket => [bucket.key, bucket.checkIns, bucket.snoozed, bucket.stuck]), [
+			['2024-06-03', 3, 0, 1],
+			['2024-06-04', 0, 1, 0],
+			['2024-06-05', 0, 0, 0]
+		]);
+		assert.strictEqual(data.buckets[0].averageMood, (5 + 2 + 3) / 3);
+		assert.strictEqual(data.buckets[1].averageMood, null);
+
+		assert.strictEqual(data.totals.checkIns, 3);
+		assert.strictEqual(data.totals.snoozed, 1);
+		assert.strictEqual(data.totals.stuckRate, 1 / 4);
+		assert.strictEqual(data.totals.averageIntervalMinutes, (15 + 15 + 30 + 30) / 4);
+		assert.deepStrictEqual(data.perWorkspace.map(summary => [summary.workspace, summary.checkIns, summary.skipped]), [['app', 2, 1], ['api', 1, 0]]);
+
+		const weeks = InsightsCalculator.calculate(records, { ...query, groupBy: 'week' }, [], [], query.to);
+		assert.deepStrictEqual(weeks.buckets.map(bucket => [bucket.key, bucket.checkIns]), [['2024-06-03', 3]]);
+	});
+
+	test('attributes time until the next check-in to the blocker, at most two hours', () => {
+		const data = InsightsCalculator.calculate(records, query, [], [], query.to);
+
+		// a waits an hour until b; b and d run until the end of the range, capped
+		assert.deepStrictEqual(data.blockerMinutes, { none: 240, waiting_for_person: 60, waiting_for_process: 0, other: 0 });
+
+		const app = InsightsCalculator.calculate(records, { ...query, workspace: 'app' }, [], [], query.to);
+		assert.strictEqual(app.totals.checkIns, 2);
+		assert.strictEqual(app.blockerMinutes.none, 120);
+	});
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { LlmError } from '../llmErrors';
+
+const body = (message: string, code: string | null = null, type = 'invalid_request_error') =>
+	JSON.stringify({ error: { message, type, code } });
+
+suite('LlmError Test Suite', () => {
+	test('classifies provider error responses', () => {
+		assert.strictEqual(LlmError.fromResponse(401, body('Incorrect API key provided', 'invalid_api_key')).kind, 'invalidKey');
+		assert.strictEqual(LlmError.fromResponse(429, body('You exceeded your current quota', 'insufficient_quota')).kind, 'quota');
+		assert.strictEqual(LlmError.fromResponse(404, body('The model `gpt-5x` does not exist', 'model_not_found')).kind, 'badModel');
+		assert.strictEqual(LlmError.fromResponse(404, body('The API deployment for this resource does not exist.', 'DeploymentNotFound')).kind, 'badModel');
+		assert.strictEqual(LlmError.fromResponse(503, '<html>Service Unavailable</html>').kind, 'server');
+
+		const badRequest = LlmError.fromResponse(400, JSON.stringify({ error: 'max_tokens is too large' }));
+		assert.strictEqual(badRequest.kind, 'badRequest');
+		assert.strictEqual(badRequest.message, 'max_tokens is too large');
+		assert.strictEqual(badRequest.retryable, false);
+		assert.strictEqual(badRequest.action, 'openSettings');
+	});
+
+	test('retries rate limits only when Retry-After is short', () => {
+		const rateLimit = LlmError.fromResponse(429, body('Rate limit reached', 'rate_limit_exceeded', 'requests'), '2');
+		assert.strictEqual(rateLimit.kind, 'rateLimit');
+		assert.strictEqual(rateLimit.retryAfterMs, 2000);
+		assert.strictEqual(rateLimit.retryable, true);
+
+		assert.strictEqual(LlmError.fromResponse(429, '', '3600').retryable, false);
+		assert.strictEqual(LlmError.fromException(new TypeError('fetch failed')).kind, 'network');
+		assert.strictEqual(new LlmError('invalidKey', 'HTTP 401').toFailure().action, 'setKey');
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { LlmProvider } from '../llmProvider';
+import { LlmConfig } from '../types';
+
+const MODELS: LlmConfig['models'] = {
+	opening: { model: 'llama3', temperature: 0.7, maxTokens: 150 },
+	analysis: { model: 'llama3', temperature: 0.2, maxTokens: 200 },
+	chat: { model: 'chat-deployment', temperature: 0.8, maxTokens: 300 }
+};
+
+const config = (overrides: Partial<LlmConfig>): LlmConfig => ({
+	provider: 'openai', baseUrl: '', apiKey: '', apiVersion: '', models: MODELS, timeoutSeconds: 30, maxRetries: 2, ...overrides
+});
+
+const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+suite('LlmProvider Test Suite', () => {
+	test('sends OpenAI-compatible requests to the base URL, with the key only when set', () => {
+		const local = LlmProvider.create(config({ provider: 'openaiCompatible', baseUrl: 'http://localhost:11434/v1/' }));
+		const request = local.buildRequest(messages, 'analysis');
+
+		assert.strictEqual(local.isConfigured(), true);
+		assert.strictEqual(request.url, 'http://localhost:11434/v1/chat/completions');
+		assert.deepStrictEqual(request.headers, { 'Content-Type': 'application/json' });
+		assert.deepStrictEqual(request.body, { model: 'llama3', messages, max_tokens: 200, temperature: 0.2 });
+		assert.strictEqual(local.buildRequest(messages, 'analysis', 100).body.max_tokens, 100);
+
+		const openai = LlmProvider.create(config({ provider: 'openai', apiKey: 'sk-test' }));
+		assert.strictEqual(openai.buildRequest(messages, 'chat').url, 'https://api.openai.com/v1/chat/completions');
+		assert.strictEqual(openai.buildRequest(messages, 'chat').headers['Authorization'], 'Bearer sk-test');
+		assert.strictEqual(LlmProvider.create(config({ provider: 'openai' })).isConfigured(), false);
+	});
+
+	test('addresses Azure deployments by name with the API version and key header', () => {
+		const azure = LlmProvider.create(config({ provider: 'azure', baseUrl: 'https://team.openai.azure.com', apiKey: 'key', apiVersion: '2024-06-01' }));
+		const request = azure.buildRequest(messages, 'chat');
+
+		assert.strictEqual(request.url, 'https://team.openai.azure.com/openai/deployments/chat-deployment/chat/completions?api-version=2024-06-01');
+		assert.deepStrictEqual(request.headers, { 'Content-Type': 'application/json', 'api-key': 'key' });
+		assert.strictEqual(request.body.model, undefined);
+		assert.strictEqual(LlmProvider.create(config({ provider: 'azure', apiKey: 'key' })).isConfigured(), false);
+	});
+});
@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { Localization } from '../localization';
+
+// out/test -> repository root, where the l10n folder is
+const EXTENSION_PATH = path.resolve(__dirname, '..', '..');
+
+suite('Localization Test Suite', () => {
+	teardown(() => {
+		Localization.load(EXTENSION_PATH, 'en');
+	});
+
+	test('translates with the bundle of the UI language and fills in placeholders', () => {
+		Localization.load(EXTENSION_PATH, 'ru');
+
+		assert.strictEqual(Localization.getLanguage(), 'ru');
+		assert.strictEqual(Localization.t('Yes'), 'Да');
+		assert.strictEqual(Localization.t('Check-in · {0} / {1}', 2, 5), 'Чек-ин · 2 / 5');
+		assert.strictEqual(Localization.t('Not in any bundle: {0}', 'x'), 'Not in any bundle: x');
+	});
+
+	test('falls back to the base language and then to English', () => {
+		Localization.load(EXTENSION_PATH, 'ru-RU');
+		assert.strictEqual(Localization.getLanguage(), 'ru');
+
+		Localization.load(EXTENSION_PATH, 'xx');
+		assert.strictEqual(Localization.getLanguage(), 'en');
+		assert.strictEqual(Localization.t('{0}h {1}m', 1, 5), '1h 5m');
+		assert.strictEqual(Localization.format('{name} is {missing}', [{ name: 'CI' }]), 'CI is {missing}');
+	});
+});
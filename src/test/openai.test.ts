@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { OpenAIManager } from '../openai';
+import { LlmConfig } from '../types';
+
+const MODELS: LlmConfig['models'] = {
+	opening: { model: 'gpt-4o-mini', temperature: 0.7, maxTokens: 150 },
+	analysis: { model: 'gpt-4o-mini', temperature: 0.2, maxTokens: 200 },
+	chat: { model: 'gpt-4o-mini', temperature: 0.8, maxTokens: 300 }
+};
+
+const manager = new OpenAIManager({
+	provider: 'openai', baseUrl: '', apiKey: '', apiVersion: '', models: MODELS, timeoutSeconds: 30, maxRetries: 2
+});
+
+// System prompt of the analysis for a single mood answer
+const analysisSystem = (mood: string) => manager.buildAnalysisMessages({
+	questions: ['How are you feeling? (1-5)'],
+	questionRoles: ['mood'],
+	answers: [mood]
+})[0].content;
+
+suite('OpenAIManager Test Suite', () => {
+	test('adds mood guidance for scale answers and English words', () => {
+		assert.ok(analysisSystem('2/5').includes('The developer is in a bad mood'));
+		assert.ok(analysisSystem('4/5').includes('The developer is in a good mood'));
+		assert.ok(analysisSystem('3').includes('The developer is in a neutral mood'));
+		assert.ok(analysisSystem('Pretty tired today').includes('The developer is in a bad mood'));
+		assert.ok(analysisSystem('отлично').includes('The developer is in a good mood'));
+	});
+
+	test('leaves the guidance out when the mood cannot be scored', () => {
+		assert.ok(!analysisSystem('working on the login page').includes('mood'));
+	});
+});
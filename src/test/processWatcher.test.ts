@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { ProcessWatcher } from '../processWatcher';
+import { RunningProcess } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+
+suite('ProcessWatcher Test Suite', () => {
+	const now = new Date(2024, 5, 3, 10).getTime();
+	const build: RunningProcess = { kind: 'task', name: 'build', startedAt: now - 5 * MINUTE_MS };
+	const devServer: RunningProcess = { kind: 'terminal', name: 'npm run dev', startedAt: now - 3 * 60 * MINUTE_MS };
+
+	test('holds pings only while a process is younger than the maximum', () => {
+		assert.strictEqual(ProcessWatcher.holdsPings([], 60, now), false);
+		assert.strictEqual(ProcessWatcher.holdsPings([build], 60, now), true);
+		assert.strictEqual(ProcessWatcher.holdsPings([build], 60, now + 55 * MINUTE_MS), false);
+
+		// A dev server left running all day doesn't hold pings, a build started next to it does
+		assert.strictEqual(ProcessWatcher.holdsPings([devServer], 60, now), false);
+		assert.strictEqual(ProcessWatcher.holdsPings([devServer, build], 60, now), true);
+	});
+
+	test('holds pings for as long as processes run without a maximum', () => {
+		assert.strictEqual(ProcessWatcher.holdsPings([devServer], 0, now), true);
+		assert.strictEqual(ProcessWatcher.holdsPings([devServer], 0, now + 24 * 60 * MINUTE_MS), true);
+	});
+});
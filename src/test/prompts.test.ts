@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { PromptTemplates } from '../prompts';
+
+suite('PromptTemplates Test Suite', () => {
+	test('fills in variables and keeps sections only when their variable is set', () => {
+		const template = 'Coach in {{language}}.{{#task}} Task: {{ task }}.{{/task}}{{#blockerType}} Blocked: {{blockerType}}.{{/blockerType}} {{teamRule}}';
+
+		assert.strictEqual(
+			PromptTemplates.renderTemplate(template, { task: 'Login page', blockerType: '  ' }),
+			'Coach in English. Task: Login page. {{teamRule}}'
+		);
+		// Answers are inserted as they are, never expanded again
+		assert.strictEqual(PromptTemplates.renderTemplate('{{answers}}', { answers: 'I typed {{mood}}' }), 'I typed {{mood}}');
+		assert.deepStrictEqual(PromptTemplates.findUnknownVariables(template + '{{#mod}}x{{/mod}}'), ['teamRule', 'mod']);
+	});
+
+	test('built-in analysis prompt drops the parts without values', () => {
+		const rendered = PromptTemplates.renderTemplate(PromptTemplates.getDefault('analysis'), {
+			answers: 'Question: How is it going?\nAnswer: Fine',
+			unknownAnswers: '',
+			estimate: 'You estimated 2h and spent 3h.'
+		});
+
+		assert.ok(rendered.includes('Answer: Fine'));
+		assert.ok(!rendered.includes('Pay special attention'));
+		assert.ok(!rendered.includes('{{'));
+		assert.ok(rendered.endsWith('Estimate accuracy: You estimated 2h and spent 3h. Briefly comment on how the developer estimates tasks.'));
+	});
+});
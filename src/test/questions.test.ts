@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { QuestionSchema } from '../questions';
+import { AnswerExtractor } from '../answers';
+import { DEFAULT_QUESTIONS } from '../config';
+
+suite('QuestionSchema Test Suite', () => {
+	test('default questions match the package.json default and need no migration', () => {
+		const manifest = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8'));
+
+		assert.deepStrictEqual(DEFAULT_QUESTIONS, manifest.contributes.configuration.properties['taskNudge.questions'].default);
+		assert.deepStrictEqual(QuestionSchema.normalize(DEFAULT_QUESTIONS), DEFAULT_QUESTIONS);
+	});
+
+	test('migrates plain strings to free-text questions with roles inferred from the wording', () => {
+		const questions = QuestionSchema.normalize([
+			'What task are you currently working on?',
+			'Над какой задачей ты сейчас работаешь?',
+			'Anything else?',
+			'   '
+		]);
+
+		assert.deepStrictEqual(questions, [
+			{ id: 'task', text: 'What task are you currently working on?', type: 'text', role: 'task' },
+			{ id: 'task-2', text: 'Над какой задачей ты сейчас работаешь?', type: 'text', role: 'task' },
+			{ id: 'question-3', text: 'Anything else?', type: 'text', role: 'custom' }
+		]);
+	});
+
+	test('keeps typed questions and drops defaults that do not fit', () => {
+		const [mood, area, done] = QuestionSchema.normalize([
+			{ id: 'mood', text: 'Mood?', type: 'scale', default: 7, lowLabel: 'Bad', highLabel: 'Good' },
+			{ id: 'area', text: 'Area?', type: 'multi', options: ['Frontend', 'Backend'], default: ['Backend', 'Docs'] },
+			{ id: 'done', text: 'Done?', type: 'yesno', required: true, default: 'yes' }
+		]);
+
+		assert.deepStrictEqual(mood, { id: 'mood', text: 'Mood?', type: 'scale', role: 'mood', lowLabel: 'Bad', highLabel: 'Good' });
+		assert.deepStrictEqual(area.default, ['Backend']);
+		assert.strictEqual(done.required, true);
+		assert.strictEqual(done.default, undefined);
+	});
+
+	test('falls back to free text for unknown types and choices without options', () => {
+		const questions = QuestionSchema.normalize([
+			{ text: 'Rating?', type: 'stars' },
+			{ text: 'Pick one', type: 'single', options: [] },
+			{ type: 'text' },
+			42
+		]);
+
+		assert.deepStrictEqual(questions.map(q => q.type), ['text', 'text']);
+		assert.deepStrictEqual(questions.map(q => q.id), ['question-1', 'question-2']);
+		assert.strictEqual(QuestionSchema.needsMigration(['Old question']), true);
+		assert.strictEqual(QuestionSchema.needsMigration(questions), false);
+	});
+
+	test('takes the role from the declaration or the id, never from the wording', () => {
+		const questions = QuestionSchema.normalize([
+			{ id: 'feeling', role: 'mood', text: 'Как ты?', type: 'scale' },
+			{ id: 'next-step', text: 'And then?' },
+			{ id: 'focus', text: 'What task are you working on?', role: 'unknown' }
+		]);
+
+		assert.deepStrictEqual(QuestionSchema.getRoles(questions), ['mood', 'next_step', 'custom']);
+		assert.strictEqual(QuestionSchema.inferRole('How long will it take to finish the task?'), 'estimate');
+	});
+
+	test('resolves question sets and picks the first one matching the context', () => {
+		const regular = QuestionSchema.normalize([
+			{ id: 'task', text: 'Task?' },
+			{ id: 'mood', text: 'Mood?', type: 'scale' }
+		]);
+		const sets = QuestionSchema.normalizeSets([
+			{ id: 'waiting', when: { waiting: true, stuck: 'yes' }, questions: ['mood', 'missing'] },
+			{ id: 'evening', when: { endOfDay: true }, questions: ['task', { id: 'tomorrow', text: 'Plan for tomorrow?' }] },
+			{ id: 'empty', questions: ['missing'] }
+		], regular);
+		const context = { firstPingOfDay: false, stuck: true, waiting: false, endOfDay: true };
+
+		assert.deepStrictEqual(sets.map(set => set.id), ['waiting', 'evening']);
+		assert.deepStrictEqual(sets[0].when, { waiting: true });
+		assert.strictEqual(QuestionSchema.selectSet(sets, context)?.id, 'evening');
+		assert.deepStrictEqual(QuestionSchema.selectSet(sets, context)?.questions.map(q => q.id), ['task', 'tomorrow']);
+		assert.strictEqual(QuestionSchema.selectSet(sets, { ...context, endOfDay: false }), undefined);
+	});
+
+	test('skips a question when the earlier answer matches its rule', () => {
+		const [helper] = QuestionSchema.normalize([
+			{ id: 'helper', text: 'Who can help?', skipIf: { question: 'blocker', answers: ['nothing', 'ничего'], empty: true } }
+		]);
+
+		assert.strictEqual(AnswerExtractor.shouldSkip(helper, new Map([['blocker', ' Nothing. ']])), true);
+		assert.strictEqual(AnswerExtractor.shouldSkip(helper, new Map([['blocker', 'Don\'t know']])), true);
+		assert.strictEqual(AnswerExtractor.shouldSkip(helper, new Map([['blocker', 'Flaky CI']])), false);
+		assert.strictEqual(AnswerExtractor.shouldSkip(helper, new Map()), false);
+	});
+});
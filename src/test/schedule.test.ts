@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { ScheduleManager } from '../schedule';
+import { WorkingHoursConfig } from '../types';
+
+const config = (overrides: Partial<WorkingHoursConfig> = {}): WorkingHoursConfig => ({
+	enabled: true,
+	timeZone: 'UTC',
+	schedule: { monday: ['09:00-18:00'], tuesday: ['09:00-18:00'] },
+	lunchBreak: '13:00-14:00',
+	daysOff: [],
+	outsideHours: 'defer',
+	...overrides
+});
+
+// Monday, 3 June 2024, in UTC
+const monday = (hour: number, minute = 0) => Date.UTC(2024, 5, 3, hour, minute);
+
+suite('ScheduleManager Test Suite', () => {
+	test('allows nudges inside working ranges except during lunch', () => {
+		const schedule = new ScheduleManager(config());
+
+		assert.strictEqual(schedule.isWorkingTime(monday(8, 59)), false);
+		assert.strictEqual(schedule.isWorkingTime(monday(9)), true);
+		assert.strictEqual(schedule.isWorkingTime(monday(13, 30)), false);
+		assert.strictEqual(schedule.isWorkingTime(monday(17, 59)), true);
+		assert.strictEqual(schedule.isWorkingTime(monday(18)), false);
+		// Wednesday is not listed
+		assert.strictEqual(schedule.isWorkingTime(monday(10) + 2 * 24 * 3600 * 1000), false);
+		assert.strictEqual(new ScheduleManager(config({ enabled: false })).isWorkingTime(monday(3)), true);
+	});
+
+	test('reads the schedule in its time zone', () => {
+		// 09:00 in Tokyo is 00:00 UTC
+		const tokyo = new ScheduleManager(config({ timeZone: 'Asia/Tokyo' }));
+
+		assert.strictEqual(tokyo.isWorkingTime(monday(0, 30)), true);
+		assert.strictEqual(tokyo.isWorkingTime(monday(10)), false);
+		assert.strictEqual(tokyo.getDateKey(Date.UTC(2024, 5, 2, 20)), '2024-06-03');
+	});
+
+	test('skips single days off and ranges of days off', () => {
+		const single = new ScheduleManager(config({ daysOff: ['2024-06-03'] }));
+		assert.strictEqual(single.isWorkingTime(monday(10)), false);
+		assert.strictEqual(single.isWorkingTime(monday(10) + 24 * 3600 * 1000), true);
+
+		const vacation = new ScheduleManager(config({ daysOff: ['2024-06-01..2024-06-04'] }));
+		assert.strictEqual(vacation.isWorkingTime(monday(10)), false);
+		assert.strictEqual(vacation.isWorkingTime(monday(10) + 24 * 3600 * 1000), false);
+	});
+
+	test('finds the start of the next working period', () => {
+		const schedule = new ScheduleManager(config());
+
+		assert.strictEqual(schedule.getNextWorkingTime(monday(10)), monday(10));
+		assert.strictEqual(schedule.getNextWorkingTime(monday(13, 10)), monday(14));
+		assert.strictEqual(schedule.getNextWorkingTime(monday(7, 23)), monday(9));
+		// Tuesday evening: the next working day is next Monday
+		assert.strictEqual(schedule.getNextWorkingTime(monday(19) + 24 * 3600 * 1000), monday(9) + 7 * 24 * 3600 * 1000);
+		assert.strictEqual(new ScheduleManager(config({ schedule: {} })).getNextWorkingTime(monday(10)), undefined);
+	});
+
+	test('runs night shifts into the next day', () => {
+		const schedule = new ScheduleManager(config({ schedule: { monday: ['22:00-06:00'] }, lunchBreak: '' }));
+
+		assert.deepStrictEqual(ScheduleManager.parseRange('22:00-06:00'), { start: 22 * 60, end: 30 * 60 });
+		assert.strictEqual(schedule.isWorkingTime(monday(21, 59)), false);
+		assert.strictEqual(schedule.isWorkingTime(monday(23)), true);
+		assert.strictEqual(schedule.isWorkingTime(monday(5) + 24 * 3600 * 1000), true);
+		assert.strictEqual(schedule.isWorkingTime(monday(6) + 24 * 3600 * 1000), false);
+		assert.strictEqual(schedule.isEndOfDay(30, monday(5, 45) + 24 * 3600 * 1000), true);
+		assert.strictEqual(schedule.isEndOfDay(30, monday(23)), false);
+	});
+
+	test('skips ranges that cannot be parsed', () => {
+		assert.strictEqual(ScheduleManager.parseRange('9-18'), undefined);
+		assert.strictEqual(ScheduleManager.parseRange('09:00-09:00'), undefined);
+		assert.strictEqual(ScheduleManager.parseRange('25:00-26:00'), undefined);
+		assert.deepStrictEqual(ScheduleManager.parseRange('18:00-24:00'), { start: 18 * 60, end: 24 * 60 });
+
+		const schedule = new ScheduleManager(config({ schedule: { monday: ['nine to six', '09:00-12:00'] } }));
+		assert.strictEqual(schedule.isWorkingTime(monday(10)), true);
+	});
+});
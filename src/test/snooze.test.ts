@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { SnoozeManager } from '../snooze';
+import { SessionState } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+
+suite('SnoozeManager Test Suite', () => {
+	const snoozeManager = new SnoozeManager();
+	const now = new Date(2024, 5, 3, 10).getTime();
+
+	test('a snooze for a duration expires and is cleared once', () => {
+		const state = { snooze: null } as SessionState;
+		snoozeManager.applySnooze(state, { type: 'duration', minutes: SnoozeManager.POSTPONE_MINUTES }, now);
+
+		assert.strictEqual(snoozeManager.isSnoozed(state, now + 14 * MINUTE_MS), true);
+		assert.strictEqual(snoozeManager.clearIfExpired(state, now + 14 * MINUTE_MS), false);
+		assert.strictEqual(snoozeManager.isSnoozed(state, now + 15 * MINUTE_MS), false);
+		assert.strictEqual(snoozeManager.clearIfExpired(state, now + 15 * MINUTE_MS), true);
+		assert.strictEqual(state.snooze, null);
+		assert.strictEqual(snoozeManager.clearIfExpired(state, now + 16 * MINUTE_MS), false);
+	});
+
+	test('"until I save a file" lasts until a save, not until a time', () => {
+		const state = { snooze: null } as SessionState;
+		snoozeManager.applySnooze(state, { type: 'untilFileSave' }, now);
+
+		assert.strictEqual(snoozeManager.isSnoozed(state, now + 24 * 60 * MINUTE_MS), true);
+		assert.strictEqual(snoozeManager.clearIfExpired(state, now + 24 * 60 * MINUTE_MS), false);
+		assert.strictEqual(snoozeManager.handleFileSaved(state), true);
+		assert.strictEqual(snoozeManager.isSnoozed(state, now), false);
+
+		// Saves don't lift other snoozes
+		snoozeManager.applySnooze(state, { type: 'indefinite' }, now);
+		assert.strictEqual(snoozeManager.handleFileSaved(state), false);
+		assert.strictEqual(snoozeManager.isSnoozed(state, now + 24 * 60 * MINUTE_MS), true);
+	});
+
+	test('snoozes until tomorrow morning', () => {
+		const state = { snooze: null } as SessionState;
+		const until = SnoozeManager.getTomorrowAt(SnoozeManager.MORNING_HOUR, now);
+		snoozeManager.applySnooze(state, { type: 'until', timestamp: until }, now);
+
+		assert.strictEqual(until, new Date(2024, 5, 4, 9).getTime());
+		assert.strictEqual(snoozeManager.isSnoozed(state, until - 1), true);
+		assert.strictEqual(snoozeManager.isSnoozed(state, until), false);
+	});
+});
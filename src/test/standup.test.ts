@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { StandupGenerator } from '../standup';
+import { HistoryStore } from '../history';
+import { GitManager } from '../git';
+import { CheckInRecord, GitCommit, HistoryQuery } from '../types';
+
+const checkIn = (id: string, timestamp: Date, answers: [string, string, string]): CheckInRecord => ({
+	id,
+	timestamp: timestamp.getTime(),
+	workspace: 'app',
+	outcome: 'completed',
+	questions: ['What are you working on?', 'What is blocking you?', 'What is your next step?'],
+	questionIds: ['task', 'blocker', 'next'],
+	questionRoles: ['task', 'blocker', 'next_step'],
+	answers,
+	blockerType: 'none',
+	gitAnalysis: { isStuck: false, hasChanges: true, description: '', newFiles: [] },
+	openingMessage: '',
+	encouragement: '',
+	intervalMs: 15 * 60 * 1000
+});
+
+const commit = (hash: string, timestamp: Date, subject: string, files: string[]): GitCommit => ({
+	hash,
+	author: 'Anna',
+	timestamp: timestamp.getTime(),
+	subject,
+	files
+});
+
+// History and Git with fixed contents
+const createGenerator = (checkIns: CheckInRecord[], commits: GitCommit[], changedFiles: string[]) => new StandupGenerator(
+	{ query: async (filter: HistoryQuery) => checkIns.filter(record => record.timestamp >= (filter.from ?? 0)) } as unknown as HistoryStore,
+	{
+		getCommits: async (since: Date) => commits.filter(c => c.timestamp >= since.getTime()),
+		getChangedFiles: async () => changedFiles
+	} as unknown as GitManager
+);
+
+suite('StandupGenerator Test Suite', () => {
+	// Monday morning; the last working day was Friday
+	const now = new Date(2024, 5, 3, 10).getTime();
+
+	test('reports the last active day, today\'s plan and blockers', async () => {
+		const generator = createGenerator(
+			[
+				checkIn('wed', new Date(2024, 4, 29, 15), ['Signup page', 'nothing', 'deploy']),
+				checkIn('fri', new Date(2024, 4, 31, 15), ['Login page', 'nothing', 'write tests'])
+			],
+			[
+				commit('abc1234def', new Date(2024, 4, 31, 16), 'Add login form', ['src/login.ts', 'src/login.css']),
+				commit('0123456789', new Date(2024, 5, 3, 9), 'Fix login redirect', ['src/login.ts'])
+			],
+			['src/auth.ts']
+		);
+
+		const markdown = await generator.generate({ type: 'waiting_for_person', subject: 'Boris', startedAt: now - 90 * 60 * 1000 }, now);
+		const section = (title: string) => markdown.split('## ').find(part => part.startsWith(title)) ?? '';
+
+		const yesterday = section('Yesterday');
+		assert.ok(yesterday.startsWith(`Yesterday (${new Date(2024, 4, 31).toLocaleDateString()})`));
+		assert.ok(yesterday.includes('- Worked on: Login page'));
+		assert.ok(!yesterday.includes('Signup page'));
+		assert.ok(yesterday.includes('- Committed: Add login form (`abc1234`)'));
+		assert.ok(yesterday.includes('- Touched 2 file(s): `src/login.ts`, `src/login.css`'));
+
+		const today = section('Today');
+		assert.ok(today.includes('- Next step: write tests'));
+		assert.ok(today.includes('- Committed: Fix login redirect (`0123456`)'));
+		assert.ok(today.includes('- In progress (uncommitted): `src/auth.ts`'));
+
+		// "nothing" is not listed as a blocker
+		assert.deepStrictEqual(section('Blockers').trim().split('\n').slice(1), ['- waiting for a teammate: Boris (for 1h 30m)']);
+	});
+
+	test('says so when nothing was recorded', async () => {
+		const markdown = await createGenerator([], [], []).generate(null, now);
+
+		assert.ok(markdown.includes('- No check-ins or commits recorded.'));
+		assert.ok(markdown.includes('- No plan recorded yet.'));
+		assert.ok(markdown.endsWith('## Blockers\n- None\n'));
+	});
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StateSchema } from '../stateSchema';
+
+suite('StateSchema Test Suite', () => {
+	const snapshot = {
+		timestamp: 1700000000000,
+		changedFiles: ['src/extension.ts'],
+		additions: 0,
+		deletions: 0,
+		summary: '1 file changed'
+	};
+
+	test('migrates unversioned state and moves the Git snapshot into it', () => {
+		const result = StateSchema.migrate({
+			blockerType: 'waiting_for_person',
+			isWaiting: true,
+			baseIntervalMs: 10 * 60 * 1000,
+			currentIntervalMs: 20 * 60 * 1000,
+			maxIntervalMs: 60 * 60 * 1000,
+			idleThresholdMs: 180 * 1000,
+			lastGitSnapshot: '{"old":"string format"}',
+			lastQuestionAnswers: ['fixing tests']
+		}, { gitSnapshot: snapshot });
+
+		assert.deepStrictEqual(result.problems, []);
+		assert.strictEqual(result.fromVersion, 0);
+		assert.strictEqual(result.state.schemaVersion, StateSchema.VERSION);
+		assert.strictEqual(result.state.blockerType, 'waiting_for_person');
+		assert.strictEqual(result.state.currentIntervalMs, 20 * 60 * 1000);
+		assert.deepStrictEqual(result.state.lastGitSnapshot, snapshot);
+		assert.deepStrictEqual(result.state.lastQuestionAnswers, ['fixing tests']);
+	});
+
+	test('leaves current-version state unchanged', () => {
+		const stored = StateSchema.migrate({}).state;
+		const result = StateSchema.migrate({ ...stored, lastGitSnapshot: snapshot }, { gitSnapshot: { ...snapshot, summary: 'stale' } });
+
+		assert.deepStrictEqual(result.problems, []);
+		assert.strictEqual(result.fromVersion, StateSchema.VERSION);
+		assert.strictEqual(result.state.lastGitSnapshot?.summary, '1 file changed');
+	});
+
+	test('reports unknown blocker types and out-of-bounds intervals', () => {
+		const result = StateSchema.migrate({
+			schemaVersion: StateSchema.VERSION,
+			blockerType: 'waiting_for_coffee',
+			baseIntervalMs: -5,
+			currentIntervalMs: 'soon',
+			activeBlocker: { type: 'mystery', startedAt: 1700000000000 }
+		});
+
+		assert.strictEqual(result.problems.length, 4);
+		assert.strictEqual(result.state.blockerType, 'none');
+		assert.strictEqual(result.state.baseIntervalMs, StateSchema.DEFAULT_BASE_INTERVAL_MS);
+		assert.strictEqual(result.state.currentIntervalMs, StateSchema.DEFAULT_BASE_INTERVAL_MS);
+		assert.strictEqual(result.state.activeBlocker, null);
+	});
+
+	test('accepts intervals up to a day, the maximum of the interval settings', () => {
+		const result = StateSchema.migrate({
+			schemaVersion: StateSchema.VERSION,
+			baseIntervalMs: StateSchema.MAX_INTERVAL_MS,
+			maxIntervalMs: StateSchema.MAX_INTERVAL_MS + 1
+		});
+
+		assert.deepStrictEqual(result.problems, [`maxIntervalMs is out of bounds (${StateSchema.MAX_INTERVAL_MS + 1})`]);
+		assert.strictEqual(result.state.baseIntervalMs, StateSchema.MAX_INTERVAL_MS);
+
+		const properties = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8')).contributes.configuration.properties;
+		assert.strictEqual(properties['taskNudge.baseIntervalMinutes'].maximum * 60 * 1000, StateSchema.MAX_INTERVAL_MS);
+		assert.strictEqual(properties['taskNudge.maxIntervalMinutes'].maximum * 60 * 1000, StateSchema.MAX_INTERVAL_MS);
+		assert.strictEqual(properties['taskNudge.idleThresholdSeconds'].maximum * 1000, StateSchema.MAX_INTERVAL_MS);
+	});
+
+	test('clamps the current interval to the maximum without reporting it', () => {
+		const result = StateSchema.migrate({
+			schemaVersion: StateSchema.VERSION,
+			currentIntervalMs: 90 * 60 * 1000,
+			maxIntervalMs: 30 * 60 * 1000
+		});
+
+		assert.deepStrictEqual(result.problems, []);
+		assert.strictEqual(result.state.currentIntervalMs, 30 * 60 * 1000);
+	});
+
+	test('flags state that is not an object or comes from a newer version', () => {
+		const garbage = StateSchema.migrate('not state');
+		assert.strictEqual(garbage.fromVersion, undefined);
+		assert.strictEqual(garbage.problems.length, 1);
+		assert.strictEqual(garbage.state.blockerType, 'none');
+
+		const newer = StateSchema.migrate({ schemaVersion: StateSchema.VERSION + 1 });
+		assert.strictEqual(newer.problems.length, 1);
+	});
+});
@@ -0,0 +1,17 @@
+import * as assert from 'assert';
+import { StatusBarManager } from '../statusBar';
+
+suite('StatusBarManager Test Suite', () => {
+	test('formats the countdown to the next check-in', () => {
+		assert.strictEqual(StatusBarManager.formatCountdown(0), '0:00');
+		assert.strictEqual(StatusBarManager.formatCountdown(-5000), '0:00');
+		assert.strictEqual(StatusBarManager.formatCountdown(65 * 1000), '1:05');
+		assert.strictEqual(StatusBarManager.formatCountdown(59 * 60 * 1000 + 59_600), '1h 00m');
+		assert.strictEqual(StatusBarManager.formatCountdown((2 * 60 + 7) * 60 * 1000), '2h 07m');
+	});
+
+	test('describes blockers for the status bar', () => {
+		assert.strictEqual(StatusBarManager.describeBlocker('waiting_for_person'), 'waiting for a teammate');
+		assert.strictEqual(StatusBarManager.describeBlocker('none'), 'none');
+	});
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TaskTracker } from '../tasks';
+
+const MINUTE_MS = 60 * 1000;
+const IDLE_THRESHOLD_MS = 3 * MINUTE_MS;
+
+// Workspace state kept in memory
+const createContext = (): vscode.ExtensionContext => {
+	const values = new Map<string, unknown>();
+	return {
+		workspaceState: {
+			get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+			update: async (key: string, value: unknown) => {
+				values.set(key, value);
+			}
+		}
+	} as unknown as vscode.ExtensionContext;
+};
+
+suite('TaskTracker Test Suite', () => {
+	const start = new Date(2024, 5, 3, 23, 50).getTime();
+
+	test('counts active time per day and skips idle gaps', async () => {
+		const tracker = new TaskTracker(createContext());
+		await tracker.start('Login page', 'feature/login', start);
+
+		tracker.recordActivity(start + 2 * MINUTE_MS, IDLE_THRESHOLD_MS);
+		// Idle for longer than the threshold: not counted
+		tracker.recordActivity(start + 8 * MINUTE_MS, IDLE_THRESHOLD_MS);
+		// Past midnight, counted for the next day
+		tracker.recordActivity(start + 11 * MINUTE_MS, IDLE_THRESHOLD_MS);
+
+		const task = tracker.getActive();
+		assert.strictEqual(task?.trackedMs, 5 * MINUTE_MS);
+		assert.deepStrictEqual(task?.dailyMs, { '2024-06-03': 2 * MINUTE_MS, '2024-06-04': 3 * MINUTE_MS });
+		assert.deepStrictEqual(tracker.getActiveContext(start + 11 * MINUTE_MS), {
+			title: 'Login page',
+			branch: 'feature/login',
+			todayMs: 3 * MINUTE_MS,
+			totalMs: 5 * MINUTE_MS,
+			estimate: undefined
+		});
+	});
+
+	test('pauses the current task when another starts, and stops counting paused time', async () => {
+		const context = createContext();
+		const tracker = new TaskTracker(context);
+		const login = await tracker.start('Login page', undefined, start);
+		tracker.recordActivity(start + MINUTE_MS, IDLE_THRESHOLD_MS);
+
+		await tracker.start('Hotfix', undefined, start + 2 * MINUTE_MS);
+		tracker.recordActivity(start + 3 * MINUTE_MS, IDLE_THRESHOLD_MS);
+		assert.deepStrictEqual(tracker.getPaused().map(task => [task.title, task.trackedMs]), [['Login page', MINUTE_MS]]);
+
+		await tracker.finish(start + 4 * MINUTE_MS);
+		await tracker.resume(login.id, start + 10 * MINUTE_MS);
+		tracker.recordActivity(start + 11 * MINUTE_MS, IDLE_THRESHOLD_MS);
+
+		assert.strictEqual(tracker.getActive()?.trackedMs, 2 * MINUTE_MS);
+		assert.deepStrictEqual(tracker.getFinished().map(task => [task.title, task.trackedMs]), [['Hotfix', MINUTE_MS]]);
+
+		// Tasks survive a reload
+		await tracker.save();
+		assert.strictEqual(new TaskTracker(context).getActive()?.id, login.id);
+	});
+
+	test('compares the first estimate with the time it took', async () => {
+		const tracker = new TaskTracker(createContext());
+		await tracker.start('Login page', undefined, start);
+		await tracker.addEstimate(2, start);
+		for (let minute = 1; minute <= 3; minute++) {
+			tracker.recordActivity(start + minute * MINUTE_MS, IDLE_THRESHOLD_MS);
+		}
+
+		assert.deepStrictEqual(tracker.getActiveContext(start + 3 * MINUTE_MS)?.estimate, { minutes: 2, spentMs: 3 * MINUTE_MS });
+
+		const task = await tracker.finish(start + 3 * MINUTE_MS);
+		const accuracy = TaskTracker.getEstimateAccuracy(task!);
+		assert.strictEqual(accuracy?.actualMinutes, 3);
+		assert.strictEqual(accuracy?.ratio, 1.5);
+	});
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UsageTracker } from '../usage';
+import { DEFAULT_MODEL_PRICES } from '../config';
+import { JsonlFile } from '../jsonl';
+import { UsageFeature, UsageRecord } from '../types';
+
+const record = (timestamp: Date, feature: UsageFeature, cost: number, tokens = 100): UsageRecord => ({
+	id: `${timestamp.getTime()}-${feature}`,
+	timestamp: timestamp.getTime(),
+	workspace: 'app',
+	feature,
+	model: feature === 'voice' ? 'tts-1' : 'gpt-4o-mini',
+	promptTokens: feature === 'voice' ? 0 : tokens,
+	completionTokens: feature === 'voice' ? 0 : tokens / 2,
+	characters: feature === 'voice' ? 200 : 0,
+	estimated: false,
+	cost
+});
+
+suite('UsageTracker Test Suite', () => {
+	test('prices models by the longest matching name prefix', () => {
+		assert.deepStrictEqual(UsageTracker.getPrice('gpt-4o-mini-2024-07-18', DEFAULT_MODEL_PRICES), { input: 0.15, output: 0.6 });
+		assert.deepStrictEqual(UsageTracker.getPrice('gpt-4o-2024-08-06', DEFAULT_MODEL_PRICES), { input: 2.5, output: 10 });
+		assert.strictEqual(UsageTracker.getPrice('llama3', DEFAULT_MODEL_PRICES), undefined);
+
+		const completion = { model: 'gpt-4o', promptTokens: 1_000_000, completionTokens: 100_000, characters: 0 };
+		assert.strictEqual(UsageTracker.getCost(completion, DEFAULT_MODEL_PRICES), 3.5);
+		assert.strictEqual(UsageTracker.getCost({ model: 'tts-1', promptTokens: 0, completionTokens: 0, characters: 2000 }, DEFAULT_MODEL_PRICES), 0.03);
+		assert.strictEqual(UsageTracker.getCost({ ...completion, model: 'llama3' }, DEFAULT_MODEL_PRICES), 0);
+	});
+
+	test('sums calls per day and month by feature, newest first', () => {
+		const records = [
+			record(new Date(2024, 4, 30, 10), 'opening', 0.5),
+			record(new Date(2024, 4, 31, 9), 'chat', 1),
+			record(new Date(2024, 4, 31, 17), 'chat', 0.25),
+			record(new Date(2024, 5, 1, 9), 'voice', 2)
+		];
+
+		const days = UsageTracker.summarize(records, 'day');
+		assert.deepStrictEqual(days.map(day => day.period), ['2024-06-01', '2024-05-31', '2024-05-30']);
+		assert.deepStrictEqual(days[1].byFeature.chat, { calls: 2, promptTokens: 200, completionTokens: 100, characters: 0, cost: 1.25 });
+
+		const months = UsageTracker.summarize(records, 'month');
+		assert.deepStrictEqual(months.map(month => [month.period, month.total.calls, month.total.cost]), [['2024-06', 1, 2], ['2024-05', 3, 1.75]]);
+		assert.strictEqual(months[0].byFeature.voice?.characters, 200);
+	});
+
+	test('checks the budget against calls recorded by other windows', async () => {
+		const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'task-nudge-usage-'));
+		const usage = { dailyBudget: 1, monthlyBudget: 0, prices: {} };
+		try {
+			await UsageTracker.load({ globalStorageUri: { fsPath: folder } } as any);
+			assert.strictEqual(await UsageTracker.getCapReached(usage), undefined);
+
+			// Another window writes to the same log
+			await new JsonlFile<UsageRecord>(path.join(folder, 'usage.jsonl')).append(record(new Date(), 'chat', 2));
+			assert.strictEqual(await UsageTracker.getCapReached(usage), 'daily');
+		} finally {
+			fs.rmSync(folder, { recursive: true, force: true });
+		}
+	});
+});
@@ -22,8 +22,110 @@ export interface SessionState {
   idleThresholdMs: number;
   lastActivityAt: number;
   pingScheduledAt?: number | null;
-  lastGitSnapshot?: string; // JSON строка с предыдущим Git diff
+  lastGitSnapshot?: GitSnapshot; // Git state at the previous check-in
   lastQuestionAnswers?: string[]; // Ответы на последние вопросы
+  snooze?: SnoozeState | null; // Активная пауза напоминаний
+  lastPingDate?: string; // YYYY-MM-DD последнего пройденного опроса
+  activeBlocker?: ActiveBlocker | null; // Текущая блокировка и её длительность
+}
+
+// Session state as persisted in workspace storage
+export type StoredSessionState = Omit<SessionState, 'lastActivityAt' | 'pingScheduledAt'> & {
+  schemaVersion: number;
+};
+
+export interface StateMigrationResult {
+  state: StoredSessionState;
+  fromVersion: number | undefined; // undefined when the stored value was unreadable
+  problems: string[]; // Values that failed validation and were replaced by defaults
+}
+
+export interface QuarantinedState {
+  quarantinedAt: number;
+  schemaVersion: number | undefined;
+  problems: string[];
+  data: unknown; // Stored value exactly as it was found
+}
+
+/**
+ * Blocker type suggested from the survey answers
+ */
+export interface BlockerClassification {
+  type: BlockerType;
+  confidence: number; // 0..1
+  subject?: string; // Teammate or process being waited on
+  source: 'llm' | 'local';
+}
+
+export interface ActiveBlocker {
+  type: BlockerType;
+  subject?: string; // Who or what the developer is waiting on
+  description?: string; // Answer to the blocker question
+  startedAt: number;
+  lastFollowUpAt?: number;
+}
+
+export interface BlockerRecord extends ActiveBlocker {
+  endedAt: number;
+  resolution: 'resolved' | 'replaced';
+}
+
+export interface SnoozeState {
+  startedAt: number;
+  until: number | null; // null - until resumed manually or by a file save
+  untilFileSave: boolean;
+}
+
+export type SnoozeRequest =
+  | { type: 'duration'; minutes: number }
+  | { type: 'until'; timestamp: number }
+  | { type: 'untilFileSave' }
+  | { type: 'indefinite' };
+
+export type QuestionType = 'text' | 'scale' | 'single' | 'multi' | 'yesno';
+
+// What an answer means to the extension, independent of the question wording
+export type QuestionRole = 'task' | 'mood' | 'blocker' | 'next_step' | 'helper' | 'estimate' | 'custom';
+
+export interface QuestionDefinition {
+  id: string;
+  text: string;
+  type: QuestionType;
+  role: QuestionRole;
+  required?: boolean; // Can't be skipped or answered "don't know"
+  default?: string | number | boolean | string[]; // Preselected or prefilled answer
+  options?: string[]; // Choices for single and multi questions
+  lowLabel?: string; // Meaning of 1 on a scale
+  highLabel?: string; // Meaning of 5 on a scale
+  skipIf?: QuestionSkipRule;
+}
+
+/**
+ * Skip a question depending on the answer to an earlier one
+ */
+export interface QuestionSkipRule {
+  question: string; // Id of an earlier question
+  answers?: string[]; // Skip when the answer is one of these (case-insensitive)
+  empty?: boolean; // Skip when the answer is empty, "don't know" or skipped
+}
+
+/**
+ * Situation a ping happens in, used to choose the question set
+ */
+export interface QuestionContext {
+  firstPingOfDay: boolean;
+  stuck: boolean; // No code changes since the previous check-in
+  waiting: boolean; // Waiting for a person or a process
+  endOfDay: boolean; // Close to the end of the working day
+}
+
+/**
+ * Questions asked instead of the regular ones when every condition in `when` holds
+ */
+export interface QuestionSet {
+  id: string;
+  when: Partial<QuestionContext>;
+  questions: QuestionDefinition[];
 }
 
 export interface ExtensionConfig {
@@ -31,17 +133,447 @@ export interface ExtensionConfig {
   baseIntervalMinutes: number;
   maxIntervalMinutes: number;
   idleThresholdSeconds: number;
-  questions: string[]; // Список настраиваемых вопросов
-  openaiApiKey: string;
+  questions: QuestionDefinition[]; // Список настраиваемых вопросов
+  llm: LlmConfig;
   voiceEnabled: boolean;
   voiceLanguage: 'ru' | 'en';
+  uiLanguage: string; // "auto" or a language code with an l10n bundle
+  workingHours: WorkingHoursConfig;
+  morningPlanQuestions: QuestionDefinition[]; // Вопросы для первого опроса за день
+  questionSets: QuestionSet[]; // Checked in order, the first matching set is asked
+  endOfDayMinutes: number; // How long before the end of the working day counts as its end
+  surveyMode: SurveyMode;
+  activitySources: Record<ActivitySource, ActivitySourceConfig>;
+  processDetection: ProcessDetectionConfig;
+  blockerFollowUp: BlockerFollowUpConfig;
+  standup: StandupConfig;
+  usage: UsageConfig;
+  prompts: Partial<Record<PromptTemplateId, string>>; // Empty = the workspace file or the built-in template
+}
+
+// OpenAI itself, a local or self-hosted server with the same API (Ollama, LM Studio...), or Azure OpenAI
+export type LlmProviderKind = 'openai' | 'openaiCompatible' | 'azure';
+
+// API keys kept in secret storage: the LLM provider's and, optionally, a separate one for OpenAI speech
+export type ApiKeyKind = 'llm' | 'tts';
+
+// What a completion is for, each with its own model settings
+export type LlmUseCase = 'opening' | 'analysis' | 'chat';
+
+export interface LlmModelSettings {
+  model: string; // Deployment name for Azure
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LlmConfig {
+  provider: LlmProviderKind;
+  baseUrl: string; // Empty = the provider's default endpoint
+  apiKey: string; // From secret storage
+  apiVersion: string; // Azure only
+  models: Record<LlmUseCase, LlmModelSettings>;
+  timeoutSeconds: number; // Without any data from the provider
+  maxRetries: number; // For rate limits, timeouts, network and server errors
+}
+
+// Why an LLM request failed
+export type LlmErrorKind =
+  | 'notConfigured'
+  | 'invalidKey'
+  | 'quota'
+  | 'rateLimit'
+  | 'timeout'
+  | 'network'
+  | 'badModel'
+  | 'server'
+  | 'badRequest'
+  | 'budget'
+  | 'cancelled';
+
+// What the user can do about a failed request
+export type LlmErrorAction = 'setKey' | 'retry' | 'openSettings' | 'showUsage';
+
+// A failed LLM request, described for the user
+export interface LlmFailure {
+  kind: LlmErrorKind;
+  message: string;
+  action?: LlmErrorAction;
+  actionLabel?: string;
+}
+
+// Chat completion HTTP request, as built by an LLM provider
+export interface LlmRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+// Prompts that teams can replace with their own templates
+export type PromptTemplateId = 'openingSystem' | 'opening' | 'analysisSystem' | 'analysis' | 'chatSystem';
+
+// Values for {{name}} in prompt templates
+export type PromptVariable =
+  | 'language'
+  | 'gitSummary'
+  | 'task'
+  | 'answers'
+  | 'mood'
+  | 'moodGuidance'
+  | 'unknownAnswers'
+  | 'estimate'
+  | 'blockerType';
+
+export type PromptVariables = Partial<Record<PromptVariable, string>>;
+
+// Where a prompt template comes from
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  text: string;
+  source: 'settings' | 'file' | 'default';
+  path?: string; // For templates from the workspace
+}
+
+// Tokens of a completion, as reported by the provider
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// What AI usage is for: a completion use case, or text-to-speech
+export type UsageFeature = LlmUseCase | 'voice';
+
+// USD per million tokens; text-to-speech models use `input` per million characters
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageConfig {
+  dailyBudget: number; // USD, 0 = no cap
+  monthlyBudget: number; // USD, 0 = no cap
+  prices: Record<string, ModelPrice>; // By model name or name prefix
+}
+
+// One AI call, appended to the usage log
+export interface UsageRecord extends LlmUsage {
+  id: string;
+  timestamp: number;
+  workspace: string;
+  feature: UsageFeature;
+  model: string;
+  characters: number; // Text-to-speech input
+  estimated: boolean; // The provider reported no usage, so tokens were estimated from the text
+  cost: number; // USD at the prices when the call was made
+}
+
+export interface UsageTotals extends LlmUsage {
+  calls: number;
+  characters: number;
+  cost: number;
+}
+
+// Usage of one day ("2024-05-01") or month ("2024-05")
+export interface UsagePeriod {
+  period: string;
+  total: UsageTotals;
+  byFeature: Partial<Record<UsageFeature, UsageTotals>>;
+}
+
+// Where check-in questions are asked: a form in the chat view or a chain of quick picks
+export type SurveyMode = 'form' | 'quickPick';
+
+export interface StandupConfig {
+  polishWithAI: boolean;
+  output: 'ask' | 'editor' | 'clipboard';
+}
+
+export interface BlockerFollowUpConfig {
+  enabled: boolean;
+  afterMinutes: number; // Suggest a follow-up after waiting this long
+  repeatMinutes: number; // Repeat the suggestion at most this often
+}
+
+export interface ProcessDetectionConfig {
+  enabled: boolean;
+  tasks: boolean;
+  terminalCommands: boolean;
+  debugSessions: boolean;
+  longRunningSeconds: number; // Terminal commands shorter than this are ignored
+  mode: 'hold' | 'waiting'; // Hold pings completely or switch to the waiting interval
+  maxHoldMinutes: number; // A process stops holding pings after this long, 0 for no limit
+  notifyOnFinish: boolean;
+}
+
+export interface RunningProcess {
+  kind: 'task' | 'terminal' | 'debug';
+  name: string;
+  startedAt: number;
+  exitCode?: number;
+}
+
+export type ActivitySource =
+  | 'textEdit'
+  | 'selection'
+  | 'editorSwitch'
+  | 'save'
+  | 'scroll'
+  | 'debug'
+  | 'terminal'
+  | 'notebook'
+  | 'windowFocus';
+
+export type ActivityKind = 'typing' | 'reading' | 'running' | 'focus';
+
+export interface ActivitySourceConfig {
+  enabled: boolean;
+  weight: number; // 0..1, how much of the idle threshold one event resets
+}
+
+export interface ActivityEvent {
+  source: ActivitySource;
+  kind: ActivityKind;
+  timestamp: number;
+  effectiveAt: number; // Timestamp the event counts as, after weighting
+}
+
+export type Weekday =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday';
+
+export interface WorkingHoursConfig {
+  enabled: boolean;
+  timeZone: string; // IANA time zone, empty - system time zone
+  schedule: Partial<Record<Weekday, string[]>>; // "HH:MM-HH:MM" ranges per weekday
+  lunchBreak: string; // "HH:MM-HH:MM" or empty
+  daysOff: string[]; // "YYYY-MM-DD" or "YYYY-MM-DD..YYYY-MM-DD"
+  outsideHours: 'suppress' | 'defer';
 }
 
 export interface QuestionDialogResult {
+  questions: string[]; // Заданные вопросы
+  questionIds: string[]; // Ids of the asked questions, same order
+  questionRoles: QuestionRole[]; // Roles of the asked questions, same order
   answers: string[]; // Ответы на вопросы
   blockerType: BlockerType;
+  blockerSubject?: string; // Who or what the developer is waiting on
+  blockerClassification?: BlockerClassification; // Suggestion the blocker type was confirmed from
+  blockerResolved?: boolean; // Previous blocker was confirmed as resolved
+  openingMessage: string; // AI opening message shown before the survey
+  encouragement: string; // AI response to the answers
+}
+
+export type CheckInOutcome = 'completed' | 'snoozed' | 'dismissed';
+
+/**
+ * Questions and answers of a survey; roles are missing in records saved before they existed
+ */
+export interface SurveyAnswers {
+  questions: string[];
+  questionRoles?: QuestionRole[];
+  answers: string[];
+}
+
+export interface CheckInRecord {
+  id: string;
+  timestamp: number;
+  workspace: string;
+  taskId?: string; // Task that was active during the check-in
+  outcome?: CheckInOutcome; // Missing in older records - completed
+  questions: string[];
+  questionIds?: string[]; // Missing in older records
+  questionRoles?: QuestionRole[]; // Missing in older records
+  answers: string[];
+  blockerType: BlockerType;
+  blockerSubject?: string;
+  blockerClassification?: BlockerClassification; // Missing when the blocker wasn't classified
+  gitAnalysis: {
+    isStuck: boolean;
+    hasChanges: boolean;
+    description: string;
+    newFiles: string[];
+  };
+  openingMessage: string;
+  encouragement: string;
+  intervalMs: number; // Ping interval in effect for this check-in
+  estimateMinutes?: number; // Parsed answer to the time estimate question
+}
+
+export interface DateRangeFilter {
+  from?: number; // Inclusive timestamp
+  to?: number; // Exclusive timestamp
+  workspace?: string;
+}
+
+export interface HistoryQuery extends DateRangeFilter {
+  includeSkipped?: boolean; // Include snoozed and dismissed pings
+}
+
+export interface ChatLogEntry {
+  id: string;
+  timestamp: number;
+  workspace: string;
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+export interface ExportBundle {
+  version: number;
+  exportedAt: number;
+  from?: number;
+  to?: number;
+  checkIns: CheckInRecord[];
+  chatMessages: ChatLogEntry[];
+  gitSnapshots: GitSnapshotRecord[];
+}
+
+export interface ImportSummary {
+  checkIns: number;
+  chatMessages: number;
+  gitSnapshots: number;
+  duplicates: number; // Records that were already present
+  invalid: number; // Records that were dropped as malformed
+}
+
+export interface InsightsQuery {
+  from: number;
+  to: number;
+  workspace?: string;
+  groupBy: 'day' | 'week';
+}
+
+export interface InsightsBucket {
+  key: string; // YYYY-MM-DD (start of day or week)
+  checkIns: number;
+  snoozed: number;
+  dismissed: number;
+  stuck: number;
+  averageMood: number | null; // 1..5
+  averageIntervalMinutes: number | null;
+}
+
+export interface InsightsWorkspaceSummary {
+  workspace: string;
+  checkIns: number;
+  skipped: number;
+  stuck: number;
+  averageMood: number | null;
 }
 
+export interface InsightsData {
+  query: InsightsQuery;
+  workspaces: string[];
+  buckets: InsightsBucket[];
+  blockerMinutes: Record<BlockerType, number>;
+  totals: {
+    checkIns: number;
+    snoozed: number;
+    dismissed: number;
+    stuckRate: number | null; // 0..1 of all pings
+    averageMood: number | null;
+    averageIntervalMinutes: number | null;
+  };
+  perWorkspace: InsightsWorkspaceSummary[];
+  estimates: EstimateAccuracy[]; // Finished tasks with an estimate, newest first
+  averageEstimateRatio: number | null;
+}
+
+export interface TrackedTask {
+  id: string;
+  title: string;
+  branch?: string; // Git branch the task was started on
+  status: 'active' | 'paused' | 'finished';
+  createdAt: number;
+  finishedAt?: number;
+  trackedMs: number; // Active time spent on the task
+  dailyMs: Record<string, number>; // Active time per YYYY-MM-DD
+  lastActivityAt?: number; // Last activity counted towards the task
+  estimates?: TaskEstimate[];
+}
+
+export interface TaskEstimate {
+  at: number;
+  minutes: number; // Estimated remaining time
+  trackedMs: number; // Time already tracked on the task when estimated
+}
+
+export interface EstimateAccuracy {
+  taskId: string;
+  title: string;
+  finishedAt: number;
+  estimatedMinutes: number; // First estimate given for the task
+  actualMinutes: number; // Time tracked after that estimate
+  ratio: number; // actual / estimated, 1 is spot on
+}
+
+// Current task as shown in messages and the status bar
+export interface TaskContext {
+  title: string;
+  branch?: string;
+  todayMs: number;
+  totalMs: number;
+  estimate?: { minutes: number; spentMs: number }; // Latest estimate and time spent since
+}
+
+export interface NudgeStatus {
+  enabled: boolean;
+  nextPingAt: number | null; // Ожидаемое время следующего пинга
+  pingScheduled: boolean;
+  currentIntervalMs: number;
+  isWaiting: boolean;
+  blockerType: BlockerType;
+  snooze: SnoozeState | null;
+  outsideWorkingHours: boolean;
+  lastActivity?: ActivityEvent;
+  runningProcesses: RunningProcess[];
+  activeBlocker: ActiveBlocker | null;
+  activeTask: TaskContext | null;
+}
+
+export interface BlockerChoice {
+  label: string;
+  detail: string;
+  blockerType: BlockerType;
+}
+
+/**
+ * Check-in survey shown as a form in the chat view
+ */
+export interface SurveyForm {
+  id: string; // Derived from the questions, so a draft is only restored for the same survey
+  questions: QuestionDefinition[];
+  blockerChoices: BlockerChoice[];
+  activeBlocker?: string; // Description of a blocker to ask about ("Alex for 2h")
+}
+
+/**
+ * Partially filled survey form, kept until it is submitted
+ */
+export interface SurveyDraft {
+  formId: string;
+  savedAt: number;
+  step: number;
+  values: Record<string, string | string[]>; // Raw input per question id and blocker field
+}
+
+export interface SurveyFormResult {
+  answers: Record<string, string>; // By question id
+  blockerResolved?: boolean;
+  blockerType?: BlockerType; // Missing when an unresolved blocker carries over
+  blockerSubject?: string;
+}
+
+export type PingDialogOutcome =
+  | { type: 'answered'; result: QuestionDialogResult }
+  | { type: 'snoozed'; snooze: SnoozeRequest }
+  | { type: 'dismissed' };
+
 export interface GitSnapshot {
   timestamp: number;
   changedFiles: string[];
@@ -50,6 +582,27 @@ export interface GitSnapshot {
   summary: string; // Краткое описание изменений
 }
 
+export interface GitSnapshotRecord extends GitSnapshot {
+  id: string;
+  workspace: string;
+  taskId?: string;
+}
+
+export interface GitCommit {
+  hash: string;
+  author: string;
+  timestamp: number;
+  subject: string;
+  files: string[];
+}
+
+export interface ChatResponse {
+  content: string;
+  truncated: boolean; // Cut off by the max tokens limit
+  stopped: boolean; // Aborted with the Stop button
+  error?: LlmFailure; // Shown as an error state, never added to the chat history
+}
+
 export interface OpenAIMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
@@ -0,0 +1,310 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { DateRangeFilter, LlmUsage, ModelPrice, UsageConfig, UsageFeature, UsagePeriod, UsageRecord, UsageTotals } from './types';
+import { JsonlFile } from './jsonl';
+import { HistoryStore } from './history';
+import { ConfigManager } from './config';
+import { Localization } from './localization';
+
+/**
+ * Tokens, speech characters and cost of every AI call, with daily and monthly
+ * budget caps. Shared by all AI clients, like the API keys
+ */
+export class UsageTracker {
+  static readonly SHOW_COMMAND = 'task-nudge.showUsage';
+
+  private static readonly FEATURES: UsageFeature[] = ['opening', 'analysis', 'chat', 'voice'];
+
+  // Rough size of a token, for providers that report no usage
+  private static readonly CHARS_PER_TOKEN = 4;
+
+  private static file: JsonlFile<UsageRecord> | undefined;
+  private static monthRecords: UsageRecord[] = []; // This month's calls as of the last read of the log
+  private static readStamp = ''; // Size and modification time of the log at that read
+
+  /**
+   * Open the usage log in global storage and read this month's calls
+   */
+  static async load(context: vscode.ExtensionContext): Promise<void> {
+    this.file = new JsonlFile<UsageRecord>(path.join(context.globalStorageUri.fsPath, 'usage.jsonl'));
+    this.readStamp = '';
+    await this.refresh();
+  }
+
+  /**
+   * Record a completion. Without usage from the provider, tokens are estimated from the text
+   */
+  static async recordCompletion(feature: UsageFeature, model: string, usage: LlmUsage | undefined, prompt: string, completion: string): Promise<void> {
+    await this.record({
+      feature,
+      model,
+      promptTokens: usage?.promptTokens ?? this.estimateTokens(prompt),
+      completionTokens: usage?.completionTokens ?? this.estimateTokens(completion),
+      characters: 0,
+      estimated: !usage
+    });
+  }
+
+  /**
+   * Record generated speech, which is priced by input characters
+   */
+  static async recordSpeech(model: string, text: string): Promise<void> {
+    await this.record({ feature: 'voice', model, promptTokens: 0, completionTokens: 0, characters: text.length, estimated: false });
+  }
+
+  /**
+   * Which budget is used up, if any. AI clients fall back to local messages while it is.
+   * The log is shared by all windows, so it is read again whenever it has changed
+   */
+  static async getCapReached(usage: UsageConfig = ConfigManager.getConfig().usage, now = Date.now()): Promise<'daily' | 'monthly' | undefined> {
+    await this.refresh();
+    return this.findCapReached(this.monthRecords, usage, now);
+  }
+
+  /**
+   * Which budget the calls use up, if any
+   */
+  static findCapReached(records: UsageRecord[], usage: UsageConfig, now = Date.now()): 'daily' | 'monthly' | undefined {
+    const monthStart = this.startOfMonth(now);
+    const dayStart = new Date(now).setHours(0, 0, 0, 0);
+    const month = records.filter(record => record.timestamp >= monthStart && record.timestamp <= now);
+
+    if (usage.dailyBudget > 0 && this.sumCost(month.filter(record => record.timestamp >= dayStart)) >= usage.dailyBudget) {
+      return 'daily';
+    }
+    if (usage.monthlyBudget > 0 && this.sumCost(month) >= usage.monthlyBudget) {
+      return 'monthly';
+    }
+    return undefined;
+  }
+
+  /**
+   * Query recorded calls by date range and workspace, oldest first
+   */
+  static async query(filter: DateRangeFilter = {}): Promise<UsageRecord[]> {
+    let records: UsageRecord[];
+    try {
+      records = await this.file?.readAll() ?? [];
+    } catch (error) {
+      console.error('Failed to read usage log:', error);
+      return [];
+    }
+
+    return records
+      .filter(record =>
+        (filter.from === undefined || record.timestamp >= filter.from) &&
+        (filter.to === undefined || record.timestamp < filter.to) &&
+        (filter.workspace === undefined || record.workspace === filter.workspace)
+      )
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Price of a model: an exact match, or the longest name prefix ("gpt-4o-mini-2024-07-18" costs as "gpt-4o-mini")
+   */
+  static getPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+    if (prices[model]) {
+      return prices[model];
+    }
+    const prefix = Object.keys(prices)
+      .filter(name => name && model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : undefined;
+  }
+
+  /**
+   * Cost in USD. Speech is priced per character, completions per token
+   */
+  static getCost(record: Pick<UsageRecord, 'model' | 'promptTokens' | 'completionTokens' | 'characters'>, prices: Record<string, ModelPrice>): number {
+    const price = this.getPrice(record.model, prices);
+    if (!price) {
+      return 0;
+    }
+    return (record.characters * price.input + record.promptTokens * price.input + record.completionTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Totals per day or per calendar month, newest first
+   */
+  static summarize(records: UsageRecord[], by: 'day' | 'month'): UsagePeriod[] {
+    const periods = new Map<string, UsagePeriod>();
+
+    for (const record of records) {
+      const key = this.periodKey(record.timestamp, by);
+      let period = periods.get(key);
+      if (!period) {
+        period = { period: key, total: this.emptyTotals(), byFeature: {} };
+        periods.set(key, period);
+      }
+      this.add(period.total, record);
+      this.add(period.byFeature[record.feature] ??= this.emptyTotals(), record);
+    }
+
+    return [...periods.values()].sort((a, b) => b.period.localeCompare(a.period));
+  }
+
+  /**
+   * Markdown report with this month's days and the months before
+   */
+  static formatReport(records: UsageRecord[], usage: UsageConfig, now = Date.now()): string {
+    const monthStart = this.startOfMonth(now);
+    const lines = [`# ${Localization.t('AI usage and cost')}`, ''];
+
+    const caps: string[] = [];
+    if (usage.dailyBudget > 0) {
+      caps.push(Localization.t('daily budget {0}', this.formatCost(usage.dailyBudget)));
+    }
+    if (usage.monthlyBudget > 0) {
+      caps.push(Localization.t('monthly budget {0}', this.formatCost(usage.monthlyBudget)));
+    }
+    const cap = this.findCapReached(records, usage, now);
+    lines.push(caps.length > 0 ? `${Localization.t('Budgets')}: ${caps.join(', ')}` : Localization.t('No budget caps are set.'));
+    if (cap) {
+      lines.push('', `**${cap === 'daily'
+        ? Localization.t('The daily AI budget is used up. AI features use offline messages until tomorrow.')
+        : Localization.t('The monthly AI budget is used up. AI features use offline messages until next month.')}**`);
+    }
+    lines.push('');
+
+    if (records.length === 0) {
+      lines.push(Localization.t('No AI calls recorded yet.'));
+      return lines.join('\n') + '\n';
+    }
+
+    lines.push(`## ${Localization.t('By month')}`, '', ...this.formatTable(this.summarize(records, 'month')), '');
+
+    const thisMonth = records.filter(record => record.timestamp >= monthStart);
+    if (thisMonth.length > 0) {
+      lines.push(`## ${Localization.t('This month by day')}`, '', ...this.formatTable(this.summarize(thisMonth, 'day')), '');
+    }
+
+    if (records.some(record => record.estimated)) {
+      lines.push(`_${Localization.t('Some providers report no token usage, so tokens for those calls are estimated from the text.')}_`);
+    }
+    if (records.some(record => record.cost === 0 && !this.getPrice(record.model, usage.prices))) {
+      lines.push(`_${Localization.t('Models without a price in taskNudge.usage.prices count as free.')}_`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  private static async record(entry: Omit<UsageRecord, 'id' | 'timestamp' | 'workspace' | 'cost'>): Promise<void> {
+    const record: UsageRecord = {
+      id: randomUUID(),
+      timestamp: Date.now(),
+      workspace: HistoryStore.getWorkspaceName(),
+      ...entry,
+      cost: this.getCost(entry, ConfigManager.getConfig().usage.prices)
+    };
+
+    try {
+      await this.file?.append(record);
+    } catch (error) {
+      console.error('Failed to write usage log:', error);
+    }
+  }
+
+  /**
+   * Read this month's calls again if the log changed since the last read
+   */
+  private static async refresh(): Promise<void> {
+    if (!this.file) {
+      return;
+    }
+
+    let stamp = '';
+    try {
+      const stats = await fs.promises.stat(this.file.getPath());
+      stamp = `${stats.size}:${stats.mtimeMs}`;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to check usage log:', error);
+        return;
+      }
+    }
+    if (stamp === this.readStamp) {
+      return;
+    }
+
+    // Taken before reading, so a write during the read is picked up next time
+    this.readStamp = stamp;
+    try {
+      const monthStart = this.startOfMonth(Date.now());
+      this.monthRecords = stamp ? (await this.file.readAll()).filter(record => record.timestamp >= monthStart) : [];
+    } catch (error) {
+      console.error('Failed to read usage log:', error);
+      this.readStamp = '';
+    }
+  }
+
+  private static formatTable(periods: UsagePeriod[]): string[] {
+    const rows = [
+      `| ${Localization.t('Period')} | ${Localization.t('Feature')} | ${Localization.t('Calls')} | ${Localization.t('Prompt tokens')} | ${Localization.t('Completion tokens')} | ${Localization.t('Speech characters')} | ${Localization.t('Cost')} |`,
+      '|---|---|---:|---:|---:|---:|---:|'
+    ];
+    const row = (period: string, feature: string, totals: UsageTotals) =>
+      `| ${period} | ${feature} | ${totals.calls} | ${totals.promptTokens} | ${totals.completionTokens} | ${totals.characters} | ${this.formatCost(totals.cost)} |`;
+
+    for (const period of periods) {
+      for (const feature of this.FEATURES) {
+        const totals = period.byFeature[feature];
+        if (totals) {
+          rows.push(row(period.period, this.describeFeature(feature), totals));
+        }
+      }
+      rows.push(row(`**${period.period}**`, `**${Localization.t('Total')}**`, period.total));
+    }
+
+    return rows;
+  }
+
+  private static describeFeature(feature: UsageFeature): string {
+    switch (feature) {
+      case 'opening':
+        return Localization.t('Opening messages');
+      case 'analysis':
+        return Localization.t('Check-in analysis');
+      case 'chat':
+        return Localization.t('Chat');
+      case 'voice':
+        return Localization.t('Voice');
+    }
+  }
+
+  private static formatCost(usd: number): string {
+    return `$${usd.toFixed(usd > 0 && usd < 0.01 ? 4 : 2)}`;
+  }
+
+  private static estimateTokens(text: string): number {
+    return Math.ceil(text.length / this.CHARS_PER_TOKEN);
+  }
+
+  private static sumCost(records: UsageRecord[]): number {
+    return records.reduce((sum, record) => sum + record.cost, 0);
+  }
+
+  private static emptyTotals(): UsageTotals {
+    return { calls: 0, promptTokens: 0, completionTokens: 0, characters: 0, cost: 0 };
+  }
+
+  private static add(totals: UsageTotals, record: UsageRecord): void {
+    totals.calls++;
+    totals.promptTokens += record.promptTokens;
+    totals.completionTokens += record.completionTokens;
+    totals.characters += record.characters;
+    totals.cost += record.cost;
+  }
+
+  private static startOfMonth(timestamp: number): number {
+    const date = new Date(timestamp);
+    return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+  }
+
+  private static periodKey(timestamp: number, by: 'day' | 'month'): string {
+    const date = new Date(timestamp);
+    const month = `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+    return by === 'month' ? month : `${month}-${date.getDate().toString().padStart(2, '0')}`;
+  }
+}
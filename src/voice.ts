@@ -1,10 +1,14 @@
 import * as vscode from 'vscode';
 import { VoiceOptions } from './types';
+import { Localization } from './localization';
+import { UsageTracker } from './usage';
 
 /**
  * Voice synthesis manager using OpenAI TTS API
  */
 export class VoiceManager {
+  private static readonly TTS_MODEL = 'tts-1';
+
   private apiKey: string = '';
 
   constructor() {
@@ -35,10 +39,18 @@ export class VoiceManager {
       return;
     }
 
+    const cap = await UsageTracker.getCapReached();
+    if (cap) {
+      console.log(`[VOICE - ${cap} budget used up]: ${options.text}`);
+      await this.fallbackToText(options.text);
+      return;
+    }
+
     console.log(`[VOICE] Generating speech for: "${options.text}"`);
 
     try {
       const audioBuffer = await this.generateSpeechWithOpenAI(options.text, options.language);
+      await UsageTracker.recordSpeech(VoiceManager.TTS_MODEL, options.text);
       console.log(`[VOICE] Speech generated successfully, ${audioBuffer.byteLength} bytes`);
       await this.playAudio(audioBuffer);
     } catch (error) {
@@ -58,7 +70,7 @@ export class VoiceManager {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: 'tts-1',
+        model: VoiceManager.TTS_MODEL,
         input: text,
         voice: 'alloy', // OpenAI voices work for both languages
         response_format: 'mp3',
@@ -104,11 +116,12 @@ export class VoiceManager {
           await execAsync(`open "${tempFile}"`);
         } catch (openError) {
           console.log('[VOICE] Could not play audio automatically');
+          const open = Localization.t('Open');
           vscode.window.showInformationMessage(
-            `🔊 Голосовое сообщение сохранено: ${tempFile}`,
-            'Открыть'
+            `🔊 ${Localization.t('Voice message saved: {0}', tempFile)}`,
+            open
           ).then(action => {
-            if (action === 'Открыть') {
+            if (action === open) {
               vscode.env.openExternal(vscode.Uri.file(tempFile));
             }
           });
@@ -127,7 +140,7 @@ export class VoiceManager {
 
     } catch (error) {
       console.error('[VOICE] Failed to play audio:', error);
-      vscode.window.showWarningMessage('🔊 Голос сгенерирован, но не удалось воспроизвести');
+      vscode.window.showWarningMessage(`🔊 ${Localization.t('Voice generated but could not be played')}`);
     }
   }
 